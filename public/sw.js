@@ -0,0 +1,116 @@
+/* Service worker: precaches the app shell, including the built scripts and styles
+ * index.html references, and keeps them available offline.
+ * API data (items, story lists, summaries) is stored in IndexedDB by the app itself,
+ * so cross-origin requests are left alone here. */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `slashnews-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `slashnews-assets-${CACHE_VERSION}`;
+
+// Relative to the worker's scope so builds served from a sub-path keep working
+const SHELL_URLS = [
+  './',
+  './index.html',
+  './manifest.json',
+  './favicon.svg',
+  './favicon.ico',
+  './android-chrome-192.png',
+  './android-chrome-512.png',
+];
+
+// Hashed bundles (./assets/index-abc123.js and the like) named in an index.html
+const ASSET_REFERENCE = /(?:src|href)="([^"]*assets\/[^"]+)"/g;
+
+const referencedAssets = (html) =>
+  Array.from(html.matchAll(ASSET_REFERENCE), (match) => new URL(match[1], self.registration.scope).href);
+
+// Caches the bundles this index.html loads and drops the ones earlier builds left behind
+const syncAssets = async (html) => {
+  const cache = await caches.open(ASSET_CACHE);
+  const wanted = referencedAssets(html);
+
+  const missing = [];
+  for (const url of wanted) {
+    if (!(await cache.match(url))) missing.push(url);
+  }
+  await cache.addAll(missing);
+
+  const stale = (await cache.keys()).filter((request) =>
+    new URL(request.url).pathname.includes('/assets/') && !wanted.includes(request.url)
+  );
+  await Promise.all(stale.map((request) => cache.delete(request)));
+};
+
+const precache = async () => {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll(SHELL_URLS);
+  const index = await shell.match('./index.html');
+  await syncAssets(await index.text());
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('slashnews-') && !current.includes(key))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Navigations: network first so deploys show up immediately, cached shell when offline.
+// A fresh index.html may come from a new deploy, so its bundles are cached right away.
+const handleNavigation = async (event) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      cache.put('./index.html', response.clone());
+      event.waitUntil(response.clone().text().then(syncAssets).catch(() => {}));
+    }
+    return response;
+  } catch {
+    return (await cache.match('./index.html')) || (await cache.match('./')) || Response.error();
+  }
+};
+
+// Hashed build assets and icons: serve from cache and refresh in the background
+const handleAsset = async (event) => {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = (await cache.match(event.request)) || (await caches.match(event.request));
+
+  const network = fetch(event.request)
+    .then((response) => {
+      if (response.ok) {
+        cache.put(event.request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  if (cached) {
+    event.waitUntil(network);
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+  } else {
+    event.respondWith(handleAsset(event));
+  }
+});
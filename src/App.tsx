@@ -1,58 +1,171 @@
-import { useState } from 'react';
+import { useState, useEffect, useLayoutEffect, useCallback } from 'react';
 import { Header } from './components/Header';
+import { OfflineIndicator } from './components/OfflineIndicator';
+import { UndoHideToast } from './components/UndoHideToast';
 import { StoryList } from './components/StoryList';
 import { About } from './components/About';
+import { StoryDetail } from './components/StoryDetail';
+import { UserProfile } from './components/UserProfile';
+import { SearchResults } from './components/SearchResults';
+import { FilterBar } from './components/FilterBar';
+import { ReadingList } from './components/ReadingList';
 import { Footer } from './components/Footer';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { useSkipLinks, useAnnouncer } from './hooks/useKeyboardNavigation';
+import { KeyboardShortcutsHelp } from './components/KeyboardShortcutsHelp';
+import { focusAdjacentComment } from './components/commentsUtils';
+import { useSkipLinks, useAnnouncer, useKeyboardShortcuts } from './hooks/useKeyboardNavigation';
 import { useHiddenArticles } from './hooks/useHiddenArticles';
-import type { ViewMode, SortMode } from './types/ui';
+import { useRoute, routeToHref, routeToPath } from './hooks/useRoute';
+import { usePreferences } from './hooks/usePreferences';
+import { useTheme } from './hooks/useTheme';
+import { useDisplaySettings } from './hooks/useDisplaySettings';
+import { useReadingList } from './hooks/useReadingList';
+import { getSortLabel } from './utils/storySort';
+import type { ViewMode, SortMode, SortDirection, CategoryType, StoryFilters, SearchOptions, ThemePreference, DisplaySettings } from './types/ui';
 import './styles/toodles.css';
 
 function App() {
-  const [currentCategory, setCurrentCategory] = useState('top');
-  const [viewMode, setViewMode] = useState<ViewMode>('full');
-  const [sortMode, setSortMode] = useState<SortMode>('default');
-  const [showAbout, setShowAbout] = useState(false);
-  const [showHiddenArticles, setShowHiddenArticles] = useState(false);
+  const { preferences, updatePreferences } = usePreferences();
+  const { viewMode, sortMode, sortDirection, filters, showHiddenArticles, liveUpdates, infiniteScroll, theme, display } = preferences;
+  const { route, navigate } = useRoute({ name: 'category', category: preferences.category });
   const { skipToContent, skipToNavigation } = useSkipLinks();
   const { announce, announcementProps } = useAnnouncer();
+  useTheme(theme);
+  useDisplaySettings(display);
   const { clearAllHidden } = useHiddenArticles();
+  const { unreadCount: savedUnreadCount, setRead: setSavedRead } = useReadingList();
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+
+  const currentCategory = route.name === 'category' ? route.category : '';
+  const showAbout = route.name === 'about';
+  const showSaved = route.name === 'saved';
+  const isListRoute = route.name === 'category';
+
+  // The list stays mounted (hidden) while a story or About is open, so going
+  // back keeps loaded pages and summaries. It is only mounted once a list
+  // route has been visited, so deep links don't fetch a list in the background.
+  const [listCategory, setListCategory] = useState<CategoryType | null>(
+    route.name === 'category' ? route.category : null
+  );
+  if (route.name === 'category' && route.category !== listCategory) {
+    setListCategory(route.category);
+  }
+
+  // Opening a saved story's discussion marks it read
+  const openItemId = route.name === 'item' ? route.id : null;
+  useEffect(() => {
+    if (openItemId !== null) {
+      setSavedRead(openItemId, true);
+    }
+  }, [openItemId, setSavedRead]);
+
+  // Remember the last category for visits without a hash
+  useEffect(() => {
+    if (listCategory) {
+      updatePreferences({ category: listCategory });
+    }
+  }, [listCategory, updatePreferences]);
+
+  // Other pages start at the top. The story list scrolls inside its own
+  // viewport and keeps its position itself (see StoryList).
+  const pageKey = isListRoute ? 'list' : routeToPath(route);
+  useLayoutEffect(() => {
+    window.scrollTo(0, 0);
+  }, [pageKey]);
+
+  // Story shortcuts live in StoryList; these work on every page
+  const moveToComment = (direction: 1 | -1) => {
+    const comment = focusAdjacentComment(direction);
+    const author = comment?.querySelector('.comment-author')?.textContent;
+    announce(comment ? `Comment by ${author || 'unknown'}` : 'No more comments');
+  };
+
+  useKeyboardShortcuts({
+    '?': () => setShowShortcutHelp(true),
+    n: () => moveToComment(1),
+    p: () => moveToComment(-1),
+  });
 
   const handleCategoryChange = (category: string) => {
-    setCurrentCategory(category);
-    setShowAbout(false);
+    navigate({ name: 'category', category: category as CategoryType });
     announce(`Switched to ${category} stories`);
   };
 
   const handleViewModeChange = (mode: ViewMode) => {
-    setViewMode(mode);
+    updatePreferences({ viewMode: mode });
     announce(`View mode changed to ${mode}`);
   };
 
   const handleSortModeChange = (mode: SortMode) => {
-    setSortMode(mode);
-    announce(`Sort mode changed to ${mode === 'default' ? 'default order' : 'sorted by comments'}`);
+    updatePreferences({ sortMode: mode });
+    announce(`Sort changed to ${getSortLabel(mode, sortDirection)}`);
   };
 
+  const handleSortDirectionChange = (direction: SortDirection) => {
+    updatePreferences({ sortDirection: direction });
+    announce(`Sort changed to ${getSortLabel(sortMode, direction)}`);
+  };
+
+  const handleFiltersChange = (nextFilters: StoryFilters) => {
+    updatePreferences({ filters: nextFilters });
+  };
+
+  // Keep the current search options when refining a query
+  const searchSort = route.name === 'search' ? route.sort : 'relevance';
+  const searchType = route.name === 'search' ? route.type : 'story';
+  const searchRange = route.name === 'search' ? route.range : 'all';
+
+  const handleSearch = useCallback((query: string) => {
+    navigate({ name: 'search', query, sort: searchSort, type: searchType, range: searchRange });
+    announce(`Searching for ${query}`);
+  }, [navigate, announce, searchSort, searchType, searchRange]);
+
+  const handleSearchOptionsChange = useCallback((options: SearchOptions) => {
+    navigate({ name: 'search', ...options });
+  }, [navigate]);
+
   const handleShowAbout = () => {
-    setShowAbout(true);
+    navigate({ name: 'about' });
     announce('Showing about page');
   };
 
+  const handleShowSaved = () => {
+    navigate({ name: 'saved' });
+    announce('Showing saved stories');
+  };
+
   const handleToggleHiddenArticles = () => {
-    setShowHiddenArticles(prev => !prev);
+    updatePreferences({ showHiddenArticles: !showHiddenArticles });
     announce(showHiddenArticles ? 'Hiding hidden articles' : 'Showing hidden articles');
   };
 
   const handleClearHiddenArticles = () => {
     clearAllHidden();
-    setShowHiddenArticles(false);
+    updatePreferences({ showHiddenArticles: false });
     announce('All hidden articles cleared');
   };
 
+  const handleToggleLiveUpdates = () => {
+    updatePreferences({ liveUpdates: !liveUpdates });
+    announce(liveUpdates ? 'Live updates off' : 'Live updates on');
+  };
+
+  const handleToggleInfiniteScroll = () => {
+    updatePreferences({ infiniteScroll: !infiniteScroll });
+    announce(infiniteScroll ? 'Infinite scroll off' : 'Infinite scroll on');
+  };
+
+  const handleThemeChange = (nextTheme: ThemePreference) => {
+    updatePreferences({ theme: nextTheme });
+    announce(`Theme changed to ${nextTheme === 'high-contrast' ? 'high contrast' : nextTheme}`);
+  };
+
+  const handleDisplayChange = (changes: Partial<DisplaySettings>) => {
+    updatePreferences({ display: { ...display, ...changes } });
+  };
+
   return (
-    <div>
+    <div className={isListRoute ? 'app-list-route' : undefined}>
       {/* Skip links for keyboard navigation */}
       {/* Security: These are internal in-page anchor links for accessibility, not external links. They do not require target="_blank" or rel="noopener noreferrer". */}
       <a href="#main-content" className="skip-link" onClick={(e) => {
@@ -79,32 +192,79 @@ function App() {
           onViewModeChange={handleViewModeChange}
           sortMode={sortMode}
           onSortModeChange={handleSortModeChange}
+          sortDirection={sortDirection}
+          onSortDirectionChange={handleSortDirectionChange}
           showAbout={showAbout}
           onShowAbout={handleShowAbout}
+          showSaved={showSaved}
+          onShowSaved={handleShowSaved}
+          savedUnreadCount={savedUnreadCount}
           showHiddenArticles={showHiddenArticles}
           onToggleHiddenArticles={handleToggleHiddenArticles}
           onClearHiddenArticles={handleClearHiddenArticles}
+          liveUpdates={liveUpdates}
+          onToggleLiveUpdates={handleToggleLiveUpdates}
+          infiniteScroll={infiniteScroll}
+          onToggleInfiniteScroll={handleToggleInfiniteScroll}
+          theme={theme}
+          onThemeChange={handleThemeChange}
+          display={display}
+          onDisplayChange={handleDisplayChange}
+          onImportPreferences={updatePreferences}
+          searchQuery={route.name === 'search' ? route.query : ''}
+          onSearch={handleSearch}
         />
       </ErrorBoundary>
+
+      <OfflineIndicator />
       
       <main id="main-content" className="main-content" tabIndex={-1}>
         <ErrorBoundary>
-          {showAbout ? (
-            <About />
-          ) : (
-            <StoryList
-              category={currentCategory}
+          {showAbout && <About />}
+          {showSaved && <ReadingList viewMode={viewMode} />}
+          {route.name === 'item' && (
+            <StoryDetail
+              storyId={route.id}
+              backHref={routeToHref({ name: 'category', category: listCategory ?? 'top' })}
+            />
+          )}
+          {route.name === 'search' && (
+            <SearchResults
+              options={{ query: route.query, sort: route.sort, type: route.type, range: route.range }}
               viewMode={viewMode}
-              sortMode={sortMode}
-              showHiddenArticles={showHiddenArticles}
+              onOptionsChange={handleSearchOptionsChange}
             />
           )}
+          {route.name === 'user' && (
+            <UserProfile userId={route.id} viewMode={viewMode} />
+          )}
+          {listCategory && (
+            <div className="list-page" hidden={!isListRoute}>
+              <FilterBar filters={filters} onFiltersChange={handleFiltersChange} />
+              <StoryList
+                category={listCategory}
+                viewMode={viewMode}
+                sortMode={sortMode}
+                sortDirection={sortDirection}
+                filters={filters}
+                showHiddenArticles={showHiddenArticles}
+                liveUpdates={liveUpdates}
+                infiniteScroll={infiniteScroll}
+                active={isListRoute}
+                onAnnounce={announce}
+              />
+            </div>
+          )}
         </ErrorBoundary>
       </main>
       
       <ErrorBoundary>
         <Footer />
       </ErrorBoundary>
+
+      <UndoHideToast />
+
+      {showShortcutHelp && <KeyboardShortcutsHelp onClose={() => setShowShortcutHelp(false)} />}
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import App from '../App';
+import { PREFERENCES_KEY, PREFERENCES_VERSION, DEFAULT_PREFERENCES } from '../hooks/usePreferences';
+import { saveStory, READING_LIST_KEY } from '../hooks/useReadingList';
 
 // Mock child components to focus on App integration logic
 vi.mock('../components/Header', () => ({
@@ -48,6 +50,24 @@ vi.mock('../components/StoryList', () => ({
   ),
 }));
 
+vi.mock('../components/StoryDetail', () => ({
+  StoryDetail: ({ storyId, backHref }: { storyId: number; backHref: string }) => (
+    <div data-testid="story-detail">
+      <span data-testid="story-detail-id">{storyId}</span>
+      <span data-testid="story-detail-back">{backHref}</span>
+    </div>
+  ),
+}));
+
+vi.mock('../components/SearchResults', () => ({
+  SearchResults: ({ options }: { options: { query: string; sort: string } }) => (
+    <div data-testid="search-results">
+      <span data-testid="search-query">{options.query}</span>
+      <span data-testid="search-sort">{options.sort}</span>
+    </div>
+  ),
+}));
+
 vi.mock('../components/Footer', () => ({
   Footer: () => <div data-testid="footer">Footer Content</div>,
 }));
@@ -414,4 +434,210 @@ describe('App Component', () => {
       expect(screen.getByRole('main')).toContainElement(screen.getByTestId('story-list'));
     });
   });
-});
\ No newline at end of file
+
+  describe('Keyboard shortcuts', () => {
+    const announcement = () => document.querySelector('.sr-only[aria-live]')!.textContent;
+
+    it('opens the shortcut help with ? and restores focus when it closes', () => {
+      render(<App />);
+      const categoryButton = screen.getByTestId('category-button');
+      categoryButton.focus();
+
+      fireEvent.keyDown(document.body, { key: '?' });
+
+      const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' });
+      expect(dialog).toHaveAttribute('aria-modal', 'true');
+      expect(dialog).toHaveTextContent('Next story');
+      expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+
+      fireEvent.keyDown(dialog, { key: 'Escape' });
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      expect(categoryButton).toHaveFocus();
+    });
+
+    it('ignores shortcuts typed into inputs', () => {
+      render(<App />);
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+
+      fireEvent.keyDown(input, { key: '?' });
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      input.remove();
+    });
+
+    it('ignores shortcuts while focus is inside a menu or dialog', () => {
+      render(<App />);
+      ['menu', 'dialog'].forEach(role => {
+        const panel = document.createElement('div');
+        panel.setAttribute('role', role);
+        const button = document.createElement('button');
+        panel.appendChild(button);
+        document.body.appendChild(panel);
+        button.focus();
+
+        fireEvent.keyDown(button, { key: '?' });
+
+        expect(screen.queryByRole('dialog', { name: 'Keyboard shortcuts' })).not.toBeInTheDocument();
+        panel.remove();
+      });
+    });
+
+    it('moves between top-level comments with n and p', () => {
+      render(<App />);
+      const section = document.createElement('div');
+      section.className = 'comments-section';
+      section.innerHTML = ['alice', 'bob'].map(author => `
+        <div class="comment level-0" tabindex="-1"><a class="comment-author">${author}</a></div>
+        <div class="comment level-1" tabindex="-1"><a class="comment-author">reply-to-${author}</a></div>
+      `).join('');
+      document.body.appendChild(section);
+      const [alice, aliceReply, bob] = Array.from(section.querySelectorAll<HTMLElement>('.comment'));
+
+      fireEvent.keyDown(document.body, { key: 'n' });
+      expect(alice).toHaveFocus();
+      expect(announcement()).toBe('Comment by alice');
+
+      aliceReply.focus();
+      fireEvent.keyDown(document.body, { key: 'n' });
+      expect(bob).toHaveFocus();
+
+      fireEvent.keyDown(document.body, { key: 'n' });
+      expect(bob).toHaveFocus();
+      expect(announcement()).toBe('No more comments');
+
+      fireEvent.keyDown(document.body, { key: 'p' });
+      expect(alice).toHaveFocus();
+
+      section.remove();
+    });
+  });
+
+  describe('Routing', () => {
+    it('initializes the category from the URL hash', () => {
+      window.location.hash = '#/best';
+
+      render(<App />);
+
+      expect(screen.getByTestId('current-category')).toHaveTextContent('best');
+      expect(screen.getByTestId('story-list-category')).toHaveTextContent('best');
+    });
+
+    it('updates the URL hash when the category changes', () => {
+      render(<App />);
+
+      fireEvent.click(screen.getByTestId('category-button'));
+
+      expect(window.location.hash).toBe('#/new');
+    });
+
+    it('renders the story detail view for item routes without mounting the list', () => {
+      window.location.hash = '#/item/8863';
+
+      render(<App />);
+
+      expect(screen.getByTestId('story-detail-id')).toHaveTextContent('8863');
+      expect(screen.getByTestId('story-detail-back')).toHaveTextContent('#/');
+      expect(screen.queryByTestId('story-list')).not.toBeInTheDocument();
+    });
+
+    it('keeps the list mounted but hidden while a story is open', () => {
+      window.location.hash = '#/new';
+      render(<App />);
+
+      act(() => {
+        window.location.hash = '#/item/1';
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+      });
+
+      expect(screen.getByTestId('story-detail')).toBeInTheDocument();
+      expect(screen.getByTestId('story-list').parentElement).not.toBeVisible();
+      expect(screen.getByTestId('story-detail-back')).toHaveTextContent('#/new');
+    });
+  });
+
+  describe('Reading list', () => {
+    it('renders saved stories for the saved route', () => {
+      saveStory({ id: 5, type: 'story', by: 'pg', time: 1640995200, title: 'Saved for later' });
+      window.location.hash = '#/saved';
+
+      render(<App />);
+
+      expect(screen.getByRole('heading', { name: 'Saved stories' })).toBeInTheDocument();
+      expect(screen.getByText(/Saved for later/)).toBeInTheDocument();
+      expect(screen.queryByTestId('story-list')).not.toBeInTheDocument();
+    });
+
+    it('marks a saved story read when its discussion is opened', () => {
+      saveStory({ id: 5, type: 'story', by: 'pg', time: 1640995200, title: 'Saved for later' });
+      window.location.hash = '#/item/5';
+
+      render(<App />);
+
+      expect(JSON.parse(localStorage.getItem(READING_LIST_KEY) || '[]')[0].read).toBe(true);
+    });
+  });
+
+  describe('Search', () => {
+    it('renders search results for search routes', () => {
+      window.location.hash = '#/search?q=sqlite&sort=date';
+
+      render(<App />);
+
+      expect(screen.getByTestId('search-query')).toHaveTextContent('sqlite');
+      expect(screen.getByTestId('search-sort')).toHaveTextContent('date');
+      expect(screen.queryByTestId('story-list')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Preferences', () => {
+    const storePreferences = (preferences: Partial<typeof DEFAULT_PREFERENCES>) => {
+      localStorage.setItem(PREFERENCES_KEY, JSON.stringify({
+        version: PREFERENCES_VERSION,
+        preferences: { ...DEFAULT_PREFERENCES, ...preferences },
+      }));
+    };
+
+    it('restores view and sort mode from stored preferences', () => {
+      storePreferences({ viewMode: 'title', sortMode: 'comments' });
+
+      render(<App />);
+
+      expect(screen.getByTestId('story-list-view-mode')).toHaveTextContent('title');
+      expect(screen.getByTestId('story-list-sort-mode')).toHaveTextContent('comments');
+    });
+
+    it('persists view mode, sort mode and category changes', () => {
+      render(<App />);
+
+      fireEvent.click(screen.getByTestId('view-mode-button'));
+      fireEvent.click(screen.getByTestId('sort-mode-button'));
+      fireEvent.click(screen.getByTestId('category-button'));
+
+      const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}');
+      expect(stored.preferences).toMatchObject({
+        viewMode: 'compact',
+        sortMode: 'comments',
+        category: 'new',
+      });
+    });
+
+    it('opens the last category when visited without a hash', () => {
+      storePreferences({ category: 'ask' });
+
+      render(<App />);
+
+      expect(screen.getByTestId('current-category')).toHaveTextContent('ask');
+    });
+
+    it('lets an explicit hash win over the stored category', () => {
+      storePreferences({ category: 'ask' });
+      window.location.hash = '#/';
+
+      render(<App />);
+
+      expect(screen.getByTestId('current-category')).toHaveTextContent('top');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import App from '../App';
+import { searchApi } from '../services/searchApi';
+
+vi.mock('../services/searchApi', () => ({
+  searchApi: {
+    search: vi.fn(),
+  },
+}));
+
+vi.mock('../components/Footer', () => ({
+  Footer: () => <div data-testid="footer">Footer Component</div>
+}));
+
+const mockSearch = vi.mocked(searchApi.search);
+
+describe('Search Integration Tests', () => {
+  it('keeps options chosen on the results page when refining the query', async () => {
+    mockSearch.mockResolvedValue({ items: [], storyTitles: new Map(), page: 0, nbPages: 0, nbHits: 0, hitsPerPage: 20 });
+    window.location.hash = '#/search?q=sqlite';
+
+    render(<App />);
+
+    fireEvent.change(await screen.findByLabelText('Search in'), { target: { value: 'comment' } });
+    expect(await screen.findByDisplayValue('Comments')).toBeInTheDocument();
+
+    const input = screen.getByLabelText('Search stories and comments');
+    fireEvent.change(input, { target: { value: 'postgres' } });
+    fireEvent.submit(input.closest('form')!);
+
+    expect(await screen.findByText('postgres')).toBeInTheDocument();
+    expect(window.location.hash).toBe('#/search?q=postgres&type=comment');
+    expect(mockSearch).toHaveBeenLastCalledWith(expect.objectContaining({ query: 'postgres', tags: ['comment'] }));
+  });
+});
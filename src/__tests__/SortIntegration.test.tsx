@@ -27,12 +27,18 @@ vi.mock('../hooks/useStoryData', () => ({
         descendants: 5
       }
     ],
+    storyIds: [1, 2],
+    applyItemUpdates: vi.fn(),
+    refreshStories: vi.fn(),
     loading: false,
     error: null,
     loadStories: vi.fn(),
     loadMoreStories: vi.fn(),
+    prefetchNextPage: vi.fn(),
     loadingMore: false,
+    loadMoreError: null,
     hasMoreStories: false,
+    storiesCount: 2,
     totalCount: 2
   })
 }));
@@ -44,16 +50,25 @@ vi.mock('../hooks/useStoryListState', () => ({
   })
 }));
 
-vi.mock('../hooks/useHiddenArticles', () => ({
-  useHiddenArticles: () => ({
-    hideArticle: vi.fn(),
-    showArticle: vi.fn(),
-    isArticleHidden: () => false,
-    clearAllHidden: vi.fn()
-  })
-}));
-
-vi.mock('../hooks/useKeyboardNavigation', () => ({
+vi.mock('../hooks/useHiddenArticles', async (importOriginal) => {
+  const noneHidden = new Set<number>();
+  return {
+    ...await importOriginal<typeof import('../hooks/useHiddenArticles')>(),
+    useHiddenArticles: () => ({
+      hiddenArticles: noneHidden,
+      recentlyHidden: null,
+      hideArticle: vi.fn(),
+      showArticle: vi.fn(),
+      isArticleHidden: () => false,
+      clearAllHidden: vi.fn(),
+      undoHide: vi.fn(),
+      dismissUndoHide: vi.fn()
+    })
+  };
+});
+
+vi.mock('../hooks/useKeyboardNavigation', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../hooks/useKeyboardNavigation')>(),
   useSkipLinks: () => ({
     skipToContent: vi.fn(),
     skipToNavigation: vi.fn()
@@ -1,35 +1,88 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { hackerNewsApi } from '../services/hackerNewsApi';
-import type { CommentWithLevel } from './commentsUtils';
-import { commentsCache } from './commentsUtils';
+import { commentsCache, hasCommentText } from './commentsUtils';
 import { sanitizeHtml } from '../utils/dompurify';
+import { routeToHref } from '../hooks/useRoute';
+import { useMuteRules } from '../hooks/useMuteRules';
+import { describeMuteRule } from '../utils/muteRules';
+import { getStoryVisit, recordVisit, newCommentMatcher } from '../hooks/useVisitedStories';
+import { useCommentOptions, COMMENT_SORTS, COMMENT_DEPTHS } from '../hooks/useCommentOptions';
+import type { CommentSort, CommentLayout, CommentDepth } from '../types/ui';
+import {
+  type CommentTree,
+  EMPTY_COMMENT_TREE,
+  fetchCommentTree,
+  insertReplies,
+  flattenCommentTree,
+  getVisibleComments,
+  countDescendants,
+  getSiblingIds,
+  getUnloadedParents,
+  sortCommentTree,
+  getFlatComments,
+} from '../utils/commentTree';
 
 interface CommentsProps {
   storyId: number;
+  // Reply depth fetched up front; deeper replies load on demand (Infinity = full thread).
+  // Defaults to the reader's initial depth option.
+  maxDepth?: number;
+  // Comment count shown on the story, remembered for "+N new comments"
+  descendants?: number;
 }
 
-export const Comments = React.memo<CommentsProps>(({ storyId }) => {
-  const [comments, setComments] = useState<CommentWithLevel[]>(() => {
+const SORT_LABELS: Record<CommentSort, string> = {
+  default: 'Default',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  replies: 'Most replies',
+};
+
+const DEPTH_LABELS: Record<string, string> = {
+  0: 'Top-level only',
+  1: '1 level',
+  2: '2 levels',
+  3: '3 levels',
+  all: 'Full thread',
+};
+
+export const Comments = React.memo<CommentsProps>(({ storyId, maxDepth, descendants }) => {
+  const { options, updateOptions } = useCommentOptions();
+  const fetchDepth = maxDepth ?? (options.initialDepth === 'all' ? Infinity : options.initialDepth);
+  // The shared cache only holds top-level-only trees
+  const useCache = fetchDepth === 0;
+  const [tree, setTree] = useState<CommentTree>(() => {
     // Check cache on initial render
-    return commentsCache.get(storyId) || [];
+    return (useCache && commentsCache.get(storyId)) || EMPTY_COMMENT_TREE;
   });
-  const [loading, setLoading] = useState(() => !commentsCache.has(storyId));
+  const [loading, setLoading] = useState(() => !useCache || !commentsCache.has(storyId));
   const [error, setError] = useState<string | null>(null);
   const [collapsedThreads, setCollapsedThreads] = useState<Set<number>>(new Set());
-  const [loadedReplies, setLoadedReplies] = useState<Set<number>>(new Set()); // Track which comments have loaded replies
   const [loadingReplies, setLoadingReplies] = useState<Set<number>>(new Set()); // Track which comments are currently loading replies
+  const [revealedMuted, setRevealedMuted] = useState<Set<number>>(new Set());
+  // Items fetched so far while loading the full thread; null when idle
+  const [threadProgress, setThreadProgress] = useState<number | null>(null);
+  const [threadError, setThreadError] = useState<string | null>(null);
+  const { findCommentMatch, recordSuppressed } = useMuteRules();
+  // Captured before this view records a visit, so highlights stay put while reading
+  const [previousVisit] = useState(() => getStoryVisit(storyId));
+  const isNewComment = useMemo(() => newCommentMatcher(previousVisit), [previousVisit]);
+  const sectionRef = useRef<HTMLDivElement>(null);
+  const newCommentCursor = useRef(-1);
 
   // Use refs to avoid stale closures
-  const commentsRef = useRef(comments);
-  const loadedRepliesRef = useRef(loadedReplies);
+  const treeRef = useRef(tree);
   const loadingRepliesRef = useRef(loadingReplies);
 
   // Update refs on every render
-  commentsRef.current = comments;
-  loadedRepliesRef.current = loadedReplies;
+  treeRef.current = tree;
   loadingRepliesRef.current = loadingReplies;
 
+  const sortedTree = useMemo(() => sortCommentTree(tree, options.sort), [tree, options.sort]);
+  const allComments = useMemo(() => flattenCommentTree(tree).map(node => node.comment), [tree]);
+  const descendantCounts = useMemo(() => countDescendants(tree), [tree]);
+
   const toggleThread = useCallback((commentId: number) => {
     setCollapsedThreads(prev => {
       const next = new Set(prev);
@@ -42,69 +95,35 @@ export const Comments = React.memo<CommentsProps>(({ storyId }) => {
     });
   }, []);
 
-  const buildCommentTree = useCallback(async (
-    commentIds: number[],
-    level: number,
-    maxDepth: number = Infinity
-  ): Promise<CommentWithLevel[]> => {
-    const fetchPromises = commentIds.map(async (id) => {
-      const comment = await hackerNewsApi.getItem(id);
-      if (comment && !comment.deleted && !comment.dead && comment.text) {
-        const hasReplies = comment.kids && comment.kids.length > 0;
-        const shouldLoadReplies = hasReplies && level < maxDepth;
-
-        const commentWithLevel: CommentWithLevel = {
-          ...comment,
-          level,
-          hasUnloadedReplies: hasReplies && !shouldLoadReplies,
-          replyCount: hasReplies ? comment.kids!.length : undefined
-        };
-
-        const result: CommentWithLevel[] = [commentWithLevel];
-
-        if (shouldLoadReplies) {
-          const childComments = await buildCommentTree(comment.kids!, level + 1, maxDepth);
-          result.push(...childComments);
-        }
-
-        return result;
-      }
-      return [];
-    });
+  const collapseSiblings = useCallback((commentId: number) => {
+    setCollapsedThreads(prev => new Set([...prev, ...getSiblingIds(treeRef.current, commentId)]));
+  }, []);
 
-    const results = await Promise.all(fetchPromises);
-    return results.flat();
+  // Flat lists have no threads to fold, so every comment collapses
+  const collapseAll = useCallback(() => {
+    const current = treeRef.current;
+    setCollapsedThreads(new Set(options.layout === 'flat' ? current.nodes.keys() : current.rootIds));
+  }, [options.layout]);
+
+  const expandAll = useCallback(() => {
+    setCollapsedThreads(new Set());
   }, []);
 
   const loadRepliesForComment = useCallback(async (commentId: number) => {
-    if (loadedRepliesRef.current.has(commentId)) return;
     if (loadingRepliesRef.current.has(commentId)) return;
 
+    const node = treeRef.current.nodes.get(commentId);
+    if (!node || !node.hasUnloadedReplies || !node.comment.kids) return;
+
     setLoadingReplies(prev => new Set(prev).add(commentId));
 
     try {
-      const commentIndex = commentsRef.current.findIndex(c => c.id === commentId);
-      if (commentIndex === -1) return;
-
-      const comment = commentsRef.current[commentIndex];
-      if (!comment.kids || comment.kids.length === 0) return;
-
-      const replies = await buildCommentTree(comment.kids, comment.level + 1);
-
-      setComments(prev => {
-        const newComments = [...prev];
-        const idx = newComments.findIndex(c => c.id === commentId);
-        if (idx === -1) return prev;
-
-        newComments[idx] = {
-          ...newComments[idx],
-          hasUnloadedReplies: false
-        };
-        newComments.splice(idx + 1, 0, ...replies);
-        return newComments;
+      const replies = await fetchCommentTree(node.comment.kids, id => hackerNewsApi.getItem(id), {
+        depth: node.depth + 1,
+        parentId: commentId,
+        include: hasCommentText,
       });
-
-      setLoadedReplies(prev => new Set(prev).add(commentId));
+      setTree(prev => insertReplies(prev, commentId, replies));
     } catch (err) {
       console.error(`Failed to load replies for comment ${commentId}:`, err);
     } finally {
@@ -114,12 +133,41 @@ export const Comments = React.memo<CommentsProps>(({ storyId }) => {
         return next;
       });
     }
-  }, [buildCommentTree]);
+  }, []);
+
+  const loadFullThread = useCallback(async () => {
+    const parents = getUnloadedParents(treeRef.current);
+    if (parents.length === 0) return;
+
+    setThreadProgress(0);
+    setThreadError(null);
+    const countFetched = () => setThreadProgress(count => (count ?? 0) + 1);
+
+    try {
+      const replies = await Promise.all(parents.map(node =>
+        fetchCommentTree(node.comment.kids!, id => hackerNewsApi.getItem(id), {
+          depth: node.depth + 1,
+          parentId: node.comment.id,
+          include: hasCommentText,
+          onFetched: countFetched,
+        })
+      ));
+      setTree(prev => replies.reduce(
+        (next, fragment, index) => insertReplies(next, parents[index].comment.id, fragment),
+        prev
+      ));
+    } catch (err) {
+      setThreadError('Some replies could not be loaded.');
+      console.error(`Failed to load the full thread for story ${storyId}:`, err);
+    } finally {
+      setThreadProgress(null);
+    }
+  }, [storyId]);
 
   const loadComments = useCallback(async () => {
-    if (commentsCache.has(storyId)) {
+    if (useCache && commentsCache.has(storyId)) {
       const cached = commentsCache.get(storyId)!;
-      setComments(cached);
+      setTree(cached);
       setLoading(false);
       return;
     }
@@ -130,33 +178,46 @@ export const Comments = React.memo<CommentsProps>(({ storyId }) => {
 
       const story = await hackerNewsApi.getItem(storyId);
       if (!story || !story.kids || story.kids.length === 0) {
-        setComments([]);
-        commentsCache.set(storyId, []);
+        setTree(EMPTY_COMMENT_TREE);
+        if (useCache) commentsCache.set(storyId, EMPTY_COMMENT_TREE);
         setLoading(false);
         return;
       }
 
-      const commentsData = await buildCommentTree(story.kids, 0, 0);
-      if (commentsData.length === 0) {
-        setComments([]);
-        commentsCache.set(storyId, []);
-        setLoading(false);
-        return;
-      }
-      setComments(commentsData);
-      commentsCache.set(storyId, commentsData);
+      const commentTree = await fetchCommentTree(story.kids, id => hackerNewsApi.getItem(id), {
+        maxDepth: fetchDepth,
+        include: hasCommentText,
+      });
+      setTree(commentTree);
+      if (useCache) commentsCache.set(storyId, commentTree);
     } catch (err) {
       setError('Failed to load comments. Please try again later.');
       console.error('Error loading comments:', err);
     } finally {
       setLoading(false);
     }
-  }, [storyId, buildCommentTree]);
+  }, [storyId, fetchDepth, useCache]);
 
   useEffect(() => {
     loadComments();
   }, [loadComments]);
 
+  useEffect(() => {
+    allComments.forEach(comment => {
+      const rule = findCommentMatch(comment);
+      if (rule) recordSuppressed(rule.id, comment.id);
+    });
+  }, [allComments, findCommentMatch, recordSuppressed]);
+
+  useEffect(() => {
+    if (loading || error) return;
+    recordVisit(storyId, descendants, allComments.map(comment => comment.id));
+  }, [storyId, descendants, allComments, loading, error]);
+
+  const revealMuted = useCallback((commentId: number) => {
+    setRevealedMuted(prev => new Set(prev).add(commentId));
+  }, []);
+
   const formatTimeAgo = (timestamp: number): string => {
     return formatDistanceToNow(new Date(timestamp * 1000), { addSuffix: true });
   };
@@ -186,7 +247,7 @@ export const Comments = React.memo<CommentsProps>(({ storyId }) => {
     );
   }
 
-  if (comments.length === 0) {
+  if (tree.rootIds.length === 0) {
     return (
       <div className="comments-section">
         <p>No comments available.</p>
@@ -194,83 +255,202 @@ export const Comments = React.memo<CommentsProps>(({ storyId }) => {
     );
   }
 
-  // Filter comments to hide collapsed threads
-  // Optimized O(N) approach using a single forward pass
-  const visibleComments: (typeof comments[0] & { hasChildren: boolean })[] = [];
-  let currentCollapsedLevel: number | null = null;
-
-  for (let i = 0; i < comments.length; i++) {
-    const comment = comments[i];
-
-    // Check if we're currently inside a collapsed thread
-    if (currentCollapsedLevel !== null) {
-      if (comment.level <= currentCollapsedLevel) {
-        // We've popped out of the collapsed thread's descendants
-        currentCollapsedLevel = null;
-      } else {
-        // This is a descendant of a collapsed thread, skip it
-        continue;
-      }
-    }
-
-    // Determine if this comment has children in O(1) time
-    // A comment has children if the next comment in the array is at a deeper level
-    const hasChildren = i < comments.length - 1 && comments[i + 1].level > comment.level;
-
-    visibleComments.push({ ...comment, hasChildren });
-
-    // If this visible comment is collapsed, track its level
-    if (collapsedThreads.has(comment.id)) {
-      currentCollapsedLevel = comment.level;
-    }
-  }
+  const isFlat = options.layout === 'flat';
+  const visibleComments = isFlat
+    ? getFlatComments(tree, collapsedThreads, options.sort === 'newest')
+    : getVisibleComments(sortedTree, collapsedThreads);
+  const newComments = visibleComments.filter(({ node }) => isNewComment(node.comment));
+  const hasThreads = isFlat || tree.rootIds.some(id => tree.nodes.get(id)!.childIds.length > 0);
+  const hasUnloadedReplies = getUnloadedParents(tree).length > 0;
+
+  const jumpToNextNewComment = () => {
+    newCommentCursor.current = (newCommentCursor.current + 1) % newComments.length;
+    const target = newComments[newCommentCursor.current].node.comment;
+    const element = sectionRef.current?.querySelector<HTMLElement>(`[data-comment-id="${target.id}"]`);
+    element?.scrollIntoView?.({ block: 'center' });
+    element?.focus();
+  };
 
   return (
-    <div className="comments-section">
-      {visibleComments.map((comment) => {
-        const isCollapsed = collapsedThreads.has(comment.id);
-        const hasChildren = comment.hasChildren;
+    <div className="comments-section" ref={sectionRef}>
+      <div className="comment-options">
+        <label>
+          Sort
+          <select
+            value={options.sort}
+            onChange={(e) => updateOptions({ sort: e.target.value as CommentSort })}
+          >
+            {COMMENT_SORTS.map(sort => <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>)}
+          </select>
+        </label>
+        <label>
+          Layout
+          <select
+            value={options.layout}
+            onChange={(e) => updateOptions({ layout: e.target.value as CommentLayout })}
+          >
+            <option value="threaded">Threaded</option>
+            <option value="flat">Flat (chronological)</option>
+          </select>
+        </label>
+        {/* Callers that fix the depth make this setting meaningless here */}
+        {maxDepth === undefined && (
+          <label>
+            Initial replies
+            <select
+              value={String(options.initialDepth)}
+              onChange={(e) => updateOptions({
+                initialDepth: e.target.value === 'all' ? 'all' : Number(e.target.value) as CommentDepth
+              })}
+            >
+              {COMMENT_DEPTHS.map(depth => (
+                <option key={depth} value={String(depth)}>{DEPTH_LABELS[depth]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      {hasUnloadedReplies && (
+        <div className="load-thread">
+          <button
+            className="load-thread-button"
+            onClick={loadFullThread}
+            disabled={threadProgress !== null}
+            type="button"
+          >
+            Load full thread
+          </button>
+          {threadProgress !== null && (
+            <span className="load-thread-progress" role="status">
+              Loading replies… {threadProgress} fetched
+              {descendants ? ` (${allComments.length + threadProgress} of ${descendants})` : ''}
+            </span>
+          )}
+          {threadError && <span className="load-thread-error" role="alert">{threadError}</span>}
+        </div>
+      )}
+      {hasThreads && (
+        <div className="comments-toolbar">
+          <button className="comments-toolbar-button" onClick={collapseAll} type="button">
+            Collapse all
+          </button>
+          <button
+            className="comments-toolbar-button"
+            onClick={expandAll}
+            type="button"
+            disabled={collapsedThreads.size === 0}
+          >
+            Expand all
+          </button>
+        </div>
+      )}
+      {newComments.length > 0 && (
+        <div className="new-comments-bar">
+          <span>
+            {newComments.length} new comment{newComments.length !== 1 ? 's' : ''} since your last visit
+          </span>
+          <button className="new-comments-jump" onClick={jumpToNextNewComment} type="button">
+            Jump to next new comment
+          </button>
+        </div>
+      )}
+      {visibleComments.map(({ node, collapsed: isCollapsed }) => {
+        const { comment } = node;
+        // Flat lists show every comment at the top level
+        const depth = isFlat ? 0 : node.depth;
+        const parentAuthor = isFlat && node.parentId !== null ? tree.nodes.get(node.parentId)?.comment.by : undefined;
+        const replyCount = comment.kids?.length ?? 0;
+        const descendantCount = descendantCounts.get(comment.id) ?? 0;
+        const siblingCount = node.parentId === null
+          ? tree.rootIds.length
+          : tree.nodes.get(node.parentId)?.childIds.length ?? 0;
         const isLoadingReplies = loadingReplies.has(comment.id);
+        // Muted comments keep their replies; only the body is held back
+        const muteRule = revealedMuted.has(comment.id) ? null : findCommentMatch(comment);
+        const isNew = isNewComment(comment);
 
         return (
           <div
             key={comment.id}
-            className={`comment level-${Math.min(comment.level, 4)}`}
+            className={`comment level-${Math.min(depth, 4)}${isNew ? ' comment-new' : ''}${isCollapsed ? ' comment-collapsed' : ''}`}
+            // Indent follows the full depth; the level class only picks the border color
+            style={{ '--depth': depth } as React.CSSProperties}
+            data-comment-id={comment.id}
+            tabIndex={-1}
           >
             <div className="comment-header">
-              <span className="comment-author">{comment.by}</span>
+              {comment.by && (
+                <a className="comment-author" href={routeToHref({ name: 'user', id: comment.by })}>
+                  {comment.by}
+                </a>
+              )}
               {' • '}
               <span>{formatTimeAgo(comment.time)}</span>
-              {comment.level > 0 && (
+              {isNew && <span className="comment-new-label">new</span>}
+              {depth > 0 && (
+                <>
+                  {' • '}
+                  <span>Reply level {depth + 1}</span>
+                </>
+              )}
+              {parentAuthor && (
+                <>
+                  {' • '}
+                  <span className="comment-reply-to">reply to {parentAuthor}</span>
+                </>
+              )}
+              {descendantCount > 0 && (
                 <>
                   {' • '}
-                  <span>Reply level {comment.level + 1}</span>
+                  <span className="comment-descendants">
+                    {descendantCount} {descendantCount === 1 ? 'reply' : 'replies'}
+                  </span>
                 </>
               )}
-              {hasChildren && (
+              <button
+                className="collapse-button"
+                onClick={() => toggleThread(comment.id)}
+                aria-label={isCollapsed ? 'Expand thread' : 'Collapse thread'}
+                aria-expanded={!isCollapsed}
+              >
+                {isCollapsed ? '[+]' : '[\u2212]'}
+              </button>
+              {!isFlat && siblingCount > 1 && (
                 <button
-                  className="collapse-button"
-                  onClick={() => toggleThread(comment.id)}
-                  aria-label={isCollapsed ? 'Expand thread' : 'Collapse thread'}
+                  className="collapse-siblings-button"
+                  onClick={() => collapseSiblings(comment.id)}
+                  type="button"
                 >
-                  {isCollapsed ? '[+]' : '[\u2212]'}
+                  collapse siblings
                 </button>
               )}
-              {comment.hasUnloadedReplies && !isCollapsed && (
+              {node.hasUnloadedReplies && !isCollapsed && (
                 <button
                   className="load-replies-button"
                   onClick={() => loadRepliesForComment(comment.id)}
                   disabled={isLoadingReplies}
-                  aria-label={`Load ${comment.replyCount} replies`}
+                  aria-label={`Load ${replyCount} replies`}
                 >
                   {isLoadingReplies
                     ? 'Loading...'
-                    : `Load ${comment.replyCount} ${comment.replyCount === 1 ? 'reply' : 'replies'}`
+                    : `Load ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`
                   }
                 </button>
               )}
             </div>
-            {!isCollapsed && (
+            {!isCollapsed && muteRule && (
+              <div className="comment-muted">
+                Muted by {describeMuteRule(muteRule)}{' '}
+                <button
+                  className="comment-muted-reveal"
+                  onClick={() => revealMuted(comment.id)}
+                  type="button"
+                >
+                  Show comment
+                </button>
+              </div>
+            )}
+            {!isCollapsed && !muteRule && (
               <div
                 className="comment-text"
                 dangerouslySetInnerHTML={{
@@ -284,5 +464,7 @@ export const Comments = React.memo<CommentsProps>(({ storyId }) => {
     </div>
   );
 }, (prevProps, nextProps) => {
-  return prevProps.storyId === nextProps.storyId;
+  return prevProps.storyId === nextProps.storyId &&
+         prevProps.maxDepth === nextProps.maxDepth &&
+         prevProps.descendants === nextProps.descendants;
 });
\ No newline at end of file
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import type { ImportMode, ImportResult } from '../types/ui';
+import type { Preferences } from '../hooks/usePreferences';
+import { useFocusTrap } from '../hooks/useKeyboardNavigation';
+import {
+  createBackup,
+  backupFileName,
+  parseBackup,
+  applyBackup,
+  type BackupReport,
+} from '../services/localBackup';
+
+interface DataPanelProps {
+  onImportPreferences: (preferences: Preferences) => void;
+  onClose: () => void;
+}
+
+const describeResult = (label: string, result: ImportResult) =>
+  `${label}: ${result.imported} added` +
+  (result.skipped > 0 ? `, ${result.skipped} invalid skipped` : '');
+
+const describeReport = (report: BackupReport): string[] => {
+  const lines: string[] = [];
+  if (report.preferences) lines.push('Preferences restored');
+  if (report.commentOptions) lines.push('Comment options restored');
+  if (report.hiddenArticles) lines.push(describeResult('Hidden articles', report.hiddenArticles));
+  if (report.muteRules) lines.push(describeResult('Mute rules', report.muteRules));
+  if (report.readingList) lines.push(describeResult('Saved stories', report.readingList));
+  return lines.length > 0 ? lines : ['The backup was empty; nothing changed.'];
+};
+
+// Some browsers start the download after click() returns, so the URL has to outlive it
+const REVOKE_DELAY_MS = 1000;
+
+const downloadBackup = () => {
+  const blob = new Blob([JSON.stringify(createBackup(), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = backupFileName();
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+export const DataPanel = React.memo<DataPanelProps>(({ onImportPreferences, onClose }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [report, setReport] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const trapRef = useFocusTrap(true);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    setReport(null);
+    setError(null);
+    try {
+      const result = parseBackup(await file.text());
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+      const applied = applyBackup(result.backup, mode);
+      if (applied.preferences) {
+        onImportPreferences(applied.preferences);
+      }
+      setReport(describeReport(applied));
+    } catch (err) {
+      console.error('Failed to import backup:', err);
+      setError('The backup could not be read.');
+    } finally {
+      // Allow picking the same file again
+      input.value = '';
+    }
+  };
+
+  return (
+    <div
+      className="data-panel"
+      role="dialog"
+      ref={(element) => {
+        trapRef.current = element;
+      }}
+      aria-label="Backup and restore"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="data-panel-header">
+        <h2>Backup &amp; restore</h2>
+        <button type="button" className="data-panel-close" onClick={onClose} aria-label="Close backup and restore">
+          ×
+        </button>
+      </div>
+      <p className="data-panel-help">
+        Hidden articles, saved stories, mute rules and preferences are stored in this browser only.
+      </p>
+
+      <button type="button" className="data-panel-export" onClick={downloadBackup}>
+        Export backup
+      </button>
+
+      <fieldset className="data-panel-mode">
+        <legend>When importing</legend>
+        <label>
+          <input
+            type="radio"
+            name="import-mode"
+            value="merge"
+            checked={mode === 'merge'}
+            onChange={() => setMode('merge')}
+          />
+          Merge with current data
+        </label>
+        <label>
+          <input
+            type="radio"
+            name="import-mode"
+            value="replace"
+            checked={mode === 'replace'}
+            onChange={() => setMode('replace')}
+          />
+          Replace current data
+        </label>
+      </fieldset>
+
+      <label className="data-panel-import">
+        Import backup
+        <input type="file" accept="application/json,.json" onChange={handleFile} />
+      </label>
+
+      {error && <div className="data-panel-error" role="alert">{error}</div>}
+      {report && (
+        <div className="data-panel-report" role="status">
+          <p>Import complete.</p>
+          <ul>
+            {report.map(line => <li key={line}>{line}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { DisplaySettings } from '../types/ui';
+import { useFocusTrap } from '../hooks/useKeyboardNavigation';
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  FONT_SIZES,
+  LINE_HEIGHTS,
+  CONTENT_WIDTHS,
+  COMMENT_INDENTS,
+} from '../hooks/useDisplaySettings';
+
+interface DisplaySettingsPanelProps {
+  display: DisplaySettings;
+  onDisplayChange: (changes: Partial<DisplaySettings>) => void;
+  onClose: () => void;
+}
+
+interface SettingField {
+  key: keyof DisplaySettings;
+  label: string;
+  values: readonly number[];
+  format: (value: number) => string;
+}
+
+const LINE_HEIGHT_NAMES: Record<number, string> = {
+  0.9: 'Tight',
+  1: 'Normal',
+  1.2: 'Relaxed',
+  1.4: 'Loose',
+};
+
+const SETTING_FIELDS: SettingField[] = [
+  { key: 'fontSize', label: 'Font size', values: FONT_SIZES, format: value => `${value}%` },
+  { key: 'lineHeight', label: 'Line spacing', values: LINE_HEIGHTS, format: value => LINE_HEIGHT_NAMES[value] },
+  { key: 'contentWidth', label: 'Content width', values: CONTENT_WIDTHS, format: value => `${value}px` },
+  { key: 'commentIndent', label: 'Reply indent', values: COMMENT_INDENTS, format: value => `${value}px` },
+];
+
+export const DisplaySettingsPanel = React.memo<DisplaySettingsPanelProps>(({ display, onDisplayChange, onClose }) => {
+  const trapRef = useFocusTrap(true);
+
+  return (
+    <div
+      className="data-panel display-settings-panel"
+      role="dialog"
+      ref={(element) => {
+        trapRef.current = element;
+      }}
+      aria-label="Display settings"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="data-panel-header">
+        <h2>Display settings</h2>
+        <button type="button" className="data-panel-close" onClick={onClose} aria-label="Close display settings">
+          ×
+        </button>
+      </div>
+      <p className="data-panel-help">
+        Applies to every view mode and to comments.
+      </p>
+
+      {SETTING_FIELDS.map(({ key, label, values, format }) => (
+        <label key={key} className="display-setting">
+          {label}
+          <select
+            value={display[key]}
+            onChange={(e) => onDisplayChange({ [key]: Number(e.target.value) })}
+          >
+            {values.map(value => (
+              <option key={value} value={value}>
+                {format(value)}{value === DEFAULT_DISPLAY_SETTINGS[key] ? ' (default)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+
+      <button
+        type="button"
+        className="data-panel-export"
+        onClick={() => onDisplayChange(DEFAULT_DISPLAY_SETTINGS)}
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}, (prevProps, nextProps) => {
+  return prevProps.display === nextProps.display &&
+         prevProps.onDisplayChange === nextProps.onDisplayChange &&
+         prevProps.onClose === nextProps.onClose;
+});
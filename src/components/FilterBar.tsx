@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import type { StoryFilters, PostTypeFilter } from '../types/ui';
+import { DEFAULT_FILTERS, countActiveFilters, parseDomainList } from '../utils/storyFilters';
+
+interface FilterBarProps {
+  filters: StoryFilters;
+  onFiltersChange: (filters: StoryFilters) => void;
+}
+
+const AGE_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: 'Any age' },
+  { hours: 1, label: 'Last hour' },
+  { hours: 6, label: 'Last 6 hours' },
+  { hours: 24, label: 'Last 24 hours' },
+  { hours: 48, label: 'Last 2 days' },
+  { hours: 168, label: 'Last week' }
+];
+
+const toCount = (value: string) => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+export const FilterBar = React.memo<FilterBarProps>(({ filters, onFiltersChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  // Domain lists are edited as free text and parsed on every change, so keep
+  // the raw input around to avoid eating trailing commas while typing
+  const [includeText, setIncludeText] = useState(filters.includeDomains.join(', '));
+  const [excludeText, setExcludeText] = useState(filters.excludeDomains.join(', '));
+
+  // Pick up changes made elsewhere (reset, another tab)
+  useEffect(() => {
+    setIncludeText(prev => (
+      parseDomainList(prev).join() === filters.includeDomains.join() ? prev : filters.includeDomains.join(', ')
+    ));
+  }, [filters.includeDomains]);
+
+  useEffect(() => {
+    setExcludeText(prev => (
+      parseDomainList(prev).join() === filters.excludeDomains.join() ? prev : filters.excludeDomains.join(', ')
+    ));
+  }, [filters.excludeDomains]);
+
+  const activeCount = countActiveFilters(filters);
+
+  const update = (changes: Partial<StoryFilters>) => {
+    onFiltersChange({ ...filters, ...changes });
+  };
+
+  return (
+    <div className="filter-bar">
+      <div className="filter-bar-summary">
+        <button
+          type="button"
+          className="filter-bar-toggle"
+          aria-expanded={expanded}
+          aria-controls="story-filters"
+          onClick={() => setExpanded(prev => !prev)}
+        >
+          <span aria-hidden="true">🔎</span> Filters
+          {activeCount > 0 && <span className="filter-bar-count"> ({activeCount} active)</span>}
+        </button>
+        {activeCount > 0 && (
+          <button
+            type="button"
+            className="filter-bar-reset"
+            onClick={() => onFiltersChange(DEFAULT_FILTERS)}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div id="story-filters" className="filter-bar-fields" role="group" aria-label="Story filters">
+          <label className="filter-field">
+            <span>Min points</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.minScore || ''}
+              placeholder="0"
+              onChange={(e) => update({ minScore: toCount(e.target.value) })}
+            />
+          </label>
+
+          <label className="filter-field">
+            <span>Min comments</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.minComments || ''}
+              placeholder="0"
+              onChange={(e) => update({ minComments: toCount(e.target.value) })}
+            />
+          </label>
+
+          <label className="filter-field">
+            <span>Max age</span>
+            <select
+              value={filters.maxAgeHours}
+              onChange={(e) => update({ maxAgeHours: toCount(e.target.value) })}
+            >
+              {AGE_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="filter-field">
+            <span>Post type</span>
+            <select
+              value={filters.postType}
+              onChange={(e) => update({ postType: e.target.value as PostTypeFilter })}
+            >
+              <option value="all">All posts</option>
+              <option value="text">Text posts only</option>
+              <option value="link">Link posts only</option>
+            </select>
+          </label>
+
+          <label className="filter-field filter-field-wide">
+            <span>Only domains</span>
+            <input
+              type="text"
+              value={includeText}
+              placeholder="github.com, arxiv.org"
+              onChange={(e) => {
+                setIncludeText(e.target.value);
+                update({ includeDomains: parseDomainList(e.target.value) });
+              }}
+            />
+          </label>
+
+          <label className="filter-field filter-field-wide">
+            <span>Exclude domains</span>
+            <input
+              type="text"
+              value={excludeText}
+              placeholder="example.com"
+              onChange={(e) => {
+                setExcludeText(e.target.value);
+                update({ excludeDomains: parseDomainList(e.target.value) });
+              }}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}, (prevProps, nextProps) => {
+  return prevProps.filters === nextProps.filters;
+});
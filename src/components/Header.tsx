@@ -1,5 +1,11 @@
-import React, { useState } from 'react';
-import type { ViewMode, SortMode } from '../types/ui';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { ViewMode, SortMode, SortDirection, CategoryType, ThemePreference, DisplaySettings } from '../types/ui';
+import { routeToHref } from '../hooks/useRoute';
+import { useKeyboardNavigation } from '../hooks/useKeyboardNavigation';
+import type { Preferences } from '../hooks/usePreferences';
+import { MuteRulesPanel } from './MuteRulesPanel';
+import { DataPanel } from './DataPanel';
+import { DisplaySettingsPanel } from './DisplaySettingsPanel';
 
 interface HeaderProps {
   currentCategory: string;
@@ -8,20 +14,260 @@ interface HeaderProps {
   onViewModeChange: (mode: ViewMode) => void;
   sortMode: SortMode;
   onSortModeChange: (mode: SortMode) => void;
+  sortDirection: SortDirection;
+  onSortDirectionChange: (direction: SortDirection) => void;
   showAbout: boolean;
   onShowAbout: () => void;
+  showSaved: boolean;
+  onShowSaved: () => void;
+  savedUnreadCount: number;
   showHiddenArticles: boolean;
   onToggleHiddenArticles: () => void;
   onClearHiddenArticles: () => void;
+  liveUpdates: boolean;
+  onToggleLiveUpdates: () => void;
+  infiniteScroll: boolean;
+  onToggleInfiniteScroll: () => void;
+  theme: ThemePreference;
+  onThemeChange: (theme: ThemePreference) => void;
+  display: DisplaySettings;
+  onDisplayChange: (changes: Partial<DisplaySettings>) => void;
+  onImportPreferences: (preferences: Preferences) => void;
+  searchQuery?: string;
+  onSearch: (query: string) => void;
 }
 
-export const Header = React.memo<HeaderProps>(({ currentCategory, onCategoryChange, viewMode, onViewModeChange, sortMode, onSortModeChange, showAbout, onShowAbout, showHiddenArticles, onToggleHiddenArticles, onClearHiddenArticles }) => {
-  const [showViewModeDropdown, setShowViewModeDropdown] = useState(false);
-  const categories = [
+const themeOptions: { id: ThemePreference; name: string; icon: string }[] = [
+  { id: 'system', name: 'System Theme', icon: '💻' },
+  { id: 'light', name: 'Light', icon: '☀️' },
+  { id: 'dark', name: 'Dark', icon: '🌙' },
+  { id: 'high-contrast', name: 'High Contrast', icon: '🔳' },
+];
+
+const sortOptions: { id: SortMode; name: string; icon: string }[] = [
+  { id: 'default', name: 'Default Order', icon: '📅' },
+  { id: 'comments', name: 'Sort by Comments', icon: '💬' },
+  { id: 'points', name: 'Sort by Points', icon: '⬆️' },
+  { id: 'time', name: 'Sort by Age', icon: '🕒' },
+  { id: 'hotness', name: 'Sort by Hotness', icon: '🔥' },
+  { id: 'controversy', name: 'Sort by Controversy', icon: '⚖️' },
+  { id: 'domain', name: 'Group by Domain', icon: '🌐' }
+];
+
+// Direction labels read naturally for age ("Newest first") and as counts otherwise
+const getDirectionName = (sortMode: SortMode, direction: SortDirection) => {
+  if (sortMode === 'time') {
+    return direction === 'desc' ? 'Newest First' : 'Oldest First';
+  }
+  return direction === 'desc' ? 'Descending' : 'Ascending';
+};
+
+// Let modified clicks (new tab/window) fall through to the browser untouched
+const isPlainClick = (e: React.MouseEvent) =>
+  e.button === 0 && !e.metaKey && !e.ctrlKey && !e.shiftKey && !e.altKey;
+
+interface MenuItem {
+  id: string;
+  label: string;
+  icon: string;
+  role: 'menuitem' | 'menuitemradio' | 'menuitemcheckbox';
+  checked?: boolean;
+  danger?: boolean;
+  // The dialog takes focus, so the gear button doesn't get it back
+  opensDialog?: boolean;
+  onSelect: () => void;
+}
+
+// Labelled sections are radio groups; sections are split by separators
+interface MenuSection {
+  label?: string;
+  items: MenuItem[];
+}
+
+interface GearMenuProps {
+  sections: MenuSection[];
+  openAt: 'first' | 'last';
+  onClose: (restoreFocus?: boolean) => void;
+}
+
+/**
+ * WAI-ARIA menu: arrow keys, Home and End move between items, Enter and Space
+ * choose one, Escape closes and Tab closes and moves on from the gear button.
+ */
+const GearMenu = ({ sections, openAt, onClose }: GearMenuProps) => {
+  const items = sections.flatMap(section => section.items);
+
+  const choose = (item: MenuItem) => {
+    item.onSelect();
+    onClose(!item.opensDialog);
+  };
+
+  const { getItemProps, containerProps } = useKeyboardNavigation({
+    items,
+    onSelect: (index) => choose(items[index]),
+    onEscape: () => onClose(),
+    initialIndex: openAt === 'first' ? 0 : items.length - 1,
+    role: 'menu',
+    label: 'View options',
+  });
+
+  let index = 0;
+  const renderItem = (item: MenuItem) => {
+    const itemIndex = index++;
+    return (
+      <button
+        key={item.id}
+        {...getItemProps(itemIndex)}
+        className={`dropdown-item ${item.checked ? 'active' : ''} ${item.danger ? 'dropdown-item-danger' : ''}`}
+        role={item.role}
+        aria-checked={item.role === 'menuitem' ? undefined : !!item.checked}
+        onClick={() => choose(item)}
+        type="button"
+      >
+        <span aria-hidden="true">{item.icon}</span> {item.label}
+      </button>
+    );
+  };
+
+  return (
+    <div
+      {...containerProps}
+      id="view-options-menu"
+      className="dropdown-content"
+      onKeyDown={(e) => {
+        if (e.key === 'Tab') {
+          // Focus the gear first so the browser's Tab continues from it
+          onClose();
+          return;
+        }
+        containerProps.onKeyDown(e);
+      }}
+    >
+      {sections.map((section, sectionIndex) => (
+        <React.Fragment key={section.label ?? sectionIndex}>
+          {sectionIndex > 0 && <div className="dropdown-separator" role="separator" />}
+          {section.label ? (
+            <div role="group" aria-label={section.label}>
+              {section.items.map(renderItem)}
+            </div>
+          ) : (
+            section.items.map(renderItem)
+          )}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export const Header = React.memo<HeaderProps>(({ currentCategory, onCategoryChange, viewMode, onViewModeChange, sortMode, onSortModeChange, sortDirection, onSortDirectionChange, showAbout, onShowAbout, showSaved, onShowSaved, savedUnreadCount, showHiddenArticles, onToggleHiddenArticles, onClearHiddenArticles, liveUpdates, onToggleLiveUpdates, infiniteScroll, onToggleInfiniteScroll, theme, onThemeChange, display, onDisplayChange, onImportPreferences, searchQuery = '', onSearch }) => {
+  // Which end of the menu gets focus when it opens; null while closed
+  const [menuOpenAt, setMenuOpenAt] = useState<'first' | 'last' | null>(null);
+  const gearRef = useRef<HTMLButtonElement>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const [searchText, setSearchText] = useState(searchQuery);
+
+  // Follow the route when a search is opened from a link or history
+  useEffect(() => {
+    setSearchText(searchQuery);
+  }, [searchQuery]);
+  // Panels opened from the menu; only one is shown at a time
+  const [openPanel, setOpenPanel] = useState<'mute-rules' | 'backup' | 'display' | null>(null);
+  const categories: { id: CategoryType; name: string }[] = [
     { id: 'top', name: 'Top Stories' },
     { id: 'new', name: 'New' },
-    { id: 'best', name: 'Best' }
+    { id: 'best', name: 'Best' },
+    { id: 'ask', name: 'Ask' },
+    { id: 'show', name: 'Show' },
+    { id: 'job', name: 'Jobs' }
+  ];
+
+  // Focus goes back to the gear button unless the reader clicked elsewhere
+  const closeMenu = useCallback((restoreFocus = true) => {
+    setMenuOpenAt(null);
+    if (restoreFocus) gearRef.current?.focus();
+  }, []);
+
+  const closePanel = useCallback(() => {
+    setOpenPanel(null);
+    gearRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (menuOpenAt === null) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!dropdownRef.current?.contains(event.target as Node)) {
+        closeMenu(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [menuOpenAt, closeMenu]);
+
+  const menuSections: MenuSection[] = [
+    {
+      label: 'View mode',
+      items: [
+        { id: 'title', label: 'Title View', icon: '📋', role: 'menuitemradio', checked: viewMode === 'title', onSelect: () => onViewModeChange('title') },
+        { id: 'compact', label: 'Compact View', icon: '📰', role: 'menuitemradio', checked: viewMode === 'compact', onSelect: () => onViewModeChange('compact') },
+        { id: 'full', label: 'Full View', icon: '📖', role: 'menuitemradio', checked: viewMode === 'full', onSelect: () => onViewModeChange('full') },
+      ],
+    },
+    {
+      label: 'Theme',
+      items: themeOptions.map(option => ({
+        id: `theme-${option.id}`,
+        label: option.name,
+        icon: option.icon,
+        role: 'menuitemradio' as const,
+        checked: theme === option.id,
+        onSelect: () => onThemeChange(option.id),
+      })),
+    },
+    {
+      items: [
+        { id: 'show-hidden', label: 'Show Hidden Articles', icon: '👁️', role: 'menuitemcheckbox', checked: showHiddenArticles, onSelect: onToggleHiddenArticles },
+        { id: 'clear-hidden', label: 'Clear All Hidden Articles', icon: '🗑️', role: 'menuitem', danger: true, onSelect: onClearHiddenArticles },
+        {
+          id: 'mute-rules', label: 'Mute Rules...', icon: '🔇', role: 'menuitem', opensDialog: true,
+          onSelect: () => setOpenPanel('mute-rules'),
+        },
+        {
+          id: 'backup', label: 'Backup & Restore...', icon: '💾', role: 'menuitem', opensDialog: true,
+          onSelect: () => setOpenPanel('backup'),
+        },
+        {
+          id: 'display', label: 'Display Settings...', icon: '🔠', role: 'menuitem', opensDialog: true,
+          onSelect: () => setOpenPanel('display'),
+        },
+        { id: 'live-updates', label: 'Live Updates', icon: '📡', role: 'menuitemcheckbox', checked: liveUpdates, onSelect: onToggleLiveUpdates },
+        { id: 'infinite-scroll', label: 'Infinite Scroll', icon: '♾️', role: 'menuitemcheckbox', checked: infiniteScroll, onSelect: onToggleInfiniteScroll },
+      ],
+    },
+    {
+      label: 'Sort order',
+      items: sortOptions.map(option => ({
+        id: `sort-${option.id}`,
+        label: option.name,
+        icon: option.icon,
+        role: 'menuitemradio' as const,
+        checked: sortMode === option.id,
+        onSelect: () => onSortModeChange(option.id),
+      })),
+    },
   ];
+  if (sortMode !== 'default') {
+    menuSections.push({
+      label: 'Sort direction',
+      items: (['desc', 'asc'] as const).map(direction => ({
+        id: `direction-${direction}`,
+        label: getDirectionName(sortMode, direction),
+        icon: direction === 'desc' ? '⬇️' : '⬆️',
+        role: 'menuitemradio' as const,
+        checked: sortDirection === direction,
+        onSelect: () => onSortDirectionChange(direction),
+      })),
+    });
+  }
 
   return (
     <>
@@ -34,18 +280,34 @@ export const Header = React.memo<HeaderProps>(({ currentCategory, onCategoryChan
             {categories.map(category => (
               <li key={category.id}>
                 <a
-                  href="#"
+                  href={routeToHref({ name: 'category', category: category.id })}
                   className={currentCategory === category.id ? 'active' : ''}
                   aria-current={currentCategory === category.id ? 'page' : undefined}
                   onClick={(e) => {
-                    e.preventDefault();
-                    onCategoryChange(category.id);
+                    if (isPlainClick(e)) {
+                      onCategoryChange(category.id);
+                    }
                   }}
                 >
                   {category.name}
                 </a>
               </li>
             ))}
+            <li>
+              <a
+                href={routeToHref({ name: 'saved' })}
+                className={showSaved ? 'active' : ''}
+                aria-current={showSaved ? 'page' : undefined}
+                aria-label={savedUnreadCount > 0 ? `Saved, ${savedUnreadCount} unread` : undefined}
+                onClick={(e) => {
+                  if (isPlainClick(e)) {
+                    onShowSaved();
+                  }
+                }}
+              >
+                Saved{savedUnreadCount > 0 && <span className="nav-badge">{savedUnreadCount}</span>}
+              </a>
+            </li>
             <li aria-hidden="true">
               <span className="nav-separator">|</span>
             </li>
@@ -71,12 +333,13 @@ export const Header = React.memo<HeaderProps>(({ currentCategory, onCategoryChan
             </li>
             <li>
               <a
-                href="#"
+                href={routeToHref({ name: 'about' })}
                 className={showAbout ? 'active' : ''}
                 aria-current={showAbout ? 'page' : undefined}
                 onClick={(e) => {
-                  e.preventDefault();
-                  onShowAbout();
+                  if (isPlainClick(e)) {
+                    onShowAbout();
+                  }
                 }}
               >
                 About
@@ -86,108 +349,54 @@ export const Header = React.memo<HeaderProps>(({ currentCategory, onCategoryChan
         </div>
 
         <div className="nav-right">
-          <div className="view-mode-dropdown">
-            <button 
+          <form
+            className="nav-search"
+            role="search"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const query = searchText.trim();
+              if (query) {
+                onSearch(query);
+              }
+            }}
+          >
+            <input
+              type="search"
+              className="nav-search-input"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Search"
+              aria-label="Search stories and comments"
+            />
+          </form>
+          <div className="view-mode-dropdown" ref={dropdownRef}>
+            <button
               className="gear-btn"
-              onClick={() => setShowViewModeDropdown(!showViewModeDropdown)}
+              ref={gearRef}
+              onClick={() => (menuOpenAt === null ? setMenuOpenAt('first') : closeMenu())}
+              onKeyDown={(e) => {
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                  e.preventDefault();
+                  setMenuOpenAt(e.key === 'ArrowDown' ? 'first' : 'last');
+                }
+              }}
               aria-label="View Options"
               aria-haspopup="menu"
-              aria-expanded={showViewModeDropdown}
+              aria-expanded={menuOpenAt !== null}
+              aria-controls={menuOpenAt !== null ? 'view-options-menu' : undefined}
               type="button"
             >
               ⚙️
             </button>
-            {showViewModeDropdown && (
-              <div 
-                className="dropdown-content" 
-                role="menu" 
-                aria-label="View mode options"
-              >
-                <button 
-                  className={`dropdown-item ${viewMode === 'title' ? 'active' : ''}`}
-                  role="menuitem"
-                  aria-checked={viewMode === 'title'}
-                  onClick={() => {
-                    onViewModeChange('title');
-                    setShowViewModeDropdown(false);
-                  }}
-                >
-                  <span aria-hidden="true">📋</span> Title View
-                </button>
-                <button 
-                  className={`dropdown-item ${viewMode === 'compact' ? 'active' : ''}`}
-                  role="menuitem"
-                  aria-checked={viewMode === 'compact'}
-                  onClick={() => {
-                    onViewModeChange('compact');
-                    setShowViewModeDropdown(false);
-                  }}
-                >
-                  <span aria-hidden="true">📰</span> Compact View
-                </button>
-                <button
-                  className={`dropdown-item ${viewMode === 'full' ? 'active' : ''}`}
-                  role="menuitem"
-                  aria-checked={viewMode === 'full'}
-                  onClick={() => {
-                    onViewModeChange('full');
-                    setShowViewModeDropdown(false);
-                  }}
-                >
-                  <span aria-hidden="true">📖</span> Full View
-                </button>
-
-                <div className="dropdown-separator" />
-
-                <button
-                  className={`dropdown-item ${showHiddenArticles ? 'active' : ''}`}
-                  role="menuitem"
-                  aria-checked={showHiddenArticles}
-                  onClick={() => {
-                    onToggleHiddenArticles();
-                    setShowViewModeDropdown(false);
-                  }}
-                >
-                  <span aria-hidden="true">👁️</span> Show Hidden Articles
-                </button>
-
-                <button
-                  className="dropdown-item dropdown-item-danger"
-                  role="menuitem"
-                  onClick={() => {
-                    onClearHiddenArticles();
-                    setShowViewModeDropdown(false);
-                  }}
-                >
-                  <span aria-hidden="true">🗑️</span> Clear All Hidden Articles
-                </button>
-
-                <div className="dropdown-separator" />
-
-                <button
-                  className={`dropdown-item ${sortMode === 'default' ? 'active' : ''}`}
-                  role="menuitem"
-                  aria-checked={sortMode === 'default'}
-                  onClick={() => {
-                    onSortModeChange('default');
-                    setShowViewModeDropdown(false);
-                  }}
-                >
-                  <span aria-hidden="true">📅</span> Default Order
-                </button>
-
-                <button
-                  className={`dropdown-item ${sortMode === 'comments' ? 'active' : ''}`}
-                  role="menuitem"
-                  aria-checked={sortMode === 'comments'}
-                  onClick={() => {
-                    onSortModeChange('comments');
-                    setShowViewModeDropdown(false);
-                  }}
-                >
-                  <span aria-hidden="true">💬</span> Sort by Comments
-                </button>
-              </div>
+            {menuOpenAt !== null && (
+              <GearMenu sections={menuSections} openAt={menuOpenAt} onClose={closeMenu} />
+            )}
+            {openPanel === 'mute-rules' && <MuteRulesPanel onClose={closePanel} />}
+            {openPanel === 'backup' && (
+              <DataPanel onImportPreferences={onImportPreferences} onClose={closePanel} />
+            )}
+            {openPanel === 'display' && (
+              <DisplaySettingsPanel display={display} onDisplayChange={onDisplayChange} onClose={closePanel} />
             )}
           </div>
         </div>
@@ -198,6 +407,15 @@ export const Header = React.memo<HeaderProps>(({ currentCategory, onCategoryChan
   return prevProps.currentCategory === nextProps.currentCategory &&
          prevProps.viewMode === nextProps.viewMode &&
          prevProps.sortMode === nextProps.sortMode &&
+         prevProps.sortDirection === nextProps.sortDirection &&
          prevProps.showAbout === nextProps.showAbout &&
-         prevProps.showHiddenArticles === nextProps.showHiddenArticles;
+         prevProps.showSaved === nextProps.showSaved &&
+         prevProps.savedUnreadCount === nextProps.savedUnreadCount &&
+         prevProps.showHiddenArticles === nextProps.showHiddenArticles &&
+         prevProps.liveUpdates === nextProps.liveUpdates &&
+         prevProps.infiniteScroll === nextProps.infiniteScroll &&
+         prevProps.theme === nextProps.theme &&
+         prevProps.display === nextProps.display &&
+         prevProps.searchQuery === nextProps.searchQuery &&
+         prevProps.onSearch === nextProps.onSearch;
 });
\ No newline at end of file
@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { useFocusTrap } from '../hooks/useKeyboardNavigation';
+
+const KEYBOARD_SHORTCUTS: readonly { keys: string; description: string }[] = [
+  { keys: 'j', description: 'Next story' },
+  { keys: 'k', description: 'Previous story' },
+  { keys: 'o', description: 'Open the selected story' },
+  { keys: 'c', description: 'Show or hide its comments' },
+  { keys: 'h', description: 'Hide or restore it' },
+  { keys: 's', description: 'Save it to the reading list, or remove it' },
+  { keys: 'n', description: 'Next top-level comment' },
+  { keys: 'p', description: 'Previous top-level comment' },
+  { keys: '?', description: 'Show or close this help' },
+];
+
+interface KeyboardShortcutsHelpProps {
+  onClose: () => void;
+}
+
+export const KeyboardShortcutsHelp = React.memo<KeyboardShortcutsHelpProps>(({ onClose }) => {
+  // Give focus back to whatever had it before the overlay opened. Declared
+  // before the trap so it runs before the trap moves focus.
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    return () => previous?.focus?.();
+  }, []);
+
+  const trapRef = useFocusTrap(true);
+
+  return (
+    <div className="shortcuts-overlay" onClick={onClose}>
+      <div
+        className="shortcuts-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        ref={(element) => {
+          trapRef.current = element;
+        }}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape' || e.key === '?') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+      >
+        <h2 id="shortcuts-title" className="shortcuts-title">Keyboard shortcuts</h2>
+        <p className="shortcuts-note">Shortcuts are off while typing in a field.</p>
+        <dl className="shortcuts-list">
+          {KEYBOARD_SHORTCUTS.map(({ keys, description }) => (
+            <div key={keys} className="shortcuts-row">
+              <dt><kbd>{keys}</kbd></dt>
+              <dd>{description}</dd>
+            </div>
+          ))}
+        </dl>
+        <button className="shortcuts-close" onClick={onClose} type="button">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+});
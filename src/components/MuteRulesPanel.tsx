@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { MuteRuleType } from '../types/ui';
+import { useMuteRules } from '../hooks/useMuteRules';
+import { useFocusTrap } from '../hooks/useKeyboardNavigation';
+import { validateMuteRule, describeMuteRule } from '../utils/muteRules';
+
+interface MuteRulesPanelProps {
+  onClose: () => void;
+}
+
+const RULE_TYPE_LABELS: Record<MuteRuleType, string> = {
+  keyword: 'Title/text keyword',
+  regex: 'Regular expression',
+  domain: 'Domain',
+  author: 'User'
+};
+
+export const MuteRulesPanel = React.memo<MuteRulesPanelProps>(({ onClose }) => {
+  const { rules, suppressedCounts, addRule, removeRule } = useMuteRules();
+  const [type, setType] = useState<MuteRuleType>('keyword');
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const trapRef = useFocusTrap(true);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = validateMuteRule(type, pattern);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    if (rules.some(rule => rule.type === type && rule.pattern === result.pattern)) {
+      setError('That rule already exists.');
+      return;
+    }
+    addRule(type, result.pattern);
+    setPattern('');
+    setError(null);
+  };
+
+  return (
+    <div
+      className="mute-rules-panel"
+      role="dialog"
+      ref={(element) => {
+        trapRef.current = element;
+      }}
+      aria-label="Mute rules"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="mute-rules-header">
+        <h2>Mute rules</h2>
+        <button type="button" className="mute-rules-close" onClick={onClose} aria-label="Close mute rules">
+          ×
+        </button>
+      </div>
+      <p className="mute-rules-help">
+        Matching stories and comments are hidden automatically. Use Show Hidden Articles to see them.
+      </p>
+
+      <form className="mute-rules-form" onSubmit={handleSubmit}>
+        <label className="sr-only" htmlFor="mute-rule-type">Rule type</label>
+        <select
+          id="mute-rule-type"
+          value={type}
+          onChange={(e) => setType(e.target.value as MuteRuleType)}
+        >
+          {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <label className="sr-only" htmlFor="mute-rule-pattern">Pattern</label>
+        <input
+          id="mute-rule-pattern"
+          type="text"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder={type === 'domain' ? 'example.com' : type === 'author' ? 'username' : 'crypto'}
+          aria-invalid={!!error}
+          aria-describedby={error ? 'mute-rule-error' : undefined}
+        />
+        <button type="submit" className="mute-rules-add">Mute</button>
+      </form>
+      {error && (
+        <div id="mute-rule-error" className="mute-rules-error" role="alert">{error}</div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="mute-rules-empty">No mute rules yet.</p>
+      ) : (
+        <ul className="mute-rules-list" aria-label="Active mute rules">
+          {rules.map(rule => {
+            const count = suppressedCounts[rule.id] || 0;
+            return (
+              <li key={rule.id} className="mute-rule">
+                <span className="mute-rule-description">{describeMuteRule(rule)}</span>
+                <span className="mute-rule-count">{count} hidden</span>
+                <button
+                  type="button"
+                  className="mute-rule-remove"
+                  onClick={() => removeRule(rule.id)}
+                  aria-label={`Remove mute rule ${describeMuteRule(rule)}`}
+                >
+                  Remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,22 @@
+import React from 'react';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+
+const formatSavedAt = (savedAt: number) =>
+  new Date(savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Shown while offline or while any data on screen came from the offline cache
+export const OfflineIndicator = React.memo(() => {
+  const { online, cachedSince } = useOfflineStatus();
+
+  if (online && cachedSince === null) {
+    return null;
+  }
+
+  const state = online ? "Can't reach Hacker News" : 'Offline';
+
+  return (
+    <div className="offline-indicator" role="status">
+      {cachedSince === null ? state : `${state} — showing cached data from ${formatSavedAt(cachedSince)}`}
+    </div>
+  );
+});
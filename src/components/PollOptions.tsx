@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { hackerNewsApi, type HackerNewsItem } from '../services/hackerNewsApi';
+import type { ViewMode } from '../types/ui';
+import { sanitizeHtml } from '../utils/dompurify';
+
+interface PollOptionsProps {
+  poll: HackerNewsItem;
+  viewMode: ViewMode;
+}
+
+const sanitizeConfig = {
+  ALLOWED_TAGS: ['a', 'i', 'code', 'br'],
+  ALLOWED_ATTR: ['href']
+};
+
+export const PollOptions = React.memo<PollOptionsProps>(({ poll, viewMode }) => {
+  const parts = poll.parts;
+  const [options, setOptions] = useState<HackerNewsItem[]>([]);
+  const [loading, setLoading] = useState(viewMode !== 'title');
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    // Title view only shows the option count, so skip fetching the options
+    if (viewMode === 'title' || !parts || parts.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setFailed(false);
+
+    hackerNewsApi.getItems(parts)
+      .then(items => {
+        if (cancelled) return;
+        // getItems preserves request order, which is the poll's option order
+        setOptions(items.filter(item => item.type === 'pollopt' && !item.deleted));
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error(`Failed to load poll options for ${poll.id}:`, err);
+        setFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [poll.id, parts, viewMode]);
+
+  const optionCount = parts?.length || 0;
+
+  if (viewMode === 'title') {
+    return (
+      <span className="poll-summary">
+        Poll · {optionCount} option{optionCount !== 1 ? 's' : ''}
+      </span>
+    );
+  }
+
+  if (loading) {
+    return <div className="poll-options loading-summary"><em>Loading poll...</em></div>;
+  }
+
+  if (failed || options.length === 0) {
+    return <div className="poll-options failed-summary"><em>Poll options unavailable</em></div>;
+  }
+
+  const totalVotes = options.reduce((sum, option) => sum + (option.score || 0), 0);
+  const maxVotes = Math.max(...options.map(option => option.score || 0), 1);
+
+  return (
+    <div className={`poll-options poll-options-${viewMode}`}>
+      <ol className="poll-option-list" aria-label="Poll options">
+        {options.map(option => {
+          const votes = option.score || 0;
+          const percent = totalVotes > 0 ? Math.round((votes / totalVotes) * 100) : 0;
+
+          return (
+            <li key={option.id} className="poll-option">
+              <div className="poll-option-label">
+                <span
+                  className="poll-option-text"
+                  dangerouslySetInnerHTML={{ __html: sanitizeHtml(option.text || '', sanitizeConfig) }}
+                />
+                <span className="poll-option-score">
+                  {votes} vote{votes !== 1 ? 's' : ''}
+                  {viewMode === 'full' && ` (${percent}%)`}
+                </span>
+              </div>
+              <div className="poll-option-bar" aria-hidden="true">
+                <div
+                  className="poll-option-bar-fill"
+                  style={{ width: `${(votes / maxVotes) * 100}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      <div className="poll-total">
+        {totalVotes} total vote{totalVotes !== 1 ? 's' : ''}
+      </div>
+    </div>
+  );
+}, (prevProps, nextProps) => {
+  return prevProps.poll.id === nextProps.poll.id &&
+         prevProps.viewMode === nextProps.viewMode;
+});
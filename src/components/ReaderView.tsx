@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { hackerNewsApi } from '../services/hackerNewsApi';
+import type { ReaderArticle } from '../utils/readability';
+import { sanitizeUrl } from '../utils/security';
+
+interface ReaderViewProps {
+  url: string;
+}
+
+// The linked article's text, extracted and shown alongside the discussion
+export const ReaderView = React.memo<ReaderViewProps>(({ url }) => {
+  const [article, setArticle] = useState<ReaderArticle | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  // Bumped whenever an article starts loading; responses from an older
+  // generation belong to a page that is no longer shown
+  const generationRef = useRef(0);
+
+  const loadArticle = useCallback(async () => {
+    const generation = ++generationRef.current;
+    setLoading(true);
+    setFailed(false);
+    try {
+      const result = await hackerNewsApi.getReaderArticle(url);
+      if (generation !== generationRef.current) return;
+      setArticle(result);
+      setFailed(!result);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.warn(`[Reader] Failed to load article for ${url}:`, err);
+      setFailed(true);
+    } finally {
+      if (generation === generationRef.current) setLoading(false);
+    }
+  }, [url]);
+
+  useEffect(() => {
+    setArticle(null);
+    loadArticle();
+  }, [loadArticle]);
+
+  const originalLink = (
+    <a href={sanitizeUrl(url)} target="_blank" rel="noopener noreferrer" className="reader-original">
+      Open original
+    </a>
+  );
+
+  if (loading) {
+    return (
+      <section className="reader-view" aria-label="Reader view" aria-busy="true">
+        <div className="loading">Loading article...</div>
+      </section>
+    );
+  }
+
+  if (failed || !article) {
+    return (
+      <section className="reader-view" aria-label="Reader view">
+        <div className="reader-unavailable" role="alert">
+          The article text couldn't be extracted from this page.
+          <button className="retry-summary-btn" onClick={loadArticle} type="button">
+            Try Again
+          </button>
+        </div>
+        {originalLink}
+      </section>
+    );
+  }
+
+  return (
+    <article className="reader-view" aria-labelledby="reader-title">
+      <header className="reader-header">
+        <h2 id="reader-title" className="reader-title">{article.title}</h2>
+        <div className="reader-meta">
+          <span>{article.readingMinutes} min read</span>
+          <span className="hn-separator"> | </span>
+          <span>{article.wordCount.toLocaleString()} words</span>
+          <span className="hn-separator"> | </span>
+          {originalLink}
+        </div>
+      </header>
+      {/* Extracted and sanitized by utils/readability */}
+      <div className="reader-content" dangerouslySetInnerHTML={{ __html: article.content }} />
+    </article>
+  );
+});
@@ -0,0 +1,173 @@
+import React, { useState, useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import type { SavedStory, ViewMode } from '../types/ui';
+import { useReadingList, parseTags } from '../hooks/useReadingList';
+import { useHiddenArticles } from '../hooks/useHiddenArticles';
+import { StoryCard } from './StoryCard';
+import { StoryErrorBoundary } from './ErrorBoundary';
+
+interface ReadingListProps {
+  viewMode: ViewMode;
+}
+
+type ReadFilter = 'all' | 'unread' | 'read';
+
+interface SavedItemProps {
+  entry: SavedStory;
+  viewMode: ViewMode;
+}
+
+const SavedItem = ({ entry, viewMode }: SavedItemProps) => {
+  const { setRead, updateDetails, remove } = useReadingList();
+  const { hideArticle, showArticle, isArticleHidden } = useHiddenArticles();
+  const [editing, setEditing] = useState(false);
+  const [tagsText, setTagsText] = useState('');
+  const [noteText, setNoteText] = useState('');
+
+  const startEditing = () => {
+    setTagsText(entry.tags.join(', '));
+    setNoteText(entry.note);
+    setEditing(true);
+  };
+
+  return (
+    <div
+      className={`saved-item ${entry.read ? 'saved-item-read' : ''}`}
+      // Following any link on the card (article or discussion) counts as reading it
+      onClickCapture={(e) => {
+        if ((e.target as HTMLElement).closest('a')) {
+          setRead(entry.id, true);
+        }
+      }}
+    >
+      <StoryErrorBoundary>
+        <StoryCard
+          story={entry.story}
+          viewMode={viewMode}
+          expandedStory={null}
+          onHideArticle={hideArticle}
+          onShowArticle={showArticle}
+          isHidden={isArticleHidden(entry.id)}
+          showingHidden={false}
+        />
+      </StoryErrorBoundary>
+
+      <div className="saved-item-details">
+        <span className="saved-item-date">
+          Saved {formatDistanceToNow(entry.savedAt, { addSuffix: true })}
+        </span>
+        {entry.tags.length > 0 && (
+          <ul className="saved-item-tags" aria-label="Tags">
+            {entry.tags.map(tag => <li key={tag}>{tag}</li>)}
+          </ul>
+        )}
+        <div className="saved-item-actions">
+          <button className="hn-action-link" onClick={() => setRead(entry.id, !entry.read)}>
+            {entry.read ? 'Mark unread' : 'Mark read'}
+          </button>
+          <button className="hn-action-link" onClick={startEditing} aria-expanded={editing}>
+            Edit tags &amp; note
+          </button>
+          <button className="hn-action-link" onClick={() => remove(entry.id)}>
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {entry.note && !editing && <p className="saved-item-note">{entry.note}</p>}
+
+      {editing && (
+        <form
+          className="saved-item-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateDetails(entry.id, { tags: parseTags(tagsText), note: noteText.trim() });
+            setEditing(false);
+          }}
+        >
+          <label>
+            Tags
+            <input
+              type="text"
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+              placeholder="comma, separated"
+            />
+          </label>
+          <label>
+            Note
+            <textarea value={noteText} onChange={(e) => setNoteText(e.target.value)} rows={3} />
+          </label>
+          <div className="saved-item-form-actions">
+            <button type="submit">Save</button>
+            <button type="button" onClick={() => setEditing(false)}>Cancel</button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export const ReadingList = React.memo<ReadingListProps>(({ viewMode }) => {
+  const { items, unreadCount } = useReadingList();
+  const [readFilter, setReadFilter] = useState<ReadFilter>('all');
+  const [tagFilter, setTagFilter] = useState('');
+
+  const allTags = useMemo(
+    () => Array.from(new Set(items.flatMap(entry => entry.tags))).sort(),
+    [items]
+  );
+
+  const visibleItems = useMemo(() => items.filter(entry => {
+    if (readFilter === 'unread' && entry.read) return false;
+    if (readFilter === 'read' && !entry.read) return false;
+    return !tagFilter || entry.tags.includes(tagFilter);
+  }), [items, readFilter, tagFilter]);
+
+  return (
+    <div className="stories-container reading-list">
+      <h2 className="reading-list-title">Saved stories</h2>
+
+      {items.length === 0 ? (
+        <div className="reading-list-empty">
+          Nothing saved yet. Use ☆ or "save" on any story to keep it here.
+        </div>
+      ) : (
+        <>
+          <div className="reading-list-controls">
+            <span className="story-count">
+              {items.length} saved, {unreadCount} unread
+            </span>
+            <label>
+              Show
+              <select value={readFilter} onChange={(e) => setReadFilter(e.target.value as ReadFilter)}>
+                <option value="all">All</option>
+                <option value="unread">Unread</option>
+                <option value="read">Read</option>
+              </select>
+            </label>
+            {allTags.length > 0 && (
+              <label>
+                Tag
+                <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)}>
+                  <option value="">Any</option>
+                  {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {visibleItems.length === 0 && (
+            <div className="filter-empty">No saved stories match.</div>
+          )}
+
+          {visibleItems.map(entry => (
+            <SavedItem key={entry.id} entry={entry} viewMode={viewMode} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}, (prevProps, nextProps) => {
+  return prevProps.viewMode === nextProps.viewMode;
+});
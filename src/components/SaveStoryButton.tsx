@@ -0,0 +1,40 @@
+import React, { useEffect } from 'react';
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import { useReadingList, refreshSavedSnapshot } from '../hooks/useReadingList';
+
+interface SaveStoryButtonProps {
+  story: HackerNewsItem;
+  // 'icon' sits next to the hide button, 'link' matches the HN-style action links
+  variant: 'icon' | 'link';
+  // Off for partial copies such as search hits, which must not replace a saved snapshot
+  refreshSnapshot?: boolean;
+}
+
+export const SaveStoryButton = React.memo<SaveStoryButtonProps>(({ story, variant, refreshSnapshot = true }) => {
+  const { isSaved, save, remove } = useReadingList();
+  const saved = isSaved(story.id);
+
+  useEffect(() => {
+    if (saved && refreshSnapshot) {
+      refreshSavedSnapshot(story);
+    }
+  }, [saved, story, refreshSnapshot]);
+
+  const label = saved ? `Remove from reading list: ${story.title}` : `Save for later: ${story.title}`;
+
+  return (
+    <button
+      className={variant === 'icon' ? `save-article-btn ${saved ? 'saved' : ''}` : 'hn-action-link'}
+      onClick={() => (saved ? remove(story.id) : save(story))}
+      aria-pressed={saved}
+      aria-label={label}
+      title={saved ? 'Remove from reading list' : 'Save for later'}
+    >
+      {variant === 'icon' ? (saved ? '★' : '☆') : (saved ? 'saved' : 'save')}
+    </button>
+  );
+}, (prevProps, nextProps) => {
+  return prevProps.story === nextProps.story &&
+         prevProps.variant === nextProps.variant &&
+         prevProps.refreshSnapshot === nextProps.refreshSnapshot;
+});
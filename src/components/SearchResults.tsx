@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { searchApi, type SearchParams } from '../services/searchApi';
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import type { ViewMode, SearchOptions, SearchSort, SearchType, SearchRange } from '../types/ui';
+import { useHiddenArticles } from '../hooks/useHiddenArticles';
+import { routeToHref } from '../hooks/useRoute';
+import { StoryCard } from './StoryCard';
+import { StoryErrorBoundary } from './ErrorBoundary';
+import { sanitizeHtml } from '../utils/dompurify';
+
+interface SearchResultsProps {
+  options: SearchOptions;
+  viewMode: ViewMode;
+  onOptionsChange: (options: SearchOptions) => void;
+}
+
+const HITS_PER_PAGE = 20;
+
+const RANGE_SECONDS: Record<Exclude<SearchRange, 'all'>, number> = {
+  day: 86400,
+  week: 7 * 86400,
+  month: 30 * 86400,
+  year: 365 * 86400
+};
+
+const formatTimeAgo = (timestamp: number): string => {
+  return formatDistanceToNow(new Date(timestamp * 1000), { addSuffix: true });
+};
+
+const sanitizeConfig = {
+  ALLOWED_TAGS: ['a', 'p', 'i', 'code', 'pre', 'br'],
+  ALLOWED_ATTR: ['href']
+};
+
+const toSearchParams = ({ query, sort, type, range }: SearchOptions, page: number): SearchParams => ({
+  query,
+  sort,
+  page,
+  hitsPerPage: HITS_PER_PAGE,
+  tags: type === 'all' ? [['story', 'comment']] : [type],
+  numericFilters: range === 'all'
+    ? undefined
+    : [`created_at_i>${Math.floor(Date.now() / 1000) - RANGE_SECONDS[range]}`]
+});
+
+export const SearchResults = React.memo<SearchResultsProps>(({ options, viewMode, onOptionsChange }) => {
+  const [items, setItems] = useState<HackerNewsItem[]>([]);
+  const [storyTitles, setStoryTitles] = useState<Map<number, { storyId: number; title: string }>>(new Map());
+  const [page, setPage] = useState(0);
+  const [nbPages, setNbPages] = useState(0);
+  const [nbHits, setNbHits] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { hideArticle, showArticle, isArticleHidden } = useHiddenArticles();
+  const { query, sort, type, range } = options;
+
+  // Bumped whenever a new search starts; responses from an older generation
+  // belong to options that are no longer shown
+  const generationRef = useRef(0);
+
+  const runSearch = useCallback(async () => {
+    const generation = ++generationRef.current;
+    try {
+      setLoading(true);
+      setLoadingMore(false);
+      setError(null);
+      const result = await searchApi.search(toSearchParams({ query, sort, type, range }, 0));
+      if (generation !== generationRef.current) return;
+      setItems(result.items);
+      setStoryTitles(result.storyTitles);
+      setPage(0);
+      setNbPages(result.nbPages);
+      setNbHits(result.nbHits);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      setError('Search failed. Please try again later.');
+      console.error(`Error searching for "${query}":`, err);
+    } finally {
+      if (generation === generationRef.current) setLoading(false);
+    }
+  }, [query, sort, type, range]);
+
+  useEffect(() => {
+    runSearch();
+  }, [runSearch]);
+
+  const loadMore = useCallback(async () => {
+    const generation = generationRef.current;
+    try {
+      setLoadingMore(true);
+      setError(null);
+      const result = await searchApi.search(toSearchParams({ query, sort, type, range }, page + 1));
+      if (generation !== generationRef.current) return;
+      setItems(prev => {
+        const seen = new Set(prev.map(item => item.id));
+        return [...prev, ...result.items.filter(item => !seen.has(item.id))];
+      });
+      setStoryTitles(prev => new Map([...prev, ...result.storyTitles]));
+      setPage(result.page);
+      setNbPages(result.nbPages);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      setError('Failed to load more results.');
+      console.error(`Error loading more results for "${query}":`, err);
+    } finally {
+      if (generation === generationRef.current) setLoadingMore(false);
+    }
+  }, [query, sort, type, range, page]);
+
+  return (
+    <div className="search-results">
+      <div className="search-controls" role="group" aria-label="Search options">
+        <h2 className="search-title">
+          Results for <q>{query}</q>
+        </h2>
+        <label>
+          <span className="sr-only">Search in</span>
+          <select
+            value={type}
+            onChange={(e) => onOptionsChange({ ...options, type: e.target.value as SearchType })}
+          >
+            <option value="story">Stories</option>
+            <option value="comment">Comments</option>
+            <option value="all">Stories and comments</option>
+          </select>
+        </label>
+        <label>
+          <span className="sr-only">Sort results by</span>
+          <select
+            value={sort}
+            onChange={(e) => onOptionsChange({ ...options, sort: e.target.value as SearchSort })}
+          >
+            <option value="relevance">Most relevant</option>
+            <option value="date">Most recent</option>
+          </select>
+        </label>
+        <label>
+          <span className="sr-only">Date range</span>
+          <select
+            value={range}
+            onChange={(e) => onOptionsChange({ ...options, range: e.target.value as SearchRange })}
+          >
+            <option value="all">All time</option>
+            <option value="day">Past day</option>
+            <option value="week">Past week</option>
+            <option value="month">Past month</option>
+            <option value="year">Past year</option>
+          </select>
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="loading">Searching...</div>
+      ) : (
+        <>
+          <div className="story-count" aria-live="polite">
+            {nbHits.toLocaleString()} result{nbHits !== 1 ? 's' : ''}
+          </div>
+
+          {items.length === 0 && !error && <p>No results found.</p>}
+
+          {items.map(item => (
+            <StoryErrorBoundary key={item.id}>
+              {item.type === 'comment' ? (
+                <div className="comment level-0 search-comment">
+                  <div className="comment-header">
+                    {item.by && (
+                      <a className="comment-author" href={routeToHref({ name: 'user', id: item.by })}>
+                        {item.by}
+                      </a>
+                    )}
+                    {' • '}
+                    <span>{formatTimeAgo(item.time)}</span>
+                    {storyTitles.has(item.id) && (
+                      <>
+                        {' • on: '}
+                        <a href={routeToHref({ name: 'item', id: storyTitles.get(item.id)!.storyId })}>
+                          {storyTitles.get(item.id)!.title || 'story'}
+                        </a>
+                      </>
+                    )}
+                  </div>
+                  <div
+                    className="comment-text"
+                    dangerouslySetInnerHTML={{ __html: sanitizeHtml(item.text || '', sanitizeConfig) }}
+                  />
+                </div>
+              ) : (
+                <StoryCard
+                  story={item}
+                  viewMode={viewMode}
+                  expandedStory={null}
+                  onHideArticle={hideArticle}
+                  onShowArticle={showArticle}
+                  isHidden={isArticleHidden(item.id)}
+                  showingHidden={true}
+                  partial
+                />
+              )}
+            </StoryErrorBoundary>
+          ))}
+
+          {error && <div className="error">{error}</div>}
+
+          {page + 1 < nbPages && (
+            <div className="load-more-section">
+              <button
+                className="load-more-btn"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'More Results'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}, (prevProps, nextProps) => {
+  return prevProps.options.query === nextProps.options.query &&
+         prevProps.options.sort === nextProps.options.sort &&
+         prevProps.options.type === nextProps.options.type &&
+         prevProps.options.range === nextProps.options.range &&
+         prevProps.viewMode === nextProps.viewMode &&
+         prevProps.onOptionsChange === nextProps.onOptionsChange;
+});
@@ -2,9 +2,13 @@ import React from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { type HackerNewsItem } from '../services/hackerNewsApi';
 import { Comments } from './Comments';
+import { PollOptions } from './PollOptions';
+import { SaveStoryButton } from './SaveStoryButton';
 import { CommentsErrorBoundary } from './ErrorBoundary';
 import { sanitizeUrl } from '../utils/security';
 import { sanitizeHtml } from '../utils/dompurify';
+import { routeToHref } from '../hooks/useRoute';
+import { useStoryVisit, countNewComments } from '../hooks/useVisitedStories';
 
 type ViewMode = 'title' | 'compact' | 'full';
 
@@ -15,15 +19,21 @@ interface StoryCardProps {
   summary?: string;
   loadingSummary?: boolean;
   summaryFailed?: boolean;
-  onToggleComments: (storyId: number) => void;
+  onToggleComments?: (storyId: number) => void;
   onHideArticle: (storyId: number) => void;
   onShowArticle: (storyId: number) => void;
   onRetrySummary?: (storyId: number) => void;
   isHidden: boolean;
   showingHidden: boolean;
+  // Set when a mute rule hides this story; only rendered while showing hidden items
+  mutedReason?: string;
+  // Set for search hits, which leave out fields the full item has
+  partial?: boolean;
 }
 
 const getStoryIcon = (story: HackerNewsItem): string => {
+  if (story.type === 'job') return '💼';
+  if (story.type === 'poll') return '📊';
   if (!story.url) return '💬';
   
   try {
@@ -68,10 +78,29 @@ export const StoryCard = React.memo<StoryCardProps>(({
   onShowArticle,
   onRetrySummary,
   isHidden,
-  showingHidden
+  showingHidden,
+  mutedReason,
+  partial = false
 }) => {
+  // Job postings have no score, author discussion or comments
+  const isJob = story.type === 'job';
+  const isPoll = story.type === 'poll';
+  const isExpanded = expandedStory === story.id;
+  const itemHref = routeToHref({ name: 'item', id: story.id });
+  const commentLabel = `${story.descendants || 0} comment${story.descendants !== 1 ? 's' : ''}`;
+  const visit = useStoryVisit(story.id);
+  const newCommentCount = isJob ? 0 : countNewComments(visit, story.descendants);
+  const newCommentsBadge = newCommentCount > 0 && (
+    <a href={itemHref} className="new-comments-badge">
+      +{newCommentCount} new comment{newCommentCount !== 1 ? 's' : ''}
+    </a>
+  );
+
   return (
-    <div className={`story-wrapper view-${viewMode} ${isHidden && showingHidden ? 'hidden-story' : ''}`}>
+    <div className={`story-wrapper view-${viewMode} ${visit ? 'visited-story' : ''} ${(isHidden || mutedReason) && showingHidden ? 'hidden-story' : ''}`}>
+      {mutedReason && showingHidden && (
+        <div className="story-muted-reason">Muted by {mutedReason}</div>
+      )}
       {/* Title View - Just title with minimal styling */}
       {viewMode === 'title' && (
         <div className="title-view">
@@ -84,6 +113,19 @@ export const StoryCard = React.memo<StoryCardProps>(({
               <span>{story.title}</span>
             )}
           </h3>
+          {!isJob && (
+            <a href={itemHref} className="title-comments-link">
+              {commentLabel}
+            </a>
+          )}
+          {newCommentsBadge}
+          {isPoll && (
+            <>
+              {' · '}
+              <PollOptions poll={story} viewMode="title" />
+            </>
+          )}
+          <SaveStoryButton story={story} variant="icon" refreshSnapshot={!partial} />
           {isHidden && showingHidden ? (
             <button
               className="restore-article-btn"
@@ -139,10 +181,20 @@ export const StoryCard = React.memo<StoryCardProps>(({
             {story.score && (
               <span className="hn-points">{story.score} point{story.score !== 1 ? 's' : ''}</span>
             )}
-            <span className="hn-by"> by </span>
-            <span className="hn-author">{story.by}</span>
-            <span className="hn-separator"> | </span>
-            <span className="hn-time">{formatTimeAgo(story.time)}</span>
+            {!isJob && (
+              <>
+                <span className="hn-by"> by </span>
+                {story.by && (
+                  <a className="hn-author" href={routeToHref({ name: 'user', id: story.by })}>
+                    {story.by}
+                  </a>
+                )}
+                <span className="hn-separator"> | </span>
+              </>
+            )}
+            <a className="hn-time" href={itemHref}>
+              {formatTimeAgo(story.time)}
+            </a>
             <span className="hn-separator"> | </span>
             {isHidden && showingHidden ? (
               <button
@@ -162,6 +214,8 @@ export const StoryCard = React.memo<StoryCardProps>(({
               </button>
             )}
             <span className="hn-separator"> | </span>
+            <SaveStoryButton story={story} variant="link" refreshSnapshot={!partial} />
+            <span className="hn-separator"> | </span>
             <a
               href={`https://news.ycombinator.com/item?id=${story.id}`}
               target="_blank"
@@ -170,20 +224,34 @@ export const StoryCard = React.memo<StoryCardProps>(({
             >
               past
             </a>
-            <span className="hn-separator"> | </span>
-            <button
-              className="hn-action-link"
-              onClick={() => onToggleComments(story.id)}
-            >
-              {story.descendants || 0} comment{story.descendants !== 1 ? 's' : ''}
-            </button>
+            {!isJob && (
+              <>
+                <span className="hn-separator"> | </span>
+                <a href={itemHref} className="hn-action-link">
+                  {commentLabel}
+                </a>
+                {newCommentsBadge}
+                {onToggleComments && (
+                  <button
+                    className="hn-action-link comments-inline-toggle"
+                    onClick={() => onToggleComments(story.id)}
+                    aria-expanded={isExpanded}
+                    aria-label={isExpanded ? 'Hide comments inline' : 'Show comments inline'}
+                  >
+                    {isExpanded ? '[\u2212]' : '[+]'}
+                  </button>
+                )}
+              </>
+            )}
           </div>
 
+          {isPoll && <PollOptions poll={story} viewMode="compact" />}
+
           {/* Comments for compact view - Only mount when expanded */}
-          {expandedStory === story.id && (
+          {isExpanded && (
             <div className="compact-comments-section">
               <CommentsErrorBoundary>
-                <Comments storyId={story.id} key={story.id} />
+                <Comments storyId={story.id} descendants={story.descendants} key={story.id} />
               </CommentsErrorBoundary>
             </div>
           )}
@@ -203,6 +271,7 @@ export const StoryCard = React.memo<StoryCardProps>(({
                 <span>{getStoryIcon(story)} {story.title}</span>
               )}
             </h2>
+            <SaveStoryButton story={story} variant="icon" refreshSnapshot={!partial} />
             {isHidden && showingHidden ? (
               <button
                 className="restore-article-btn"
@@ -233,13 +302,17 @@ export const StoryCard = React.memo<StoryCardProps>(({
               </div>
               <div className="story-meta-header">
                 <div className="story-author">
-                  <a href={`https://news.ycombinator.com/user?id=${story.by}`} target="_blank" rel="noopener noreferrer">
-                    {story.by}
-                  </a>
+                  {story.by && (
+                    <a href={routeToHref({ name: 'user', id: story.by })}>
+                      {story.by}
+                    </a>
+                  )}
                 </div>
                 <div className="story-timestamp">
                   <span className="story-type-icon">{getStoryIcon(story)}</span>
-                  <span className="story-time">{formatTimeAgo(story.time)}</span>
+                  <a className="story-time" href={itemHref}>
+                    {formatTimeAgo(story.time)}
+                  </a>
                   {story.url && (
                     <>
                       {' • '}
@@ -271,6 +344,8 @@ export const StoryCard = React.memo<StoryCardProps>(({
                 />
               )}
 
+              {isPoll && <PollOptions poll={story} viewMode="full" />}
+
               {/* Show summary for URL-only stories */}
               {!story.text && story.url && (
                 <div className="story-summary">
@@ -303,13 +378,25 @@ export const StoryCard = React.memo<StoryCardProps>(({
                 {story.score && (
                   <span className="story-points">{story.score} points</span>
                 )}
-                {story.descendants && (
-                  <button 
-                    className="story-comments-btn"
-                    onClick={() => onToggleComments(story.id)}
-                  >
-                    {story.descendants} comments
-                  </button>
+                {isJob && (
+                  <span className="story-job-label">Job posting</span>
+                )}
+                {!isJob && !!story.descendants && (
+                  <>
+                    <a href={itemHref} className="story-comments-btn">
+                      {story.descendants} comments
+                    </a>
+                    {newCommentsBadge}
+                    {onToggleComments && (
+                      <button
+                        className="story-comments-toggle"
+                        onClick={() => onToggleComments(story.id)}
+                        aria-expanded={isExpanded}
+                      >
+                        {isExpanded ? 'Hide inline' : 'Show inline'}
+                      </button>
+                    )}
+                  </>
                 )}
               </div>
 
@@ -336,10 +423,10 @@ export const StoryCard = React.memo<StoryCardProps>(({
             </div>
 
             {/* Comments for Full View - Inside Card - Only mount when expanded */}
-            {expandedStory === story.id && (
+            {isExpanded && (
               <div className="full-comments-section">
                 <CommentsErrorBoundary>
-                  <Comments storyId={story.id} key={story.id} />
+                  <Comments storyId={story.id} descendants={story.descendants} key={story.id} />
                 </CommentsErrorBoundary>
               </div>
             )}
@@ -349,13 +436,15 @@ export const StoryCard = React.memo<StoryCardProps>(({
     </div>
   );
 }, (prevProps, nextProps) => {
-  return prevProps.story.id === nextProps.story.id &&
+  return prevProps.story === nextProps.story &&
          prevProps.viewMode === nextProps.viewMode &&
          prevProps.expandedStory === nextProps.expandedStory &&
          prevProps.summary === nextProps.summary &&
          prevProps.loadingSummary === nextProps.loadingSummary &&
          prevProps.summaryFailed === nextProps.summaryFailed &&
          prevProps.isHidden === nextProps.isHidden &&
-         prevProps.showingHidden === nextProps.showingHidden;
+         prevProps.showingHidden === nextProps.showingHidden &&
+         prevProps.mutedReason === nextProps.mutedReason &&
+         prevProps.partial === nextProps.partial;
   // Note: Callback functions are compared by reference but wrapped in useCallback in parent
 });
\ No newline at end of file
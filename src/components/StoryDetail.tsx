@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { hackerNewsApi, type HackerNewsItem } from '../services/hackerNewsApi';
+import { useHiddenArticles } from '../hooks/useHiddenArticles';
+import { StoryCard } from './StoryCard';
+import { Comments } from './Comments';
+import { ReaderView } from './ReaderView';
+import { StoryErrorBoundary, CommentsErrorBoundary } from './ErrorBoundary';
+
+interface StoryDetailProps {
+  storyId: number;
+  backHref: string;
+}
+
+// Standalone item page: one story with its full discussion
+export const StoryDetail = React.memo<StoryDetailProps>(({ storyId, backHref }) => {
+  const [story, setStory] = useState<HackerNewsItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [summary, setSummary] = useState<string | undefined>(undefined);
+  const [loadingSummary, setLoadingSummary] = useState(false);
+  const [summaryFailed, setSummaryFailed] = useState(false);
+  const [showReader, setShowReader] = useState(false);
+
+  const { hideArticle, showArticle, isArticleHidden } = useHiddenArticles();
+
+  const loadStory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setNotFound(false);
+      const item = await hackerNewsApi.getItem(storyId);
+      if (!item || item.deleted || item.type === 'comment' || item.type === 'pollopt') {
+        setStory(null);
+        setNotFound(true);
+        return;
+      }
+      setStory(item);
+    } catch (err) {
+      setError('Failed to load story. Please try again later.');
+      console.error(`Error loading story ${storyId}:`, err);
+    } finally {
+      setLoading(false);
+    }
+  }, [storyId]);
+
+  const loadSummary = useCallback(async (url: string) => {
+    setLoadingSummary(true);
+    setSummaryFailed(false);
+    try {
+      const result = await hackerNewsApi.getArticleSummary(url);
+      if (result) {
+        setSummary(result);
+      } else {
+        setSummaryFailed(true);
+      }
+    } catch (err) {
+      console.warn(`[Summary] Failed to load summary for story ${storyId}:`, err);
+      setSummaryFailed(true);
+    } finally {
+      setLoadingSummary(false);
+    }
+  }, [storyId]);
+
+  useEffect(() => {
+    setSummary(undefined);
+    setSummaryFailed(false);
+    setShowReader(false);
+    loadStory();
+  }, [loadStory]);
+
+  useEffect(() => {
+    if (story?.url && !story.text) {
+      loadSummary(story.url);
+    }
+  }, [story, loadSummary]);
+
+  const retrySummary = useCallback(() => {
+    if (story?.url) {
+      loadSummary(story.url);
+    }
+  }, [story, loadSummary]);
+
+  const backLink = (
+    <nav className="story-detail-nav" aria-label="Story navigation">
+      <a href={backHref} className="story-detail-back">
+        ← Back to stories
+      </a>
+    </nav>
+  );
+
+  if (loading) {
+    return (
+      <div className="story-detail">
+        {backLink}
+        <div className="loading">Loading story...</div>
+      </div>
+    );
+  }
+
+  if (notFound) {
+    return (
+      <div className="story-detail">
+        {backLink}
+        <div className="error">Story not found.</div>
+      </div>
+    );
+  }
+
+  if (error || !story) {
+    return (
+      <div className="story-detail">
+        {backLink}
+        <div className="error">
+          {error}
+          <button className="retry-button-small" onClick={loadStory} type="button">
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isJob = story.type === 'job';
+  const readerOpen = showReader && !!story.url;
+
+  return (
+    <div className={`story-detail${readerOpen ? ' reader-open' : ''}`}>
+      <div className="story-detail-toolbar">
+        {backLink}
+        {story.url && (
+          <button
+            className="reader-toggle"
+            onClick={() => setShowReader(open => !open)}
+            aria-pressed={readerOpen}
+            type="button"
+          >
+            📖 Reader view
+          </button>
+        )}
+      </div>
+
+      <StoryErrorBoundary>
+        <StoryCard
+          story={story}
+          viewMode="full"
+          expandedStory={null}
+          summary={summary}
+          loadingSummary={loadingSummary}
+          summaryFailed={summaryFailed}
+          onHideArticle={hideArticle}
+          onShowArticle={showArticle}
+          onRetrySummary={retrySummary}
+          isHidden={isArticleHidden(story.id)}
+          showingHidden={true}
+        />
+      </StoryErrorBoundary>
+
+      <div className="story-detail-body">
+        {readerOpen && <ReaderView url={story.url!} />}
+
+        {!isJob && (
+          <section className="story-detail-comments" aria-label="Discussion">
+            <h3 className="story-detail-comments-title">
+              {story.descendants || 0} comment{story.descendants !== 1 ? 's' : ''}
+            </h3>
+            <CommentsErrorBoundary>
+              <Comments storyId={story.id} descendants={story.descendants} key={story.id} />
+            </CommentsErrorBoundary>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+});
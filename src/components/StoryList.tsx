@@ -1,23 +1,86 @@
-import React, { useEffect, useCallback, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef, useMemo } from 'react';
+import { List, useDynamicRowHeight, useListRef } from 'react-window';
+import type { RowComponentProps } from 'react-window';
 import type { HackerNewsItem } from '../services/hackerNewsApi';
-import type { ViewMode, SortMode } from '../types/ui';
+import type { ViewMode, SortMode, SortDirection, StoryFilters } from '../types/ui';
 import { useStoryData } from '../hooks/useStoryData';
 import { useStoryListState } from '../hooks/useStoryListState';
 import { useHiddenArticles } from '../hooks/useHiddenArticles';
+import { useMuteRules } from '../hooks/useMuteRules';
+import { useLiveUpdates } from '../hooks/useLiveUpdates';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import { useKeyboardNavigation, useKeyboardShortcuts } from '../hooks/useKeyboardNavigation';
+import { getSavedStories, saveStory, unsaveStory } from '../hooks/useReadingList';
+import { routeToHref } from '../hooks/useRoute';
+import { clearCachedData, getOfflineStatus } from '../utils/offlineStatus';
 import { StoryCard } from './StoryCard';
 import { StoryErrorBoundary } from './ErrorBoundary';
 import { hackerNewsApi } from '../services/hackerNewsApi';
+import { sortStories, getStoryDomain } from '../utils/storySort';
+import { filterStories, countActiveFilters, DEFAULT_FILTERS } from '../utils/storyFilters';
+import { describeMuteRule } from '../utils/muteRules';
+import { sanitizeUrl } from '../utils/security';
+import type { MuteRule } from '../types/ui';
 
 interface StoryListProps {
   category?: string;
   viewMode: ViewMode;
   sortMode: SortMode;
+  sortDirection?: SortDirection;
+  filters?: StoryFilters;
   showHiddenArticles?: boolean;
+  liveUpdates?: boolean;
+  // Load pages automatically when the end of the list comes into view
+  infiniteScroll?: boolean;
+  // False while the list is kept mounted behind another route
+  active?: boolean;
+  // Screen reader announcements for keyboard shortcuts
+  onAnnounce?: (message: string) => void;
 }
 
-export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMode, sortMode, showHiddenArticles = false }) => {
+// Starting estimates per view mode; rows are measured once rendered
+const ESTIMATED_ROW_HEIGHTS: Record<ViewMode, number> = {
+  title: 56,
+  compact: 140,
+  full: 280,
+};
+
+interface StoryRowProps {
+  renderRow: (index: number) => React.ReactNode;
+}
+
+const StoryRow = ({ index, style, ariaAttributes, renderRow }: RowComponentProps<StoryRowProps>) => (
+  <div style={style} {...ariaAttributes}>
+    {renderRow(index)}
+  </div>
+);
+
+// In infinite-scroll mode, the next page is fetched into the cache once the
+// reader is this many rows from the end
+const PREFETCH_ROWS = 10;
+
+const noop = () => {};
+
+// "3 new stories · ranks changed"
+const describeLiveChanges = (newStoryCount: number, ranksChanged: boolean) => {
+  const parts: string[] = [];
+  if (newStoryCount > 0) {
+    parts.push(`${newStoryCount} new ${newStoryCount === 1 ? 'story' : 'stories'}`);
+  }
+  if (ranksChanged) {
+    parts.push('ranks changed');
+  }
+  return parts.join(' · ');
+};
+
+export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMode, sortMode, sortDirection = 'desc', filters = DEFAULT_FILTERS, showHiddenArticles = false, liveUpdates = false, infiniteScroll = false, active = true, onAnnounce = noop }) => {
   const {
     stories,
+    storyIds,
+    applyItemUpdates,
+    refreshStories,
+    prefetchNextPage,
+    loadMoreError,
     loading,
     error,
     loadStories,
@@ -27,13 +90,75 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
     totalCount
   } = useStoryData(category);
 
-  const { hideArticle, showArticle, isArticleHidden } = useHiddenArticles();
+  const loadedIds = useMemo(() => stories.map(story => story.id), [stories]);
+  const { newStoryCount, ranksChanged } = useLiveUpdates({
+    enabled: liveUpdates,
+    category,
+    storyIds,
+    loadedIds,
+    onItemsUpdated: applyItemUpdates,
+  });
+
+  // Coming back online revalidates in the background: stories served from the
+  // offline cache are swapped for fresh ones, and a failed load is retried
+  const { online } = useOfflineStatus();
+  const wasOnline = useRef(online);
+  useEffect(() => {
+    if (online && !wasOnline.current) {
+      if (error) {
+        loadStories();
+      } else if (getOfflineStatus().cachedSince !== null) {
+        clearCachedData();
+        refreshStories();
+      }
+    }
+    wasOnline.current = online;
+  }, [online, error, loadStories, refreshStories]);
+
+  const { hiddenArticles, hideArticle, showArticle, isArticleHidden } = useHiddenArticles();
+  const { findStoryMatch, recordSuppressed } = useMuteRules();
+
+  // Mute rules are re-applied to every loaded story whenever the rules change
+  const mutedStories = useMemo(() => {
+    const muted = new Map<number, MuteRule>();
+    stories.forEach(story => {
+      const rule = findStoryMatch(story);
+      if (rule) muted.set(story.id, rule);
+    });
+    return muted;
+  }, [stories, findStoryMatch]);
+
+  useEffect(() => {
+    mutedStories.forEach((rule, storyId) => recordSuppressed(rule.id, storyId));
+  }, [mutedStories, recordSuppressed]);
 
   // Restore complex state management for summary loading
   const { state, actions } = useStoryListState();
   const observerRef = useRef<IntersectionObserver | null>(null);
   const observedElements = useRef<Map<number, Element>>(new Map());
 
+  // Only the rows near the viewport are mounted; heights are re-measured per view mode
+  const listRef = useListRef(null);
+  const rowHeight = useDynamicRowHeight({ defaultRowHeight: ESTIMATED_ROW_HEIGHTS[viewMode], key: viewMode });
+
+  // The list scrolls internally, and hiding it resets that offset, so keep our own
+  const listScrollTop = useRef(0);
+  const activeRef = useRef(active);
+  activeRef.current = active;
+
+  const handleListScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    if (activeRef.current) {
+      listScrollTop.current = event.currentTarget.scrollTop;
+    }
+  }, []);
+
+  useLayoutEffect(() => {
+    const element = listRef.current?.element;
+    if (active && element) {
+      element.scrollTop = listScrollTop.current;
+    }
+  }, [active, listRef]);
+
   // Use state management for expanded story instead of local state
   const expandedStory = state.expandedStory;
 
@@ -49,22 +174,24 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
   const visibleStories = useMemo(() => {
     let filteredStories = stories;
 
-    // Filter by hidden state
+    // Filter by hidden state and mute rules
     if (!showHiddenArticles) {
-      filteredStories = stories.filter(story => !isArticleHidden(story.id));
+      filteredStories = stories.filter(story => !hiddenArticles.has(story.id) && !mutedStories.has(story.id));
     }
 
-    // Apply sorting
-    if (sortMode === 'comments') {
-      return [...filteredStories].sort((a, b) => {
-        const aComments = a.descendants || 0;
-        const bComments = b.descendants || 0;
-        return bComments - aComments; // Sort by comment count descending
-      });
-    }
+    // Filters run over every loaded page, including ones added by Load More
+    filteredStories = filterStories(filteredStories, filters);
 
-    return filteredStories; // Default order (as received from API)
-  }, [stories, isArticleHidden, showHiddenArticles, sortMode]);
+    // Default order keeps stories as received from the API
+    return sortStories(filteredStories, sortMode, sortDirection);
+  }, [stories, hiddenArticles, mutedStories, showHiddenArticles, filters, sortMode, sortDirection]);
+
+  const filtersActive = countActiveFilters(filters) > 0;
+
+  // Keyboard cursor for the j/k shortcuts, shown once the reader starts using them
+  const { selectedIndex, setSelectedIndex } = useKeyboardNavigation({ items: visibleStories, loop: false });
+  const [cursorActive, setCursorActive] = useState(false);
+  const selectedStory = cursorActive ? visibleStories[selectedIndex] : undefined;
 
 
   useEffect(() => {
@@ -84,7 +211,12 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
     }
     elements.clear();
     actionsRef.current.clearAllState(); // Reset all state including expanded story on category change
-  }, [category]); // Don't include actions - it recreates on every state change
+    setCursorActive(false);
+    setSelectedIndex(0);
+    listScrollTop.current = 0;
+    const listElement = listRef.current?.element;
+    if (listElement) listElement.scrollTop = 0;
+  }, [category, listRef, setSelectedIndex]); // Don't include actions - it recreates on every state change
 
   // Load summary function - stable callback using refs
   const loadSummary = useCallback(async (story: HackerNewsItem) => {
@@ -140,7 +272,7 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
           }
         });
       },
-      { rootMargin: '100px' }
+      { root: listRef.current?.element ?? null, rootMargin: '100px' }
     );
 
     observerRef.current = observer;
@@ -154,7 +286,34 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
       observer.disconnect();
       observerRef.current = null;
     };
-  }, [visibleStories, loadSummary]);
+  }, [visibleStories, loadSummary, listRef]);
+
+  // Infinite scroll: a sentinel in the last row loads the next page when it nears the viewport
+  const [sentinel, setSentinel] = useState<HTMLDivElement | null>(null);
+  const loadMoreRef = useRef(loadMoreStories);
+  loadMoreRef.current = loadMoreStories;
+
+  useEffect(() => {
+    if (!infiniteScroll || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          loadMoreRef.current();
+        }
+      },
+      { root: listRef.current?.element ?? null, rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [infiniteScroll, sentinel, listRef]);
+
+  const handleRowsRendered = useCallback(({ stopIndex }: { startIndex: number; stopIndex: number }) => {
+    if (infiniteScroll && stopIndex >= visibleStories.length - PREFETCH_ROWS) {
+      prefetchNextPage();
+    }
+  }, [infiniteScroll, visibleStories.length, prefetchNextPage]);
 
   const toggleComments = useCallback((storyId: number) => {
     actionsRef.current.toggleStoryExpansion(storyId);
@@ -172,6 +331,68 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
     loadSummary(story);
   }, [visibleStories, loadSummary]);
 
+  const moveSelection = (delta: 1 | -1) => {
+    if (visibleStories.length === 0) return;
+    const index = cursorActive
+      ? Math.min(Math.max(selectedIndex + delta, 0), visibleStories.length - 1)
+      : 0;
+    setCursorActive(true);
+    setSelectedIndex(index);
+    listRef.current?.scrollToRow({ index, align: 'smart' });
+    onAnnounce(`Story ${index + 1} of ${visibleStories.length}: ${visibleStories[index].title}`);
+  };
+
+  const openDiscussion = (story: HackerNewsItem) => {
+    window.location.hash = routeToHref({ name: 'item', id: story.id });
+  };
+
+  // Story shortcuts act on the keyboard cursor; see KeyboardShortcutsHelp
+  useKeyboardShortcuts({
+    j: () => moveSelection(1),
+    k: () => moveSelection(-1),
+    o: () => {
+      if (!selectedStory) return;
+      onAnnounce(`Opening ${selectedStory.title}`);
+      if (selectedStory.url) {
+        window.open(sanitizeUrl(selectedStory.url), '_blank', 'noopener,noreferrer');
+      } else {
+        openDiscussion(selectedStory);
+      }
+    },
+    c: () => {
+      if (!selectedStory) return;
+      if (selectedStory.type === 'job') {
+        onAnnounce('Job postings have no comments');
+      } else if (viewMode === 'title') {
+        // The title view has no inline comments, so open the discussion page
+        openDiscussion(selectedStory);
+      } else {
+        onAnnounce(expandedStory === selectedStory.id ? 'Comments hidden' : 'Comments shown');
+        toggleComments(selectedStory.id);
+      }
+    },
+    h: () => {
+      if (!selectedStory) return;
+      if (isArticleHidden(selectedStory.id)) {
+        showArticle(selectedStory.id);
+        onAnnounce('Story restored');
+      } else {
+        hideArticle(selectedStory.id);
+        onAnnounce('Story hidden');
+      }
+    },
+    s: () => {
+      if (!selectedStory) return;
+      if (getSavedStories().some(entry => entry.id === selectedStory.id)) {
+        unsaveStory(selectedStory.id);
+        onAnnounce('Removed from reading list');
+      } else {
+        saveStory(selectedStory);
+        onAnnounce('Saved to reading list');
+      }
+    },
+  }, active && !loading && !error);
+
   // Story ref callback for intersection observer
   const storyRef = useCallback((node: HTMLDivElement | null, storyId: number) => {
     if (node) {
@@ -187,6 +408,68 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
     }
   }, []);
 
+  // The row after the last story holds the Load More controls (or the
+  // infinite-scroll sentinel) and the retry button when a page fails
+  const renderRow = (index: number) => {
+    if (index === visibleStories.length) {
+      return (
+        <div className="load-more-section">
+          <div className="story-count">
+            Showing {visibleStories.length} of {totalCount} stories
+            {filtersActive && ` (${stories.length} loaded, filtered)`}
+          </div>
+          {loadMoreError && (
+            <div className="load-more-error" role="alert">{loadMoreError}</div>
+          )}
+          {infiniteScroll && !loadMoreError ? (
+            <div ref={setSentinel} className="infinite-scroll-sentinel" aria-live="polite">
+              {loadingMore ? 'Loading more stories...' : ''}
+            </div>
+          ) : (
+            <button
+              className="load-more-btn"
+              onClick={loadMoreStories}
+              disabled={loadingMore}
+            >
+              {loadingMore ? 'Loading...' : loadMoreError ? 'Retry' : 'Load More Stories'}
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    const story = visibleStories[index];
+    const isSelected = story === selectedStory;
+    return (
+      <div
+        ref={(node) => storyRef(node, story.id)}
+        className={isSelected ? 'keyboard-selected' : undefined}
+        aria-current={isSelected || undefined}
+      >
+        {sortMode === 'domain' && (index === 0 || getStoryDomain(visibleStories[index - 1]) !== getStoryDomain(story)) && (
+          <h3 className="story-domain-group">{getStoryDomain(story)}</h3>
+        )}
+        <StoryErrorBoundary key={story.id}>
+          <StoryCard
+            story={story}
+            viewMode={viewMode}
+            expandedStory={expandedStory}
+            summary={state.summaries.get(story.id)}
+            loadingSummary={state.loadingSummaries.has(story.id)}
+            summaryFailed={state.failedSummaries.has(story.id)}
+            onToggleComments={toggleComments}
+            onHideArticle={hideArticle}
+            onShowArticle={showArticle}
+            onRetrySummary={retrySummary}
+            isHidden={isArticleHidden(story.id)}
+            showingHidden={showHiddenArticles}
+            mutedReason={mutedStories.has(story.id) ? describeMuteRule(mutedStories.get(story.id)!) : undefined}
+          />
+        </StoryErrorBoundary>
+      </div>
+    );
+  };
+
   if (loading) {
     return <div className="loading">Loading stories...</div>;
   }
@@ -197,47 +480,44 @@ export const StoryList = React.memo<StoryListProps>(({ category = 'top', viewMod
 
   return (
     <div className="stories-container">
-      {visibleStories.map((story) => (
-        <div key={story.id} ref={(node) => storyRef(node, story.id)}>
-          <StoryErrorBoundary>
-            <StoryCard
-              story={story}
-              viewMode={viewMode}
-              expandedStory={expandedStory}
-              summary={state.summaries.get(story.id)}
-              loadingSummary={state.loadingSummaries.has(story.id)}
-              summaryFailed={state.failedSummaries.has(story.id)}
-              onToggleComments={toggleComments}
-              onHideArticle={hideArticle}
-              onShowArticle={showArticle}
-              onRetrySummary={retrySummary}
-              isHidden={isArticleHidden(story.id)}
-              showingHidden={showHiddenArticles}
-            />
-          </StoryErrorBoundary>
+      {(newStoryCount > 0 || ranksChanged) && (
+        <div className="live-update-banner" role="status">
+          <span>{describeLiveChanges(newStoryCount, ranksChanged)}</span>
+          <button className="live-update-show" onClick={() => refreshStories()}>
+            Show
+          </button>
         </div>
-      ))}
+      )}
 
-      {/* Load More Section */}
-      {hasMoreStories && (
-        <div className="load-more-section">
-          <div className="story-count">
-            Showing {visibleStories.length} of {totalCount} stories
-          </div>
-          <button
-            className="load-more-btn"
-            onClick={loadMoreStories}
-            disabled={loadingMore}
-          >
-            {loadingMore ? 'Loading...' : 'Load More Stories'}
-          </button>
+      {filtersActive && visibleStories.length === 0 && (
+        <div className="filter-empty">
+          No loaded stories match the current filters.
         </div>
       )}
+
+      <List
+        className="stories-viewport"
+        listRef={listRef}
+        rowComponent={StoryRow}
+        rowCount={visibleStories.length + (hasMoreStories ? 1 : 0)}
+        rowHeight={rowHeight}
+        rowProps={{ renderRow }}
+        defaultHeight={window.innerHeight}
+        overscanCount={4}
+        onScroll={handleListScroll}
+        onRowsRendered={handleRowsRendered}
+      />
     </div>
   );
 }, (prevProps, nextProps) => {
   return prevProps.category === nextProps.category &&
          prevProps.viewMode === nextProps.viewMode &&
          prevProps.sortMode === nextProps.sortMode &&
-         prevProps.showHiddenArticles === nextProps.showHiddenArticles;
+         prevProps.sortDirection === nextProps.sortDirection &&
+         prevProps.filters === nextProps.filters &&
+         prevProps.showHiddenArticles === nextProps.showHiddenArticles &&
+         prevProps.liveUpdates === nextProps.liveUpdates &&
+         prevProps.infiniteScroll === nextProps.infiniteScroll &&
+         prevProps.active === nextProps.active &&
+         prevProps.onAnnounce === nextProps.onAnnounce;
 });
\ No newline at end of file
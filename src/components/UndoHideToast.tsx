@@ -0,0 +1,31 @@
+import React, { useEffect } from 'react';
+import { useHiddenArticles } from '../hooks/useHiddenArticles';
+
+export const UNDO_HIDE_TIMEOUT_MS = 6000;
+
+// Offers a short window to bring back a story hidden by mistake
+export const UndoHideToast = React.memo(() => {
+  const { recentlyHidden, undoHide, dismissUndoHide } = useHiddenArticles();
+
+  useEffect(() => {
+    if (recentlyHidden === null) return;
+    const timer = setTimeout(dismissUndoHide, UNDO_HIDE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [recentlyHidden, dismissUndoHide]);
+
+  if (recentlyHidden === null) {
+    return null;
+  }
+
+  return (
+    <div className="undo-toast" role="status">
+      <span>Story hidden.</span>
+      <button className="undo-toast-action" onClick={undoHide} type="button">
+        Undo
+      </button>
+      <button className="undo-toast-close" onClick={dismissUndoHide} type="button" aria-label="Dismiss">
+        ×
+      </button>
+    </div>
+  );
+});
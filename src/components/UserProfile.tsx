@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { hackerNewsApi, type HackerNewsItem } from '../services/hackerNewsApi';
+import type { HackerNewsUser } from '../types/api';
+import type { ViewMode } from '../types/ui';
+import { useHiddenArticles } from '../hooks/useHiddenArticles';
+import { StoryCard } from './StoryCard';
+import { StoryErrorBoundary } from './ErrorBoundary';
+import { sanitizeHtml } from '../utils/dompurify';
+
+interface UserProfileProps {
+  userId: string;
+  viewMode: ViewMode;
+}
+
+const SUBMISSIONS_PER_PAGE = 20;
+
+const formatTimeAgo = (timestamp: number): string => {
+  return formatDistanceToNow(new Date(timestamp * 1000), { addSuffix: true });
+};
+
+const sanitizeConfig = {
+  ALLOWED_TAGS: ['a', 'p', 'i', 'code', 'pre', 'br'],
+  ALLOWED_ATTR: ['href']
+};
+
+const UserComment = ({ comment }: { comment: HackerNewsItem }) => (
+  <div className="comment level-0 user-comment">
+    <div className="comment-header">
+      <span className="comment-author">{comment.by}</span>
+      {' • '}
+      <span>{formatTimeAgo(comment.time)}</span>
+      {' • '}
+      <a
+        href={`https://news.ycombinator.com/item?id=${comment.id}`}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        context
+      </a>
+    </div>
+    <div
+      className="comment-text"
+      dangerouslySetInnerHTML={{ __html: sanitizeHtml(comment.text || '', sanitizeConfig) }}
+    />
+  </div>
+);
+
+export const UserProfile = React.memo<UserProfileProps>(({ userId, viewMode }) => {
+  const [user, setUser] = useState<HackerNewsUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submissions, setSubmissions] = useState<HackerNewsItem[]>([]);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [loadingSubmissions, setLoadingSubmissions] = useState(false);
+  const [submissionsError, setSubmissionsError] = useState<string | null>(null);
+
+  const { hideArticle, showArticle, isArticleHidden } = useHiddenArticles();
+
+  // Bumped whenever a profile starts loading; responses from an older
+  // generation belong to a profile that is no longer shown
+  const generationRef = useRef(0);
+
+  const loadSubmissionsPage = useCallback(async (profile: HackerNewsUser, start: number) => {
+    const ids = (profile.submitted || []).slice(start, start + SUBMISSIONS_PER_PAGE);
+    if (ids.length === 0) return;
+
+    const generation = generationRef.current;
+    try {
+      setLoadingSubmissions(true);
+      setSubmissionsError(null);
+      const items = await hackerNewsApi.getItems(ids);
+      if (generation !== generationRef.current) return;
+      setSubmissions(prev => [...prev, ...items.filter(item => !item.deleted && !item.dead)]);
+      setLoadedCount(start + ids.length);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      setSubmissionsError('Failed to load submissions.');
+      console.error(`Error loading submissions for ${profile.id}:`, err);
+    } finally {
+      if (generation === generationRef.current) setLoadingSubmissions(false);
+    }
+  }, []);
+
+  const loadUser = useCallback(async () => {
+    const generation = ++generationRef.current;
+    setLoading(true);
+    setNotFound(false);
+    setError(null);
+    setUser(null);
+    setSubmissions([]);
+    setLoadedCount(0);
+    setLoadingSubmissions(false);
+    setSubmissionsError(null);
+
+    try {
+      const profile = await hackerNewsApi.getUser(userId);
+      if (generation !== generationRef.current) return;
+      if (!profile) {
+        setNotFound(true);
+        return;
+      }
+      setUser(profile);
+      loadSubmissionsPage(profile, 0);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      setError('Failed to load user. Please try again later.');
+      console.error(`Error loading user ${userId}:`, err);
+    } finally {
+      if (generation === generationRef.current) setLoading(false);
+    }
+  }, [userId, loadSubmissionsPage]);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  if (loading) {
+    return (
+      <div className="user-profile">
+        <div className="loading">Loading user...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="user-profile">
+        <div className="error">
+          {error}
+          <button className="retry-button-small" onClick={loadUser} type="button">
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound || !user) {
+    return (
+      <div className="user-profile">
+        <div className="error">User not found.</div>
+      </div>
+    );
+  }
+
+  const totalSubmitted = user.submitted?.length || 0;
+
+  return (
+    <div className="user-profile">
+      <section className="user-profile-card" aria-label={`Profile of ${user.id}`}>
+        <h2 className="user-profile-name">{user.id}</h2>
+        <dl className="user-profile-stats">
+          <dt>Karma</dt>
+          <dd>{user.karma.toLocaleString()}</dd>
+          <dt>Created</dt>
+          <dd>{formatTimeAgo(user.created)}</dd>
+          <dt>Submissions</dt>
+          <dd>{totalSubmitted.toLocaleString()}</dd>
+        </dl>
+        {user.about && (
+          <div
+            className="user-profile-about"
+            dangerouslySetInnerHTML={{ __html: sanitizeHtml(user.about, sanitizeConfig) }}
+          />
+        )}
+        <a
+          href={`https://news.ycombinator.com/user?id=${encodeURIComponent(user.id)}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="story-action-link"
+        >
+          View on HN
+        </a>
+      </section>
+
+      <section className="user-profile-submissions" aria-label="Recent submissions">
+        <h3 className="story-detail-comments-title">Recent submissions</h3>
+        {submissions.map(item => (
+          <StoryErrorBoundary key={item.id}>
+            {item.type === 'comment' ? (
+              <UserComment comment={item} />
+            ) : (
+              <StoryCard
+                story={item}
+                viewMode={viewMode}
+                expandedStory={null}
+                onHideArticle={hideArticle}
+                onShowArticle={showArticle}
+                isHidden={isArticleHidden(item.id)}
+                showingHidden={true}
+              />
+            )}
+          </StoryErrorBoundary>
+        ))}
+
+        {submissionsError && <div className="error">{submissionsError}</div>}
+
+        {loadedCount < totalSubmitted && (
+          <div className="load-more-section">
+            <div className="story-count">
+              Checked {loadedCount} of {totalSubmitted} submissions
+            </div>
+            <button
+              className="load-more-btn"
+              onClick={() => loadSubmissionsPage(user, loadedCount)}
+              disabled={loadingSubmissions}
+            >
+              {loadingSubmissions ? 'Loading...' : 'Load More Submissions'}
+            </button>
+          </div>
+        )}
+
+        {loadedCount >= totalSubmitted && submissions.length === 0 && !loadingSubmissions && (
+          <p>No submissions.</p>
+        )}
+      </section>
+    </div>
+  );
+});
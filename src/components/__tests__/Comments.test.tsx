@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import { Comments } from '../Comments';
 import { hackerNewsApi } from '../../services/hackerNewsApi';
 import { commentsCache } from '../commentsUtils';
+import { addMuteRule } from '../../hooks/useMuteRules';
+import { VISITED_STORIES_KEY, getStoryVisit, resetVisitedStoriesStore } from '../../hooks/useVisitedStories';
+import { updateCommentOptions, getCommentOptions } from '../../hooks/useCommentOptions';
 
 // Mock the hackerNewsApi module
 vi.mock('../../services/hackerNewsApi', () => ({
@@ -229,6 +232,32 @@ describe('Comments Component', () => {
       });
     });
 
+    it('indents replies by their full depth past the last border level', async () => {
+      // 300 is the only top-level comment; each reply below it nests one level deeper
+      const chain = [300, 301, 302, 303, 304, 305, 306];
+      mockGetItem.mockImplementation((id: number) => {
+        if (id === 123) return Promise.resolve({ ...mockStory, kids: [300] });
+        const index = chain.indexOf(id);
+        if (index === -1) return Promise.resolve(null);
+        return Promise.resolve({
+          id,
+          type: 'comment' as const,
+          by: 'commenter',
+          time: 1640995260 + index,
+          text: `Reply at depth ${index}`,
+          parent: index === 0 ? 123 : chain[index - 1],
+          kids: index < chain.length - 1 ? [chain[index + 1]] : [],
+        });
+      });
+
+      render(<Comments storyId={123} maxDepth={Infinity} />);
+
+      const deepest = (await screen.findByText('Reply at depth 6')).closest('.comment') as HTMLElement;
+      expect(deepest).toHaveClass('level-4');
+      expect(deepest.style.getPropertyValue('--depth')).toBe('6');
+      expect((screen.getByText('Reply at depth 4').closest('.comment') as HTMLElement).style.getPropertyValue('--depth')).toBe('4');
+    });
+
     it('displays reply level information for nested comments', async () => {
       mockGetItem.mockImplementation((id: number) => {
         if (id === 123) return Promise.resolve(mockStory);
@@ -521,4 +550,278 @@ describe('Comments Component', () => {
       });
     });
   });
+
+  describe('Mute rules', () => {
+    it('holds back muted comments with the reason and reveals them on request', async () => {
+      addMuteRule('author', 'commenter1');
+      mockGetItem.mockImplementation((id: number) => {
+        if (id === 123) return Promise.resolve(mockStory);
+        if (id === 124) return Promise.resolve({ ...mockComment1, kids: [] });
+        if (id === 125) return Promise.resolve(mockComment2);
+        return Promise.resolve(null);
+      });
+
+      render(<Comments storyId={123} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('This is a great article!')).not.toBeInTheDocument();
+      expect(screen.getByText(/Muted by user commenter1/)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Show comment'));
+
+      expect(screen.getByText('This is a great article!')).toBeInTheDocument();
+    });
+  });
+
+  describe('New comments since last visit', () => {
+    const mockThread = () => {
+      mockGetItem.mockImplementation((id: number) => {
+        if (id === 123) return Promise.resolve(mockStory);
+        if (id === 124) return Promise.resolve({ ...mockComment1, kids: [] });
+        if (id === 125) return Promise.resolve(mockComment2);
+        return Promise.resolve(null);
+      });
+    };
+
+    it('highlights nothing on a first visit and records what was seen', async () => {
+      mockThread();
+
+      render(<Comments storyId={123} descendants={2} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+      expect(document.querySelector('.comment-new')).not.toBeInTheDocument();
+      expect(screen.queryByText(/since your last visit/)).not.toBeInTheDocument();
+
+      await waitFor(() => {
+        expect(getStoryVisit(123)).toMatchObject({ descendants: 2, seenCommentIds: [124, 125] });
+      });
+    });
+
+    it('highlights comments posted since the last visit and jumps between them', async () => {
+      // Last visit happened between the two comments and only saw the first one
+      localStorage.setItem(VISITED_STORIES_KEY, JSON.stringify({
+        123: { visitedAt: 1640995290000, descendants: 1, seenCommentIds: [124] },
+      }));
+      resetVisitedStoriesStore();
+      mockThread();
+
+      render(<Comments storyId={123} descendants={2} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('1 new comment since your last visit')).toBeInTheDocument();
+      });
+
+      const newComment = screen.getByText('I agree with the points made here.').closest('.comment');
+      expect(newComment).toHaveClass('comment-new');
+      expect(screen.getByText('This is a great article!').closest('.comment')).not.toHaveClass('comment-new');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Jump to next new comment' }));
+      expect(newComment).toHaveFocus();
+    });
+  });
+
+  describe('Thread controls', () => {
+    // 124 has reply 126; 125 has none
+    const mockFullThread = () => {
+      mockGetItem.mockImplementation((id: number) => {
+        if (id === 123) return Promise.resolve(mockStory);
+        if (id === 124) return Promise.resolve(mockComment1);
+        if (id === 125) return Promise.resolve(mockComment2);
+        if (id === 126) return Promise.resolve(mockNestedComment);
+        return Promise.resolve(null);
+      });
+    };
+
+    it('shows loaded descendant counts and collapses or expands every thread', async () => {
+      mockFullThread();
+
+      render(<Comments storyId={123} maxDepth={Infinity} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Thanks for sharing your thoughts!')).toBeInTheDocument();
+      });
+      expect(screen.getByText('This is a great article!').closest('.comment')!.querySelector('.comment-descendants'))
+        .toHaveTextContent('1 reply');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Collapse all' }));
+
+      expect(screen.queryByText('This is a great article!')).not.toBeInTheDocument();
+      expect(screen.queryByText('Thanks for sharing your thoughts!')).not.toBeInTheDocument();
+      expect(screen.getAllByRole('button', { name: 'Expand thread' })).toHaveLength(2);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Expand all' }));
+
+      expect(screen.getByText('Thanks for sharing your thoughts!')).toBeInTheDocument();
+    });
+
+    it('collapses the siblings of a comment', async () => {
+      mockFullThread();
+
+      render(<Comments storyId={123} maxDepth={Infinity} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+
+      const secondComment = screen.getByText('I agree with the points made here.').closest('.comment') as HTMLElement;
+      fireEvent.click(secondComment.querySelector('.collapse-siblings-button')!);
+
+      expect(screen.queryByText('This is a great article!')).not.toBeInTheDocument();
+      expect(screen.queryByText('Thanks for sharing your thoughts!')).not.toBeInTheDocument();
+      expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+    });
+
+    it('inserts lazily loaded replies under their parent', async () => {
+      mockFullThread();
+
+      render(<Comments storyId={123} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Load 1 replies' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Thanks for sharing your thoughts!')).toBeInTheDocument();
+      });
+      const order = Array.from(document.querySelectorAll('.comment')).map(element => element.getAttribute('data-comment-id'));
+      expect(order).toEqual(['124', '126', '125']);
+    });
+  });
+
+  describe('Display options', () => {
+    const mockFullThread = () => {
+      mockGetItem.mockImplementation((id: number) => {
+        if (id === 123) return Promise.resolve(mockStory);
+        if (id === 124) return Promise.resolve(mockComment1);
+        if (id === 125) return Promise.resolve(mockComment2);
+        if (id === 126) return Promise.resolve(mockNestedComment);
+        return Promise.resolve(null);
+      });
+    };
+
+    const renderedOrder = () =>
+      Array.from(document.querySelectorAll('.comment')).map(element => element.getAttribute('data-comment-id'));
+
+    it('sorts comments and remembers the choice', async () => {
+      mockFullThread();
+
+      render(<Comments storyId={123} maxDepth={Infinity} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Thanks for sharing your thoughts!')).toBeInTheDocument();
+      });
+      expect(renderedOrder()).toEqual(['124', '126', '125']);
+
+      fireEvent.change(screen.getByLabelText('Sort'), { target: { value: 'newest' } });
+
+      expect(renderedOrder()).toEqual(['125', '124', '126']);
+      expect(getCommentOptions().sort).toBe('newest');
+    });
+
+    it('lists every comment chronologically in the flat layout', async () => {
+      mockFullThread();
+      updateCommentOptions({ layout: 'flat', sort: 'newest' });
+
+      render(<Comments storyId={123} maxDepth={Infinity} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Thanks for sharing your thoughts!')).toBeInTheDocument();
+      });
+      expect(renderedOrder()).toEqual(['126', '125', '124']);
+      expect(document.querySelectorAll('.comment.level-0')).toHaveLength(3);
+      expect(screen.getByText('Thanks for sharing your thoughts!').closest('.comment')!.querySelector('.comment-reply-to'))
+        .toHaveTextContent('reply to commenter1');
+
+      fireEvent.change(screen.getByLabelText('Sort'), { target: { value: 'oldest' } });
+
+      expect(renderedOrder()).toEqual(['124', '125', '126']);
+    });
+
+    it('fetches replies up front to the configured initial depth', async () => {
+      mockFullThread();
+      updateCommentOptions({ initialDepth: 1 });
+
+      render(<Comments storyId={123} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Thanks for sharing your thoughts!')).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('button', { name: 'Load full thread' })).not.toBeInTheDocument();
+    });
+
+    it('hides the initial depth choice when the caller fixes the depth', async () => {
+      mockFullThread();
+
+      const { unmount } = render(<Comments storyId={123} />);
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+      expect(screen.getByLabelText('Initial replies')).toBeInTheDocument();
+      unmount();
+
+      render(<Comments storyId={123} maxDepth={Infinity} />);
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+      expect(screen.queryByLabelText('Initial replies')).not.toBeInTheDocument();
+    });
+
+    it('loads the full thread with a progress count', async () => {
+      let resolveNested: (item: typeof mockNestedComment) => void = () => {};
+      mockGetItem.mockImplementation((id: number) => {
+        if (id === 123) return Promise.resolve(mockStory);
+        if (id === 124) return Promise.resolve(mockComment1);
+        if (id === 125) return Promise.resolve(mockComment2);
+        if (id === 126) return new Promise(resolve => { resolveNested = resolve; });
+        return Promise.resolve(null);
+      });
+
+      render(<Comments storyId={123} descendants={3} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Load full thread' }));
+
+      expect(await screen.findByRole('status')).toHaveTextContent('Loading replies… 0 fetched (2 of 3)');
+      expect(screen.getByRole('button', { name: 'Load full thread' })).toBeDisabled();
+
+      resolveNested(mockNestedComment);
+
+      await waitFor(() => {
+        expect(screen.getByText('Thanks for sharing your thoughts!')).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('button', { name: 'Load full thread' })).not.toBeInTheDocument();
+      expect(renderedOrder()).toEqual(['124', '126', '125']);
+    });
+
+    it('reports replies that fail to load', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockGetItem.mockImplementation((id: number) => {
+        if (id === 123) return Promise.resolve(mockStory);
+        if (id === 124) return Promise.resolve(mockComment1);
+        if (id === 125) return Promise.resolve(mockComment2);
+        return Promise.reject(new Error('Network error'));
+      });
+
+      render(<Comments storyId={123} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('I agree with the points made here.')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Load full thread' }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Some replies could not be loaded.');
+      expect(screen.getByRole('button', { name: 'Load full thread' })).toBeEnabled();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { DataPanel } from '../DataPanel';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../../services/localBackup';
+import { PREFERENCES_VERSION, DEFAULT_PREFERENCES } from '../../hooks/usePreferences';
+import { getHiddenArticles, hideArticle } from '../../hooks/useHiddenArticles';
+
+const backupFile = (contents: string) => new File([contents], 'backup.json', { type: 'application/json' });
+
+const chooseFile = (file: File) => {
+  fireEvent.change(screen.getByLabelText('Import backup'), { target: { files: [file] } });
+};
+
+describe('DataPanel', () => {
+  it('should download a backup file', () => {
+    vi.useFakeTimers();
+    // jsdom has no object URLs
+    const createObjectURL = vi.fn(() => 'blob:backup');
+    const revokeObjectURL = vi.fn();
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = revokeObjectURL;
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    render(<DataPanel onImportPreferences={vi.fn()} onClose={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Export backup' }));
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    expect(click).toHaveBeenCalled();
+    // Revoked only once the download has had time to start
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:backup');
+    vi.useRealTimers();
+  });
+
+  it('should import a backup and report what changed', async () => {
+    const onImportPreferences = vi.fn();
+    hideArticle(1);
+
+    render(<DataPanel onImportPreferences={onImportPreferences} onClose={vi.fn()} />);
+    chooseFile(backupFile(JSON.stringify({
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      data: {
+        preferences: { version: PREFERENCES_VERSION, preferences: { viewMode: 'title' } },
+        hiddenArticles: [2, 3, 'x'],
+      },
+    })));
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Import complete.');
+    });
+    expect(screen.getByText('Preferences restored')).toBeInTheDocument();
+    expect(screen.getByText('Hidden articles: 2 added, 1 invalid skipped')).toBeInTheDocument();
+    expect(onImportPreferences).toHaveBeenCalledWith({ ...DEFAULT_PREFERENCES, viewMode: 'title' });
+    expect(getHiddenArticles().map(entry => entry.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should replace data when asked to', async () => {
+    hideArticle(1);
+
+    render(<DataPanel onImportPreferences={vi.fn()} onClose={vi.fn()} />);
+    fireEvent.click(screen.getByLabelText('Replace current data'));
+    chooseFile(backupFile(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, data: { hiddenArticles: [2] } })));
+
+    await waitFor(() => {
+      expect(screen.getByText('Hidden articles: 1 added')).toBeInTheDocument();
+    });
+    expect(getHiddenArticles().map(entry => entry.id)).toEqual([2]);
+  });
+
+  it('should explain why a file was rejected', async () => {
+    render(<DataPanel onImportPreferences={vi.fn()} onClose={vi.fn()} />);
+    chooseFile(backupFile('{"hello": "world"}'));
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('That file is not a SlashNews backup.');
+    });
+  });
+
+  it('should close on Escape', () => {
+    const onClose = vi.fn();
+    render(<DataPanel onImportPreferences={vi.fn()} onClose={onClose} />);
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
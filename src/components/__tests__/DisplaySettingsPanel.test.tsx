@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DisplaySettingsPanel } from '../DisplaySettingsPanel';
+import { DEFAULT_DISPLAY_SETTINGS } from '../../hooks/useDisplaySettings';
+
+describe('DisplaySettingsPanel', () => {
+  it('shows the current settings', () => {
+    render(
+      <DisplaySettingsPanel
+        display={{ ...DEFAULT_DISPLAY_SETTINGS, fontSize: 130, commentIndent: 20 }}
+        onDisplayChange={vi.fn()}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Font size')).toHaveValue('130');
+    expect(screen.getByLabelText('Line spacing')).toHaveValue('1');
+    expect(screen.getByLabelText('Content width')).toHaveValue('700');
+    expect(screen.getByLabelText('Reply indent')).toHaveValue('20');
+  });
+
+  it('reports changes as numbers', () => {
+    const onDisplayChange = vi.fn();
+    render(<DisplaySettingsPanel display={DEFAULT_DISPLAY_SETTINGS} onDisplayChange={onDisplayChange} onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Line spacing'), { target: { value: '1.2' } });
+    fireEvent.change(screen.getByLabelText('Content width'), { target: { value: '900' } });
+
+    expect(onDisplayChange).toHaveBeenNthCalledWith(1, { lineHeight: 1.2 });
+    expect(onDisplayChange).toHaveBeenNthCalledWith(2, { contentWidth: 900 });
+  });
+
+  it('resets to the defaults and closes on Escape', () => {
+    const onDisplayChange = vi.fn();
+    const onClose = vi.fn();
+    render(
+      <DisplaySettingsPanel
+        display={{ ...DEFAULT_DISPLAY_SETTINGS, fontSize: 150 }}
+        onDisplayChange={onDisplayChange}
+        onClose={onClose}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Reset to defaults'));
+    expect(onDisplayChange).toHaveBeenCalledWith(DEFAULT_DISPLAY_SETTINGS);
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FilterBar } from '../FilterBar';
+import { DEFAULT_FILTERS } from '../../utils/storyFilters';
+
+describe('FilterBar', () => {
+  const openFilters = () => {
+    fireEvent.click(screen.getByRole('button', { name: /Filters/ }));
+  };
+
+  it('starts collapsed', () => {
+    render(<FilterBar filters={DEFAULT_FILTERS} onFiltersChange={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: /Filters/ })).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByLabelText('Min points')).not.toBeInTheDocument();
+  });
+
+  it('updates numeric filters', () => {
+    const onFiltersChange = vi.fn();
+    render(<FilterBar filters={DEFAULT_FILTERS} onFiltersChange={onFiltersChange} />);
+    openFilters();
+
+    fireEvent.change(screen.getByLabelText('Min points'), { target: { value: '25' } });
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_FILTERS, minScore: 25 });
+
+    fireEvent.change(screen.getByLabelText('Min comments'), { target: { value: '-3' } });
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_FILTERS, minComments: 0 });
+  });
+
+  it('updates age and post type', () => {
+    const onFiltersChange = vi.fn();
+    render(<FilterBar filters={DEFAULT_FILTERS} onFiltersChange={onFiltersChange} />);
+    openFilters();
+
+    fireEvent.change(screen.getByLabelText('Max age'), { target: { value: '24' } });
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_FILTERS, maxAgeHours: 24 });
+
+    fireEvent.change(screen.getByLabelText('Post type'), { target: { value: 'text' } });
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_FILTERS, postType: 'text' });
+  });
+
+  it('parses domain lists while keeping the typed text', () => {
+    const onFiltersChange = vi.fn();
+    render(<FilterBar filters={DEFAULT_FILTERS} onFiltersChange={onFiltersChange} />);
+    openFilters();
+
+    const input = screen.getByLabelText('Exclude domains');
+    fireEvent.change(input, { target: { value: 'www.example.com, ' } });
+
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ ...DEFAULT_FILTERS, excludeDomains: ['example.com'] });
+    expect(input).toHaveValue('www.example.com, ');
+  });
+
+  it('shows the active count and clears all filters', () => {
+    const onFiltersChange = vi.fn();
+    render(
+      <FilterBar
+        filters={{ ...DEFAULT_FILTERS, minScore: 10, includeDomains: ['github.com'] }}
+        onFiltersChange={onFiltersChange}
+      />
+    );
+
+    expect(screen.getByText('(2 active)')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Clear filters'));
+
+    expect(onFiltersChange).toHaveBeenCalledWith(DEFAULT_FILTERS);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import { Header } from '../Header';
+import { DEFAULT_DISPLAY_SETTINGS } from '../../hooks/useDisplaySettings';
 
 const defaultProps = {
   currentCategory: 'top' as const,
@@ -9,11 +10,26 @@ const defaultProps = {
   onViewModeChange: vi.fn(),
   sortMode: 'default' as const,
   onSortModeChange: vi.fn(),
+  sortDirection: 'desc' as const,
+  onSortDirectionChange: vi.fn(),
   showAbout: false,
   onShowAbout: vi.fn(),
+  showSaved: false,
+  onShowSaved: vi.fn(),
+  savedUnreadCount: 0,
   showHiddenArticles: false,
   onToggleHiddenArticles: vi.fn(),
   onClearHiddenArticles: vi.fn(),
+  liveUpdates: false,
+  onToggleLiveUpdates: vi.fn(),
+  infiniteScroll: false,
+  onToggleInfiniteScroll: vi.fn(),
+  theme: 'system' as const,
+  onThemeChange: vi.fn(),
+  display: DEFAULT_DISPLAY_SETTINGS,
+  onDisplayChange: vi.fn(),
+  onImportPreferences: vi.fn(),
+  onSearch: vi.fn(),
 };
 
 describe('Header', () => {
@@ -29,6 +45,9 @@ describe('Header', () => {
     expect(screen.getByText('Top Stories')).toBeInTheDocument();
     expect(screen.getByText('New')).toBeInTheDocument();
     expect(screen.getByText('Best')).toBeInTheDocument();
+    expect(screen.getByText('Ask')).toBeInTheDocument();
+    expect(screen.getByText('Show')).toBeInTheDocument();
+    expect(screen.getByText('Jobs')).toBeInTheDocument();
   });
 
   it('should highlight the current category', () => {
@@ -52,6 +71,24 @@ describe('Header', () => {
     expect(mockOnCategoryChange).toHaveBeenCalledWith('best');
   });
 
+  it('should render categories and About as routable hrefs', () => {
+    render(<Header {...defaultProps} />);
+
+    expect(screen.getByText('Top Stories')).toHaveAttribute('href', '#/');
+    expect(screen.getByText('New')).toHaveAttribute('href', '#/new');
+    expect(screen.getByText('Best')).toHaveAttribute('href', '#/best');
+    expect(screen.getByText('Jobs')).toHaveAttribute('href', '#/jobs');
+    expect(screen.getByText('About')).toHaveAttribute('href', '#/about');
+  });
+
+  it('should not intercept modified clicks on category links', () => {
+    const mockOnCategoryChange = vi.fn();
+    render(<Header {...defaultProps} onCategoryChange={mockOnCategoryChange} />);
+
+    fireEvent.click(screen.getByText('New'), { ctrlKey: true });
+    expect(mockOnCategoryChange).not.toHaveBeenCalled();
+  });
+
   it('should render external links', () => {
     render(<Header {...defaultProps} />);
 
@@ -186,6 +223,50 @@ describe('Header', () => {
       expect(mockOnSortModeChange).toHaveBeenCalledWith('comments');
     });
 
+    it.each([
+      ['Sort by Points', 'points'],
+      ['Sort by Age', 'time'],
+      ['Sort by Hotness', 'hotness'],
+      ['Sort by Controversy', 'controversy'],
+      ['Group by Domain', 'domain'],
+    ])('should offer %s', (label, mode) => {
+      const mockOnSortModeChange = vi.fn();
+      render(<Header {...defaultProps} onSortModeChange={mockOnSortModeChange} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      fireEvent.click(screen.getByText(label));
+
+      expect(mockOnSortModeChange).toHaveBeenCalledWith(mode);
+    });
+
+    it('should hide direction options for the default order', () => {
+      render(<Header {...defaultProps} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+
+      expect(screen.queryByText('Ascending')).not.toBeInTheDocument();
+    });
+
+    it('should change sort direction', () => {
+      const mockOnSortDirectionChange = vi.fn();
+      render(<Header {...defaultProps} sortMode="points" onSortDirectionChange={mockOnSortDirectionChange} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      expect(screen.getByText('Descending').closest('button')).toHaveClass('active');
+      fireEvent.click(screen.getByText('Ascending'));
+
+      expect(mockOnSortDirectionChange).toHaveBeenCalledWith('asc');
+    });
+
+    it('should label directions as newest and oldest when sorting by age', () => {
+      render(<Header {...defaultProps} sortMode="time" />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+
+      expect(screen.getByText('Newest First')).toBeInTheDocument();
+      expect(screen.getByText('Oldest First')).toBeInTheDocument();
+    });
+
     it('should close dropdown after selecting sort mode', () => {
       render(<Header {...defaultProps} />);
 
@@ -202,6 +283,36 @@ describe('Header', () => {
     });
   });
 
+  describe('Theme Options', () => {
+    it('should show the theme choices as a radio group', () => {
+      render(<Header {...defaultProps} theme="dark" />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      const group = screen.getByRole('group', { name: 'Theme' });
+      const items = within(group).getAllByRole('menuitemradio');
+
+      expect(items.map(item => item.textContent)).toEqual([
+        expect.stringContaining('System Theme'),
+        expect.stringContaining('Light'),
+        expect.stringContaining('Dark'),
+        expect.stringContaining('High Contrast'),
+      ]);
+      expect(within(group).getByRole('menuitemradio', { name: /Dark/ })).toHaveAttribute('aria-checked', 'true');
+      expect(within(group).getByRole('menuitemradio', { name: /Light/ })).toHaveAttribute('aria-checked', 'false');
+    });
+
+    it('should call onThemeChange and close the menu', () => {
+      const mockOnThemeChange = vi.fn();
+      render(<Header {...defaultProps} onThemeChange={mockOnThemeChange} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      fireEvent.click(screen.getByRole('menuitemradio', { name: /High Contrast/ }));
+
+      expect(mockOnThemeChange).toHaveBeenCalledWith('high-contrast');
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Hidden Articles Options', () => {
     it('should display hidden articles toggle in dropdown', () => {
       render(<Header {...defaultProps} />);
@@ -252,6 +363,32 @@ describe('Header', () => {
 
       expect(mockOnClearHiddenArticles).toHaveBeenCalled();
     });
+
+    it('should toggle live updates from the menu', () => {
+      const mockOnToggleLiveUpdates = vi.fn();
+      render(<Header {...defaultProps} liveUpdates={true} onToggleLiveUpdates={mockOnToggleLiveUpdates} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      const item = screen.getByText('Live Updates').closest('button')!;
+      expect(item).toHaveAttribute('aria-checked', 'true');
+
+      fireEvent.click(item);
+
+      expect(mockOnToggleLiveUpdates).toHaveBeenCalled();
+    });
+
+    it('should toggle infinite scroll from the menu', () => {
+      const mockOnToggleInfiniteScroll = vi.fn();
+      render(<Header {...defaultProps} onToggleInfiniteScroll={mockOnToggleInfiniteScroll} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      const item = screen.getByText('Infinite Scroll').closest('button')!;
+      expect(item).toHaveAttribute('aria-checked', 'false');
+
+      fireEvent.click(item);
+
+      expect(mockOnToggleInfiniteScroll).toHaveBeenCalled();
+    });
   });
 
   describe('Accessibility', () => {
@@ -299,4 +436,208 @@ describe('Header', () => {
       expect(commentsButton).toHaveAttribute('aria-checked', 'true');
     });
   });
-});
\ No newline at end of file
+
+  describe('Menu keyboard operation', () => {
+    const openWithKeyboard = (key = 'ArrowDown') => {
+      const gearButton = screen.getByLabelText('View Options');
+      gearButton.focus();
+      fireEvent.keyDown(gearButton, { key });
+      return gearButton;
+    };
+
+    it('groups view and sort modes as radio items and toggles as checkboxes', () => {
+      render(<Header {...defaultProps} viewMode="compact" sortMode="points" liveUpdates={true} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+
+      const viewGroup = screen.getByRole('group', { name: 'View mode' });
+      expect(within(viewGroup).getAllByRole('menuitemradio')).toHaveLength(3);
+      expect(within(viewGroup).getByRole('menuitemradio', { name: /Compact View/ })).toHaveAttribute('aria-checked', 'true');
+      expect(within(screen.getByRole('group', { name: 'Sort order' })).getByRole('menuitemradio', { name: /Sort by Points/ }))
+        .toHaveAttribute('aria-checked', 'true');
+      expect(within(screen.getByRole('group', { name: 'Sort direction' })).getAllByRole('menuitemradio')).toHaveLength(2);
+      expect(screen.getByRole('menuitemcheckbox', { name: /Live Updates/ })).toHaveAttribute('aria-checked', 'true');
+      screen.getAllByRole('menuitem').forEach(item => expect(item).not.toHaveAttribute('aria-checked'));
+    });
+
+    it('opens from the gear button with arrow keys and focuses the first or last item', () => {
+      render(<Header {...defaultProps} />);
+
+      const gearButton = openWithKeyboard('ArrowDown');
+      expect(gearButton).toHaveAttribute('aria-controls', 'view-options-menu');
+      expect(screen.getByRole('menuitemradio', { name: /Title View/ })).toHaveFocus();
+
+      fireEvent.keyDown(document.activeElement!, { key: 'Escape' });
+      openWithKeyboard('ArrowUp');
+
+      expect(screen.getByRole('menuitemradio', { name: /Group by Domain/ })).toHaveFocus();
+    });
+
+    it('moves focus with the arrow, Home and End keys', () => {
+      render(<Header {...defaultProps} />);
+      openWithKeyboard();
+
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowDown' });
+      expect(screen.getByRole('menuitemradio', { name: /Compact View/ })).toHaveFocus();
+      expect(document.activeElement).toHaveAttribute('tabIndex', '0');
+
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowUp' });
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowUp' });
+      expect(screen.getByRole('menuitemradio', { name: /Group by Domain/ })).toHaveFocus();
+
+      fireEvent.keyDown(document.activeElement!, { key: 'Home' });
+      expect(screen.getByRole('menuitemradio', { name: /Title View/ })).toHaveFocus();
+
+      fireEvent.keyDown(document.activeElement!, { key: 'End' });
+      expect(screen.getByRole('menuitemradio', { name: /Group by Domain/ })).toHaveFocus();
+    });
+
+    it('chooses the focused item with Enter and returns focus to the gear button', () => {
+      const onViewModeChange = vi.fn();
+      render(<Header {...defaultProps} onViewModeChange={onViewModeChange} />);
+      const gearButton = openWithKeyboard();
+
+      fireEvent.keyDown(document.activeElement!, { key: 'ArrowDown' });
+      fireEvent.keyDown(document.activeElement!, { key: 'Enter' });
+
+      expect(onViewModeChange).toHaveBeenCalledWith('compact');
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      expect(gearButton).toHaveFocus();
+    });
+
+    it('closes with Escape or Tab and returns focus to the gear button', () => {
+      render(<Header {...defaultProps} />);
+
+      const gearButton = openWithKeyboard();
+      fireEvent.keyDown(document.activeElement!, { key: 'Escape' });
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      expect(gearButton).toHaveFocus();
+      expect(gearButton).toHaveAttribute('aria-expanded', 'false');
+
+      openWithKeyboard();
+      fireEvent.keyDown(document.activeElement!, { key: 'Tab' });
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      expect(gearButton).toHaveFocus();
+    });
+
+    it('closes when clicking outside the menu', () => {
+      render(<Header {...defaultProps} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      fireEvent.mouseDown(screen.getByText('Hacker News • Classic Style'));
+
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    });
+
+    it('moves focus into a panel opened from the menu and back to the gear when it closes', () => {
+      render(<Header {...defaultProps} />);
+      const gearButton = openWithKeyboard();
+
+      // Backup & Restore is the eleventh item, after the view modes and themes
+      for (let i = 0; i < 10; i++) {
+        fireEvent.keyDown(document.activeElement!, { key: 'ArrowDown' });
+      }
+      expect(screen.getByRole('menuitem', { name: /Backup & Restore/ })).toHaveFocus();
+      fireEvent.keyDown(document.activeElement!, { key: 'Enter' });
+
+      expect(screen.getByLabelText('Close backup and restore')).toHaveFocus();
+
+      fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+      expect(gearButton).toHaveFocus();
+    });
+  });
+
+  describe('Mute rules', () => {
+    it('opens the mute rules panel from the gear menu', () => {
+      render(<Header {...defaultProps} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      fireEvent.click(screen.getByText('Mute Rules...'));
+
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      expect(screen.getByRole('dialog', { name: 'Mute rules' })).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Close mute rules'));
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Backup and restore', () => {
+    it('opens the backup panel from the gear menu', () => {
+      render(<Header {...defaultProps} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      fireEvent.click(screen.getByText('Backup & Restore...'));
+
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+      expect(screen.getByRole('dialog', { name: 'Backup and restore' })).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Close backup and restore'));
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Display settings', () => {
+    it('opens the display settings panel in place of another panel', () => {
+      render(<Header {...defaultProps} />);
+
+      fireEvent.click(screen.getByLabelText('View Options'));
+      fireEvent.click(screen.getByText('Mute Rules...'));
+      fireEvent.click(screen.getByLabelText('View Options'));
+      fireEvent.click(screen.getByText('Display Settings...'));
+
+      expect(screen.getByRole('dialog', { name: 'Display settings' })).toBeInTheDocument();
+      expect(screen.queryByRole('dialog', { name: 'Mute rules' })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Close display settings'));
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Reading list', () => {
+    it('shows the unread count on the Saved link', () => {
+      const onShowSaved = vi.fn();
+      render(<Header {...defaultProps} savedUnreadCount={3} onShowSaved={onShowSaved} />);
+
+      const link = screen.getByRole('link', { name: 'Saved, 3 unread' });
+      fireEvent.click(link);
+
+      expect(onShowSaved).toHaveBeenCalled();
+    });
+
+    it('omits the badge when everything is read', () => {
+      render(<Header {...defaultProps} />);
+
+      expect(screen.getByRole('link', { name: 'Saved' })).toBeInTheDocument();
+      expect(document.querySelector('.nav-badge')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Search', () => {
+    it('submits trimmed queries', () => {
+      const onSearch = vi.fn();
+      render(<Header {...defaultProps} onSearch={onSearch} />);
+
+      const input = screen.getByLabelText('Search stories and comments');
+      fireEvent.change(input, { target: { value: '  rust async  ' } });
+      fireEvent.submit(input);
+
+      expect(onSearch).toHaveBeenCalledWith('rust async');
+    });
+
+    it('ignores empty queries', () => {
+      const onSearch = vi.fn();
+      render(<Header {...defaultProps} onSearch={onSearch} />);
+
+      fireEvent.submit(screen.getByRole('search'));
+
+      expect(onSearch).not.toHaveBeenCalled();
+    });
+
+    it('shows the current search query', () => {
+      render(<Header {...defaultProps} searchQuery="sqlite" />);
+
+      expect(screen.getByLabelText('Search stories and comments')).toHaveValue('sqlite');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { MuteRulesPanel } from '../MuteRulesPanel';
+import { addMuteRule, recordSuppressed } from '../../hooks/useMuteRules';
+
+describe('MuteRulesPanel', () => {
+  it('adds a rule from the form', () => {
+    render(<MuteRulesPanel onClose={vi.fn()} />);
+
+    expect(screen.getByText('No mute rules yet.')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Rule type'), { target: { value: 'domain' } });
+    fireEvent.change(screen.getByLabelText('Pattern'), { target: { value: 'www.example.com' } });
+    fireEvent.click(screen.getByText('Mute'));
+
+    expect(screen.getByText('domain example.com')).toBeInTheDocument();
+    expect(screen.getByLabelText('Pattern')).toHaveValue('');
+  });
+
+  it('shows validation errors', () => {
+    render(<MuteRulesPanel onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Rule type'), { target: { value: 'regex' } });
+    fireEvent.change(screen.getByLabelText('Pattern'), { target: { value: '(oops' } });
+    fireEvent.click(screen.getByText('Mute'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('That is not a valid regular expression.');
+    expect(screen.getByText('No mute rules yet.')).toBeInTheDocument();
+  });
+
+  it('rejects duplicate rules', () => {
+    addMuteRule('keyword', 'crypto');
+    render(<MuteRulesPanel onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Pattern'), { target: { value: 'crypto' } });
+    fireEvent.click(screen.getByText('Mute'));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('That rule already exists.');
+  });
+
+  it('shows how many items each rule hid and removes rules', () => {
+    const rule = addMuteRule('author', 'bob');
+    render(<MuteRulesPanel onClose={vi.fn()} />);
+
+    expect(screen.getByText('0 hidden')).toBeInTheDocument();
+    act(() => {
+      recordSuppressed(rule.id, 10);
+      recordSuppressed(rule.id, 11);
+    });
+    expect(screen.getByText('2 hidden')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Remove mute rule user bob'));
+    expect(screen.getByText('No mute rules yet.')).toBeInTheDocument();
+  });
+
+  it('closes on Escape', () => {
+    const onClose = vi.fn();
+    render(<MuteRulesPanel onClose={onClose} />);
+
+    fireEvent.keyDown(screen.getByLabelText('Pattern'), { key: 'Escape' });
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import { OfflineIndicator } from '../OfflineIndicator';
+import { reportCachedData } from '../../utils/offlineStatus';
+
+describe('OfflineIndicator', () => {
+  it('should render nothing while online with fresh data', () => {
+    const { container } = render(<OfflineIndicator />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should announce when the browser goes offline', () => {
+    render(<OfflineIndicator />);
+
+    act(() => {
+      window.dispatchEvent(new Event('offline'));
+    });
+
+    expect(screen.getByRole('status')).toHaveTextContent('Offline');
+  });
+
+  it('should say when cached data is shown', () => {
+    const savedAt = new Date(2024, 0, 15, 9, 30).getTime();
+    render(<OfflineIndicator />);
+
+    act(() => {
+      window.dispatchEvent(new Event('offline'));
+      reportCachedData(savedAt);
+    });
+
+    expect(screen.getByRole('status')).toHaveTextContent(/^Offline — showing cached data from .*2024/);
+  });
+
+  it('should flag cached data while the API is unreachable', () => {
+    render(<OfflineIndicator />);
+
+    act(() => {
+      reportCachedData(Date.now());
+    });
+
+    expect(screen.getByRole('status')).toHaveTextContent(/^Can't reach Hacker News — showing cached data/);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { PollOptions } from '../PollOptions';
+import { hackerNewsApi, type HackerNewsItem } from '../../services/hackerNewsApi';
+
+vi.mock('../../services/hackerNewsApi', () => ({
+  hackerNewsApi: {
+    getItems: vi.fn(),
+  },
+}));
+
+const mockGetItems = vi.mocked(hackerNewsApi.getItems);
+
+const mockPoll: HackerNewsItem = {
+  id: 126809,
+  type: 'poll',
+  by: 'pollster',
+  time: 1204403652,
+  title: 'Poll: What would happen if News.YC had explicit support for polls?',
+  score: 46,
+  descendants: 54,
+  parts: [126810, 126811, 126812],
+};
+
+const mockOptions: HackerNewsItem[] = [
+  { id: 126810, type: 'pollopt', time: 1204403652, poll: 126809, text: 'Nothing', score: 30 },
+  { id: 126811, type: 'pollopt', time: 1204403652, poll: 126809, text: 'More polls', score: 10 },
+  { id: 126812, type: 'pollopt', time: 1204403652, poll: 126809, text: 'Chaos <script>x()</script>', score: 0 },
+];
+
+describe('PollOptions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('fetches the poll parts and renders option scores with percentages in full view', async () => {
+    mockGetItems.mockResolvedValue(mockOptions);
+
+    render(<PollOptions poll={mockPoll} viewMode="full" />);
+
+    expect(screen.getByText('Loading poll...')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.getByText('Nothing')).toBeInTheDocument();
+    });
+
+    expect(mockGetItems).toHaveBeenCalledWith([126810, 126811, 126812]);
+    expect(screen.getByText('30 votes (75%)')).toBeInTheDocument();
+    expect(screen.getByText('10 votes (25%)')).toBeInTheDocument();
+    expect(screen.getByText('40 total votes')).toBeInTheDocument();
+    expect(screen.getByText('Chaos').innerHTML).toBe('Chaos ');
+  });
+
+  it('scales bars relative to the leading option', async () => {
+    mockGetItems.mockResolvedValue(mockOptions);
+
+    const { container } = render(<PollOptions poll={mockPoll} viewMode="compact" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Nothing')).toBeInTheDocument();
+    });
+
+    const bars = container.querySelectorAll<HTMLElement>('.poll-option-bar-fill');
+    expect(bars[0].style.width).toBe('100%');
+    expect(bars[2].style.width).toBe('0%');
+    expect(screen.getByText('30 votes')).toBeInTheDocument();
+  });
+
+  it('only shows the option count in title view without fetching', () => {
+    render(<PollOptions poll={mockPoll} viewMode="title" />);
+
+    expect(screen.getByText('Poll · 3 options')).toBeInTheDocument();
+    expect(mockGetItems).not.toHaveBeenCalled();
+  });
+
+  it('shows a fallback when options cannot be loaded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetItems.mockRejectedValue(new Error('network'));
+
+    render(<PollOptions poll={mockPoll} viewMode="full" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Poll options unavailable')).toBeInTheDocument();
+    });
+  });
+});
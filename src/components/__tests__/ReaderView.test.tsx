@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { ReaderView } from '../ReaderView';
+import { hackerNewsApi } from '../../services/hackerNewsApi';
+import type { ReaderArticle } from '../../utils/readability';
+
+vi.mock('../../services/hackerNewsApi', () => ({
+  hackerNewsApi: {
+    getReaderArticle: vi.fn(),
+  },
+}));
+
+const mockGetReaderArticle = vi.mocked(hackerNewsApi.getReaderArticle);
+
+const article = (title: string): ReaderArticle => ({
+  title,
+  content: `<p>${title} body</p>`,
+  wordCount: 460,
+  readingMinutes: 2,
+});
+
+describe('ReaderView', () => {
+  it('renders the extracted article', async () => {
+    mockGetReaderArticle.mockResolvedValue(article('Dropbox launch'));
+
+    render(<ReaderView url="https://example.com/dropbox" />);
+
+    expect(await screen.findByRole('heading', { name: 'Dropbox launch' })).toBeInTheDocument();
+    expect(screen.getByText('2 min read')).toBeInTheDocument();
+    expect(mockGetReaderArticle).toHaveBeenCalledWith('https://example.com/dropbox');
+  });
+
+  it('offers a retry when the article cannot be extracted', async () => {
+    mockGetReaderArticle.mockResolvedValueOnce(null);
+    mockGetReaderArticle.mockResolvedValueOnce(article('Second try'));
+
+    render(<ReaderView url="https://example.com/post" />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Try Again' }));
+
+    expect(await screen.findByRole('heading', { name: 'Second try' })).toBeInTheDocument();
+  });
+
+  it('ignores an article that arrives after the link changed', async () => {
+    let resolveFirst!: (value: ReaderArticle) => void;
+    mockGetReaderArticle.mockReturnValueOnce(new Promise(resolve => { resolveFirst = resolve; }));
+    mockGetReaderArticle.mockResolvedValueOnce(article('Newer article'));
+
+    const { rerender } = render(<ReaderView url="https://example.com/old" />);
+    rerender(<ReaderView url="https://example.com/new" />);
+
+    expect(await screen.findByRole('heading', { name: 'Newer article' })).toBeInTheDocument();
+
+    await act(async () => {
+      resolveFirst(article('Older article'));
+    });
+
+    expect(screen.getByRole('heading', { name: 'Newer article' })).toBeInTheDocument();
+    expect(screen.queryByText('Older article')).not.toBeInTheDocument();
+  });
+});
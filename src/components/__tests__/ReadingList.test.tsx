@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ReadingList } from '../ReadingList';
+import { saveStory, setStoryRead, updateSavedDetails, resetReadingListStore, READING_LIST_KEY } from '../../hooks/useReadingList';
+import { makeStory } from '../../test/fixtures';
+
+describe('ReadingList', () => {
+  it('should explain how to save stories when empty', () => {
+    render(<ReadingList viewMode="compact" />);
+
+    expect(screen.getByText(/Nothing saved yet/)).toBeInTheDocument();
+  });
+
+  it('should render saved snapshots with read counts', () => {
+    saveStory(makeStory(1, { title: 'First saved' }));
+    saveStory(makeStory(2, { title: 'Second saved' }));
+    setStoryRead(1, true);
+
+    render(<ReadingList viewMode="compact" />);
+
+    expect(screen.getByText('First saved')).toBeInTheDocument();
+    expect(screen.getByText('Second saved')).toBeInTheDocument();
+    expect(screen.getByText('2 saved, 1 unread')).toBeInTheDocument();
+  });
+
+  it('should filter by read state and tag', () => {
+    saveStory(makeStory(1, { title: 'First saved' }));
+    saveStory(makeStory(2, { title: 'Second saved' }));
+    setStoryRead(1, true);
+    updateSavedDetails(2, { tags: ['rust'] });
+
+    render(<ReadingList viewMode="compact" />);
+
+    fireEvent.change(screen.getByLabelText('Show'), { target: { value: 'unread' } });
+    expect(screen.queryByText('First saved')).not.toBeInTheDocument();
+    expect(screen.getByText('Second saved')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Show'), { target: { value: 'all' } });
+    fireEvent.change(screen.getByLabelText('Tag'), { target: { value: 'rust' } });
+    expect(screen.queryByText('First saved')).not.toBeInTheDocument();
+    expect(screen.getByText('Second saved')).toBeInTheDocument();
+  });
+
+  it('should edit tags and notes', () => {
+    saveStory(makeStory(1, { title: 'First saved' }));
+
+    render(<ReadingList viewMode="compact" />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit tags & note' }));
+    fireEvent.change(screen.getByLabelText('Tags'), { target: { value: 'Databases, later' } });
+    fireEvent.change(screen.getByLabelText('Note'), { target: { value: 'Read before Friday' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    const tags = screen.getByRole('list', { name: 'Tags' });
+    expect(within(tags).getByText('databases')).toBeInTheDocument();
+    expect(within(tags).getByText('later')).toBeInTheDocument();
+    expect(screen.getByText('Read before Friday')).toBeInTheDocument();
+  });
+
+  it('should mark stories read when a link is followed and allow undoing it', () => {
+    saveStory(makeStory(1, { title: 'First saved', url: 'https://example.com/1' }));
+
+    render(<ReadingList viewMode="compact" />);
+
+    fireEvent.click(screen.getByText('First saved'));
+    expect(screen.getByText('1 saved, 0 unread')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark unread' }));
+    expect(screen.getByText('1 saved, 1 unread')).toBeInTheDocument();
+  });
+
+  it('should keep rendering snapshots loaded from storage', () => {
+    localStorage.setItem(READING_LIST_KEY, JSON.stringify([
+      { id: 9, story: makeStory(9, { title: 'Long gone from HN' }), savedAt: 1, tags: [], note: '', read: false },
+    ]));
+    resetReadingListStore();
+
+    render(<ReadingList viewMode="full" />);
+
+    expect(screen.getByText(/Long gone from HN/)).toBeInTheDocument();
+  });
+
+  it('should remove stories', () => {
+    saveStory(makeStory(1, { title: 'First saved' }));
+
+    render(<ReadingList viewMode="compact" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+
+    expect(screen.getByText(/Nothing saved yet/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
+import { SearchResults } from '../SearchResults';
+import { searchApi, type SearchResult } from '../../services/searchApi';
+import type { SearchOptions } from '../../types/ui';
+import { saveStory, getSavedStories } from '../../hooks/useReadingList';
+
+vi.mock('../../services/searchApi', () => ({
+  searchApi: {
+    search: vi.fn(),
+  },
+}));
+
+const mockSearch = vi.mocked(searchApi.search);
+
+const options: SearchOptions = { query: 'dropbox', sort: 'relevance', type: 'all', range: 'all' };
+
+const result = (overrides: Partial<SearchResult> = {}): SearchResult => ({
+  items: [
+    { id: 8863, type: 'story', by: 'dhouston', time: 1175714200, title: 'My YC app: Dropbox', score: 104, descendants: 71 },
+    { id: 9224, type: 'comment', by: 'BrandonM', time: 1175816820, text: 'You can already build such a system' },
+  ],
+  storyTitles: new Map([[9224, { storyId: 8863, title: 'My YC app: Dropbox' }]]),
+  page: 0,
+  nbPages: 1,
+  nbHits: 2,
+  hitsPerPage: 20,
+  ...overrides,
+});
+
+describe('SearchResults', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders story hits with StoryCard and comment hits with their story', async () => {
+    mockSearch.mockResolvedValue(result());
+
+    render(<SearchResults options={options} viewMode="compact" onOptionsChange={vi.fn()} />);
+
+    expect(screen.getByText('Searching...')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByText('2 results')).toBeInTheDocument();
+    });
+
+    expect(screen.getAllByText('My YC app: Dropbox')).toHaveLength(2);
+    expect(screen.getByText('You can already build such a system')).toBeInTheDocument();
+    expect(screen.getByText('BrandonM')).toHaveAttribute('href', '#/user/BrandonM');
+    expect(mockSearch).toHaveBeenCalledWith(expect.objectContaining({
+      query: 'dropbox',
+      sort: 'relevance',
+      page: 0,
+      tags: [['story', 'comment']],
+      numericFilters: undefined,
+    }));
+  });
+
+  it('turns the date range into a numeric filter', async () => {
+    mockSearch.mockResolvedValue(result());
+
+    render(<SearchResults options={{ ...options, type: 'story', range: 'day' }} viewMode="full" onOptionsChange={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(mockSearch).toHaveBeenCalled();
+    });
+    const params = mockSearch.mock.calls[0][0];
+    expect(params.tags).toEqual(['story']);
+    expect(params.numericFilters?.[0]).toMatch(/^created_at_i>\d+$/);
+  });
+
+  it('loads further pages', async () => {
+    mockSearch.mockResolvedValueOnce(result({ nbPages: 2 }));
+    mockSearch.mockResolvedValueOnce(result({
+      items: [{ id: 1, type: 'story', time: 1175714200, title: 'Second page story' }],
+      storyTitles: new Map(),
+      page: 1,
+      nbPages: 2,
+    }));
+
+    render(<SearchResults options={options} viewMode="title" onOptionsChange={vi.fn()} />);
+
+    fireEvent.click(await screen.findByText('More Results'));
+
+    expect(await screen.findByText('Second page story')).toBeInTheDocument();
+    expect(mockSearch).toHaveBeenLastCalledWith(expect.objectContaining({ page: 1 }));
+    expect(screen.queryByText('More Results')).not.toBeInTheDocument();
+  });
+
+  it('reports option changes', async () => {
+    mockSearch.mockResolvedValue(result());
+    const onOptionsChange = vi.fn();
+
+    render(<SearchResults options={options} viewMode="full" onOptionsChange={onOptionsChange} />);
+
+    fireEvent.change(screen.getByLabelText('Sort results by'), { target: { value: 'date' } });
+
+    expect(onOptionsChange).toHaveBeenCalledWith({ ...options, sort: 'date' });
+  });
+
+  it('ignores results for a query that has since changed', async () => {
+    let resolveFirst!: (value: SearchResult) => void;
+    mockSearch.mockReturnValueOnce(new Promise(resolve => { resolveFirst = resolve; }));
+    mockSearch.mockResolvedValueOnce(result({
+      items: [{ id: 1, type: 'story', time: 1175714200, title: 'Newer query story' }],
+      storyTitles: new Map(),
+      nbHits: 1,
+    }));
+
+    const { rerender } = render(<SearchResults options={options} viewMode="title" onOptionsChange={vi.fn()} />);
+    rerender(<SearchResults options={{ ...options, query: 'rust' }} viewMode="title" onOptionsChange={vi.fn()} />);
+
+    expect(await screen.findByText('Newer query story')).toBeInTheDocument();
+
+    await act(async () => {
+      resolveFirst(result());
+    });
+
+    expect(screen.getByText('1 result')).toBeInTheDocument();
+    expect(screen.getByText('Newer query story')).toBeInTheDocument();
+    expect(screen.queryByText('My YC app: Dropbox')).not.toBeInTheDocument();
+  });
+
+  it('leaves saved story snapshots alone', async () => {
+    const saved = { id: 8863, type: 'story' as const, by: 'dhouston', time: 1175714200, title: 'My YC app: Dropbox', score: 90 };
+    saveStory(saved);
+    mockSearch.mockResolvedValue(result());
+
+    render(<SearchResults options={options} viewMode="compact" onOptionsChange={vi.fn()} />);
+
+    expect(await screen.findByText('2 results')).toBeInTheDocument();
+    expect(getSavedStories()[0].story).toBe(saved);
+  });
+
+  it('shows an error when the search fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSearch.mockRejectedValue(new Error('offline'));
+
+    render(<SearchResults options={options} viewMode="full" onOptionsChange={vi.fn()} />);
+
+    expect(await screen.findByText('Search failed. Please try again later.')).toBeInTheDocument();
+  });
+});
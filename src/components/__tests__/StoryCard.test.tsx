@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { StoryCard } from '../StoryCard';
+import { recordVisit } from '../../hooks/useVisitedStories';
 import type { HackerNewsItem } from '../../services/hackerNewsApi';
 
 const mockOnToggleComments = vi.fn();
@@ -74,6 +75,81 @@ describe('StoryCard', () => {
     expect(link).toHaveAttribute('href', 'about:blank');
   });
 
+  describe('Save for later', () => {
+    it.each(['title', 'compact', 'full'] as const)('toggles the saved state in %s view', (viewMode) => {
+      render(<StoryCard {...defaultProps} viewMode={viewMode} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Save for later: Test Story Title' }));
+
+      const button = screen.getByRole('button', { name: 'Remove from reading list: Test Story Title' });
+      expect(button).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(button);
+      expect(screen.getByRole('button', { name: 'Save for later: Test Story Title' })).toHaveAttribute('aria-pressed', 'false');
+    });
+  });
+
+  describe('Visited stories', () => {
+    it('leaves unvisited stories alone', () => {
+      const { container } = render(<StoryCard {...defaultProps} viewMode="compact" />);
+
+      expect(container.querySelector('.visited-story')).not.toBeInTheDocument();
+      expect(screen.queryByText(/new comment/)).not.toBeInTheDocument();
+    });
+
+    it.each(['title', 'compact', 'full'] as const)('dims visited stories and counts new comments in %s view', (viewMode) => {
+      recordVisit(123, 13, []);
+
+      const { container } = render(<StoryCard {...defaultProps} viewMode={viewMode} />);
+
+      expect(container.querySelector('.visited-story')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: '+12 new comments' })).toHaveAttribute('href', '#/item/123');
+    });
+  });
+
+  describe('Comments links', () => {
+    it.each(['title', 'compact', 'full'] as const)('links the comment count to the story page in %s view', (viewMode) => {
+      render(<StoryCard {...defaultProps} viewMode={viewMode} />);
+
+      expect(screen.getByRole('link', { name: '25 comments' })).toHaveAttribute('href', '#/item/123');
+    });
+
+    it('keeps an inline toggle for expanding comments in the list', () => {
+      render(<StoryCard {...defaultProps} viewMode="compact" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show comments inline' }));
+
+      expect(mockOnToggleComments).toHaveBeenCalledWith(123);
+    });
+  });
+
+  describe('Job postings', () => {
+    const jobStory: HackerNewsItem = {
+      id: 200,
+      type: 'job',
+      by: 'acme',
+      time: 1609459200,
+      title: 'Acme (YC S21) is hiring engineers',
+      url: 'https://example.com/jobs',
+    };
+
+    it('omits author and comments in compact view', () => {
+      render(<StoryCard {...defaultProps} story={jobStory} viewMode="compact" />);
+
+      expect(screen.getByText('Acme (YC S21) is hiring engineers')).toBeInTheDocument();
+      expect(screen.queryByText('acme')).not.toBeInTheDocument();
+      expect(screen.queryByText(/comment/)).not.toBeInTheDocument();
+    });
+
+    it('shows a job label instead of score and comments in full view', () => {
+      render(<StoryCard {...defaultProps} story={jobStory} viewMode="full" />);
+
+      expect(screen.getByText('Job posting')).toBeInTheDocument();
+      expect(screen.queryByText(/points/)).not.toBeInTheDocument();
+      expect(screen.queryByText(/comments/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('HTML Sanitization', () => {
     it('sanitizes dangerous HTML payloads', () => {
       const maliciousStory = {
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { StoryDetail } from '../StoryDetail';
+import { hackerNewsApi } from '../../services/hackerNewsApi';
+
+vi.mock('../../services/hackerNewsApi', () => ({
+  hackerNewsApi: {
+    getItem: vi.fn(),
+    getArticleSummary: vi.fn(),
+    getReaderArticle: vi.fn(),
+  },
+}));
+
+vi.mock('../Comments', () => ({
+  Comments: ({ storyId, maxDepth }: { storyId: number; maxDepth?: number }) => (
+    <div data-testid="comments">comments for {storyId} depth {String(maxDepth)}</div>
+  ),
+}));
+
+const mockGetItem = vi.mocked(hackerNewsApi.getItem);
+const mockGetArticleSummary = vi.mocked(hackerNewsApi.getArticleSummary);
+const mockGetReaderArticle = vi.mocked(hackerNewsApi.getReaderArticle);
+
+const mockStory = {
+  id: 42,
+  type: 'story' as const,
+  by: 'author',
+  time: 1640995200,
+  title: 'Detail Story',
+  url: 'https://example.com/article',
+  score: 120,
+  descendants: 3,
+  kids: [43],
+};
+
+describe('StoryDetail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('shows a loading state while the story is fetched', () => {
+    mockGetItem.mockImplementation(() => new Promise(() => {}));
+
+    render(<StoryDetail storyId={42} backHref="#/" />);
+
+    expect(screen.getByText('Loading story...')).toBeInTheDocument();
+  });
+
+  it('renders the story, its summary and the discussion at the chosen depth', async () => {
+    mockGetItem.mockResolvedValue(mockStory);
+    mockGetArticleSummary.mockResolvedValue('An article summary');
+
+    render(<StoryDetail storyId={42} backHref="#/" />);
+
+    await waitFor(() => {
+      expect(screen.getByText(/Detail Story/)).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('120 points')).toBeInTheDocument();
+    expect(screen.getByTestId('comments')).toHaveTextContent('comments for 42 depth undefined');
+    await waitFor(() => {
+      expect(screen.getByText('An article summary')).toBeInTheDocument();
+    });
+  });
+
+  it('renders a back link to the list', async () => {
+    mockGetItem.mockResolvedValue(mockStory);
+    mockGetArticleSummary.mockResolvedValue(null);
+
+    render(<StoryDetail storyId={42} backHref="#/best" />);
+
+    expect(screen.getByText('← Back to stories')).toHaveAttribute('href', '#/best');
+  });
+
+  it('shows not found for missing items and comments', async () => {
+    mockGetItem.mockResolvedValue({ id: 43, type: 'comment', time: 1640995200, text: 'hi', parent: 42 });
+
+    render(<StoryDetail storyId={43} backHref="#/" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Story not found.')).toBeInTheDocument();
+    });
+  });
+
+  it('offers a retry when loading fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetItem.mockRejectedValueOnce(new Error('network'));
+    mockGetItem.mockResolvedValueOnce(mockStory);
+    mockGetArticleSummary.mockResolvedValue(null);
+
+    render(<StoryDetail storyId={42} backHref="#/" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load story. Please try again later.')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('Try Again'));
+
+    await waitFor(() => {
+      expect(screen.getByText(/Detail Story/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Reader view', () => {
+    it('shows the extracted article next to the discussion', async () => {
+      mockGetItem.mockResolvedValue(mockStory);
+      mockGetArticleSummary.mockResolvedValue(null);
+      mockGetReaderArticle.mockResolvedValue({
+        title: 'The Article',
+        content: '<p>First paragraph of the article.</p>',
+        wordCount: 1200,
+        readingMinutes: 5,
+      });
+
+      render(<StoryDetail storyId={42} backHref="#/" />);
+      const toggle = await screen.findByRole('button', { name: /Reader view/ });
+      expect(toggle).toHaveAttribute('aria-pressed', 'false');
+
+      fireEvent.click(toggle);
+
+      const reader = await screen.findByRole('article', { name: 'The Article' });
+      expect(toggle).toHaveAttribute('aria-pressed', 'true');
+      expect(mockGetReaderArticle).toHaveBeenCalledWith('https://example.com/article');
+      expect(reader).toHaveTextContent('5 min read');
+      expect(reader).toHaveTextContent('1,200 words');
+      expect(reader).toHaveTextContent('First paragraph of the article.');
+      expect(screen.getByTestId('comments')).toBeInTheDocument();
+
+      fireEvent.click(toggle);
+      expect(screen.queryByRole('article')).not.toBeInTheDocument();
+    });
+
+    it('explains when no article could be extracted and retries', async () => {
+      mockGetItem.mockResolvedValue(mockStory);
+      mockGetArticleSummary.mockResolvedValue(null);
+      mockGetReaderArticle.mockResolvedValueOnce(null);
+
+      render(<StoryDetail storyId={42} backHref="#/" />);
+      fireEvent.click(await screen.findByRole('button', { name: /Reader view/ }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent("The article text couldn't be extracted");
+      expect(screen.getByText('Open original')).toHaveAttribute('href', 'https://example.com/article');
+
+      mockGetReaderArticle.mockResolvedValueOnce({ title: 'Second Try', content: '<p>Text</p>', wordCount: 1, readingMinutes: 1 });
+      fireEvent.click(screen.getByText('Try Again'));
+
+      expect(await screen.findByRole('article', { name: 'Second Try' })).toBeInTheDocument();
+    });
+
+    it('is not offered for text posts', async () => {
+      mockGetItem.mockResolvedValue({ ...mockStory, url: undefined, text: 'Ask HN body' });
+
+      render(<StoryDetail storyId={42} backHref="#/" />);
+
+      await screen.findByText(/Detail Story/);
+      expect(screen.queryByRole('button', { name: /Reader view/ })).not.toBeInTheDocument();
+    });
+  });
+});
@@ -2,17 +2,24 @@ import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { StoryList } from '../StoryList';
 import type { HackerNewsItem } from '../../services/hackerNewsApi';
+import { DEFAULT_FILTERS } from '../../utils/storyFilters';
 
 // Mock all hooks and services to prevent memory issues
 vi.mock('../../hooks/useStoryData', () => ({
   useStoryData: () => ({
     stories: mockStories,
+    storyIds: mockStories.map(story => story.id),
+    applyItemUpdates: vi.fn(),
+    refreshStories: vi.fn(),
     loading: false,
     error: null,
     loadStories: vi.fn(),
     loadMoreStories: vi.fn(),
+    prefetchNextPage: vi.fn(),
     loadingMore: false,
+    loadMoreError: null,
     hasMoreStories: false,
+    storiesCount: mockStories.length,
     totalCount: mockStories.length
   })
 }));
@@ -24,13 +31,18 @@ vi.mock('../../hooks/useStoryListState', () => ({
   })
 }));
 
-vi.mock('../../hooks/useHiddenArticles', () => ({
-  useHiddenArticles: () => ({
-    hideArticle: vi.fn(),
-    showArticle: vi.fn(),
-    isArticleHidden: () => false
-  })
-}));
+vi.mock('../../hooks/useHiddenArticles', async (importOriginal) => {
+  const noneHidden = new Set<number>();
+  return {
+    ...await importOriginal<typeof import('../../hooks/useHiddenArticles')>(),
+    useHiddenArticles: () => ({
+      hiddenArticles: noneHidden,
+      hideArticle: vi.fn(),
+      showArticle: vi.fn(),
+      isArticleHidden: () => false
+    })
+  };
+});
 
 // Mock heavy components to prevent memory issues
 vi.mock('../StoryCard', () => ({
@@ -176,4 +188,53 @@ describe('StoryList Sorting', () => {
     const storyElements = screen.queryAllByTestId(/^story-\d+$/);
     expect(storyElements.length).toBeGreaterThanOrEqual(0); // Just verify it doesn't crash
   });
-});
\ No newline at end of file
+
+  it('should sort ascending when sortDirection is asc', () => {
+    render(<StoryList viewMode="full" sortMode="comments" sortDirection="asc" />);
+
+    const storyElements = screen.getAllByTestId(/^story-\d+$/);
+    expect(storyElements.map(el => el.getAttribute('data-testid'))).toEqual([
+      'story-4', 'story-2', 'story-3', 'story-1'
+    ]);
+  });
+
+  it('should sort by points', () => {
+    render(<StoryList viewMode="full" sortMode="points" />);
+
+    const storyElements = screen.getAllByTestId(/^story-\d+$/);
+    expect(storyElements[0]).toHaveAttribute('data-testid', 'story-1');
+    expect(storyElements[3]).toHaveAttribute('data-testid', 'story-4');
+  });
+
+  it('should sort newest first by age', () => {
+    render(<StoryList viewMode="full" sortMode="time" />);
+
+    const storyElements = screen.getAllByTestId(/^story-\d+$/);
+    expect(storyElements[0]).toHaveAttribute('data-testid', 'story-4');
+    expect(storyElements[3]).toHaveAttribute('data-testid', 'story-1');
+  });
+
+  it('should render a heading per domain group when grouping by domain', () => {
+    render(<StoryList viewMode="full" sortMode="domain" />);
+
+    const headings = screen.getAllByRole('heading', { level: 3 });
+    expect(headings).toHaveLength(1);
+    expect(headings[0]).toHaveTextContent('example.com');
+  });
+
+  it('should compose filters with sorting', () => {
+    render(<StoryList viewMode="full" sortMode="points" sortDirection="asc" filters={{ ...DEFAULT_FILTERS, minComments: 10 }} />);
+
+    const storyElements = screen.getAllByTestId(/^story-\d+$/);
+    expect(storyElements.map(el => el.getAttribute('data-testid'))).toEqual([
+      'story-3', 'story-1'
+    ]);
+  });
+
+  it('should explain when filters exclude every loaded story', () => {
+    render(<StoryList viewMode="full" sortMode="default" filters={{ ...DEFAULT_FILTERS, postType: 'text' }} />);
+
+    expect(screen.queryAllByTestId(/^story-\d+$/)).toHaveLength(0);
+    expect(screen.getByText('No loaded stories match the current filters.')).toBeInTheDocument();
+  });
+});
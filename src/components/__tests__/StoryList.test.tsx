@@ -1,7 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
 import { StoryList } from '../StoryList';
 import { hackerNewsApi } from '../../services/hackerNewsApi';
+import { addMuteRule } from '../../hooks/useMuteRules';
+import { LIVE_POLL_INTERVAL_MS } from '../../hooks/useLiveUpdates';
+import { reportCachedData, getOfflineStatus } from '../../utils/offlineStatus';
+import { getSavedStories } from '../../hooks/useReadingList';
 
 vi.mock('../../services/hackerNewsApi');
 const mockedApi = vi.mocked(hackerNewsApi);
@@ -103,4 +107,386 @@ describe('StoryList', () => {
       expect(mockedApi.getItems).toHaveBeenCalledWith([4, 5, 6]);
     });
   });
-});
\ No newline at end of file
+
+  it.each([
+    ['ask', 'getAskStories'],
+    ['show', 'getShowStories'],
+    ['job', 'getJobStories'],
+  ] as const)('should fetch %s stories for the %s category', async (category, method) => {
+    mockedApi[method].mockResolvedValue([7, 8]);
+    mockedApi.getItems.mockResolvedValue([
+      { id: 7, type: 'story' as const, by: 'user7', time: 1640995200, title: 'Story 7' }
+    ]);
+
+    render(<StoryList category={category} viewMode="full" sortMode="default" />);
+
+    await waitFor(() => {
+      expect(mockedApi[method]).toHaveBeenCalled();
+      expect(mockedApi.getItems).toHaveBeenCalledWith([7, 8]);
+    });
+  });
+
+  describe('mute rules', () => {
+    const stories = [
+      { id: 1, type: 'story' as const, by: 'alice', time: 1640995200, title: 'Crypto is back', score: 10 },
+      { id: 2, type: 'story' as const, by: 'bob', time: 1640995300, title: 'Compilers are fun', score: 20 },
+    ];
+
+    beforeEach(() => {
+      mockedApi.getTopStories.mockResolvedValue([1, 2]);
+      mockedApi.getItems.mockResolvedValue(stories);
+    });
+
+    it('hides stories matching a mute rule', async () => {
+      addMuteRule('keyword', 'crypto');
+
+      render(<StoryList viewMode="full" sortMode="default" />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/Compilers are fun/)).toBeInTheDocument();
+      });
+      expect(screen.queryByText(/Crypto is back/)).not.toBeInTheDocument();
+    });
+
+    it('reveals muted stories with the reason while showing hidden articles', async () => {
+      addMuteRule('keyword', 'crypto');
+
+      render(<StoryList viewMode="full" sortMode="default" showHiddenArticles={true} />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/Crypto is back/)).toBeInTheDocument();
+      });
+      expect(screen.getByText('Muted by keyword "crypto"')).toBeInTheDocument();
+    });
+  });
+
+  describe('live updates', () => {
+    const stories = [
+      { id: 1, type: 'story' as const, by: 'alice', time: 1640995200, title: 'First story', score: 10 },
+      { id: 2, type: 'story' as const, by: 'bob', time: 1640995300, title: 'Second story', score: 20 },
+    ];
+
+    beforeEach(() => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      mockedApi.getTopStories.mockResolvedValue([1, 2]);
+      mockedApi.getItems.mockResolvedValue(stories);
+      mockedApi.getUpdates.mockResolvedValue({ items: [1], profiles: [] });
+      mockedApi.refreshItems.mockResolvedValue([{ ...stories[0], score: 99 }]);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('updates scores in place and offers new rankings behind a banner', async () => {
+      render(<StoryList viewMode="full" sortMode="default" liveUpdates={true} />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/First story/)).toBeInTheDocument();
+      });
+
+      mockedApi.getTopStories.mockResolvedValue([3, 1, 2]);
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(LIVE_POLL_INTERVAL_MS);
+      });
+
+      expect(screen.getByText(/99 points/)).toBeInTheDocument();
+      expect(screen.getByRole('status')).toHaveTextContent('1 new story');
+      expect(screen.queryByText(/Third story/)).not.toBeInTheDocument();
+
+      mockedApi.getItems.mockResolvedValue([
+        { id: 3, type: 'story' as const, by: 'carol', time: 1640995400, title: 'Third story', score: 5 },
+        ...stories,
+      ]);
+      fireEvent.click(screen.getByRole('button', { name: 'Show' }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/Third story/)).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('keyboard shortcuts', () => {
+    const shortcutStories = [
+      { id: 1, type: 'story' as const, by: 'alice', time: 1640995200, title: 'Linked story', url: 'https://example.com/a', descendants: 0 },
+      { id: 2, type: 'story' as const, by: 'bob', time: 1640995300, title: 'Text story', text: 'Hello', descendants: 3 },
+    ];
+
+    const renderList = async (props: Partial<React.ComponentProps<typeof StoryList>> = {}) => {
+      mockedApi.getTopStories.mockResolvedValue([1, 2]);
+      mockedApi.getItems.mockResolvedValue(shortcutStories);
+      const onAnnounce = vi.fn();
+      render(<StoryList viewMode="compact" sortMode="default" onAnnounce={onAnnounce} {...props} />);
+      await waitFor(() => {
+        expect(screen.getByText('Text story')).toBeInTheDocument();
+      });
+      return onAnnounce;
+    };
+
+    const press = (key: string, target: Element = document.body) => fireEvent.keyDown(target, { key });
+    const selectedTitle = () => document.querySelector('.keyboard-selected h3')?.textContent;
+
+    it('moves between stories with j and k and announces them', async () => {
+      const onAnnounce = await renderList();
+
+      expect(document.querySelector('.keyboard-selected')).toBeNull();
+
+      press('j');
+      expect(selectedTitle()).toContain('Linked story');
+      expect(onAnnounce).toHaveBeenLastCalledWith('Story 1 of 2: Linked story');
+
+      press('j');
+      press('j');
+      expect(selectedTitle()).toContain('Text story');
+
+      press('k');
+      expect(selectedTitle()).toContain('Linked story');
+      expect(document.querySelector('.keyboard-selected')).toHaveAttribute('aria-current', 'true');
+    });
+
+    it('opens the selected story link, or its discussion when it has none', async () => {
+      const openSpy = vi.spyOn(window, 'open').mockImplementation(() => null);
+      await renderList();
+
+      press('j');
+      press('o');
+      expect(openSpy).toHaveBeenCalledWith('https://example.com/a', '_blank', 'noopener,noreferrer');
+
+      press('j');
+      press('o');
+      expect(window.location.hash).toBe('#/item/2');
+      window.location.hash = '';
+    });
+
+    it('toggles inline comments, hides and saves the selected story', async () => {
+      const onAnnounce = await renderList();
+
+      press('j');
+      press('j');
+      press('c');
+      expect(screen.getByRole('button', { name: 'Hide comments inline' })).toHaveAttribute('aria-expanded', 'true');
+      expect(onAnnounce).toHaveBeenLastCalledWith('Comments shown');
+
+      press('s');
+      expect(getSavedStories().map(entry => entry.id)).toEqual([2]);
+      press('s');
+      expect(getSavedStories()).toEqual([]);
+      expect(onAnnounce).toHaveBeenLastCalledWith('Removed from reading list');
+
+      press('h');
+      expect(screen.queryByText('Text story')).not.toBeInTheDocument();
+      expect(onAnnounce).toHaveBeenLastCalledWith('Story hidden');
+    });
+
+    it('ignores shortcuts while the list is inactive', async () => {
+      await renderList({ active: false });
+
+      press('j');
+      expect(document.querySelector('.keyboard-selected')).toBeNull();
+    });
+
+    it('ignores keys typed into form fields', async () => {
+      await renderList();
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+
+      press('j', input);
+      expect(document.querySelector('.keyboard-selected')).toBeNull();
+      press('j');
+      expect(document.querySelector('.keyboard-selected')).not.toBeNull();
+
+      input.remove();
+    });
+  });
+
+  describe('virtualization', () => {
+    it('only mounts the stories near the viewport', async () => {
+      const ids = Array.from({ length: 60 }, (_, i) => i + 1);
+      const stories = ids.slice(0, 30).map(id => ({
+        id, type: 'story' as const, by: 'user', time: 1640995200, title: `Story number ${id}`, score: id,
+      }));
+      mockedApi.getTopStories.mockResolvedValue(ids);
+      mockedApi.getItems.mockResolvedValue(stories);
+
+      render(<StoryList viewMode="full" sortMode="default" />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/Story number 1(?!\d)/)).toBeInTheDocument();
+      });
+
+      const mounted = document.querySelectorAll('.story-card');
+      expect(mounted.length).toBeGreaterThan(1);
+      expect(mounted.length).toBeLessThan(30);
+      expect(screen.queryByText(/Story number 30/)).not.toBeInTheDocument();
+      expect(screen.getByRole('list')).toHaveClass('stories-viewport');
+    });
+  });
+
+  describe('infinite scroll', () => {
+    const ids = Array.from({ length: 60 }, (_, i) => i + 1);
+    const makeStory = (id: number) => ({
+      id, type: 'story' as const, by: 'user', time: 1640995200, title: `Paged story ${id}`, score: id,
+    });
+
+    // Captures observers so tests can report the sentinel as visible
+    let observers: { callback: IntersectionObserverCallback; elements: Element[] }[];
+    const OriginalObserver = global.IntersectionObserver;
+
+    const revealSentinel = () => {
+      const sentinel = document.querySelector('.infinite-scroll-sentinel')!;
+      act(() => {
+        observers
+          .filter(observer => observer.elements.includes(sentinel))
+          .forEach(observer => observer.callback(
+            [{ isIntersecting: true, target: sentinel } as unknown as IntersectionObserverEntry],
+            observer as unknown as IntersectionObserver
+          ));
+      });
+    };
+
+    beforeEach(() => {
+      observers = [];
+      global.IntersectionObserver = class {
+        elements: Element[] = [];
+        constructor(public callback: IntersectionObserverCallback) {
+          observers.push(this);
+        }
+        observe(element: Element) { this.elements.push(element); }
+        unobserve() {}
+        disconnect() { this.elements = []; }
+        takeRecords() { return []; }
+      } as unknown as typeof IntersectionObserver;
+
+      mockedApi.getTopStories.mockResolvedValue(ids);
+      mockedApi.getItems.mockImplementation(async (pageIds: number[]) => (
+        pageIds[0] === 1 ? [1, 2, 3].map(makeStory) : [31, 32].map(makeStory)
+      ));
+    });
+
+    afterEach(() => {
+      global.IntersectionObserver = OriginalObserver;
+      vi.restoreAllMocks();
+    });
+
+    it('loads the next page when the sentinel comes into view', async () => {
+      render(<StoryList viewMode="title" sortMode="default" infiniteScroll={true} />);
+
+      await waitFor(() => {
+        expect(document.querySelector('.infinite-scroll-sentinel')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Load More Stories')).not.toBeInTheDocument();
+
+      revealSentinel();
+
+      await waitFor(() => {
+        expect(screen.getByText(/Paged story 31/)).toBeInTheDocument();
+      });
+    });
+
+    it('prefetches the next page before the end is reached', async () => {
+      render(<StoryList viewMode="title" sortMode="default" infiniteScroll={true} />);
+
+      await waitFor(() => {
+        expect(mockedApi.getItems).toHaveBeenCalledWith(ids.slice(30, 60));
+      });
+      expect(screen.queryByText(/Paged story 31/)).not.toBeInTheDocument();
+    });
+
+    it('offers a retry when a page fails to load', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockedApi.getItems.mockImplementation(async (pageIds: number[]) => (
+        pageIds[0] === 1 ? [1, 2, 3].map(makeStory) : []
+      ));
+
+      render(<StoryList viewMode="title" sortMode="default" infiniteScroll={true} />);
+      await waitFor(() => {
+        expect(document.querySelector('.infinite-scroll-sentinel')).toBeInTheDocument();
+      });
+
+      revealSentinel();
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent('Failed to load more stories.');
+      });
+
+      mockedApi.getItems.mockResolvedValue([31, 32].map(makeStory));
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/Paged story 31/)).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('restores the list scroll position when shown again', async () => {
+      const { rerender } = render(<StoryList viewMode="title" sortMode="default" />);
+      await waitFor(() => {
+        expect(screen.getByText(/Paged story 1/)).toBeInTheDocument();
+      });
+
+      const list = screen.getByRole('list');
+      list.scrollTop = 400;
+      fireEvent.scroll(list);
+
+      rerender(<StoryList viewMode="title" sortMode="default" active={false} />);
+      list.scrollTop = 0;
+      fireEvent.scroll(list);
+
+      rerender(<StoryList viewMode="title" sortMode="default" active={true} />);
+
+      expect(list.scrollTop).toBe(400);
+    });
+  });
+
+  describe('offline revalidation', () => {
+    const story = { id: 1, type: 'story' as const, by: 'alice', time: 1640995200, title: 'Cached story', score: 10 };
+
+    it('refreshes cached stories once the browser is back online', async () => {
+      mockedApi.getTopStories.mockResolvedValue([1]);
+      mockedApi.getItems.mockResolvedValue([story]);
+
+      render(<StoryList viewMode="full" sortMode="default" />);
+      await waitFor(() => {
+        expect(screen.getByText(/Cached story/)).toBeInTheDocument();
+      });
+
+      act(() => {
+        window.dispatchEvent(new Event('offline'));
+        reportCachedData(1700000000000);
+      });
+
+      mockedApi.getItems.mockResolvedValue([{ ...story, title: 'Fresh story' }]);
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText(/Fresh story/)).toBeInTheDocument();
+      });
+      expect(getOfflineStatus().cachedSince).toBeNull();
+    });
+
+    it('retries a failed load once the browser is back online', async () => {
+      mockedApi.getTopStories.mockRejectedValueOnce(new Error('Network Error'));
+
+      render(<StoryList viewMode="full" sortMode="default" />);
+      await waitFor(() => {
+        expect(screen.getByText('Failed to load stories. Please try again later.')).toBeInTheDocument();
+      });
+
+      mockedApi.getTopStories.mockResolvedValue([1]);
+      mockedApi.getItems.mockResolvedValue([story]);
+      act(() => {
+        window.dispatchEvent(new Event('offline'));
+      });
+      act(() => {
+        window.dispatchEvent(new Event('online'));
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText(/Cached story/)).toBeInTheDocument();
+      });
+    });
+  });
+});
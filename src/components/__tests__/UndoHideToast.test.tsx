@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { UndoHideToast, UNDO_HIDE_TIMEOUT_MS } from '../UndoHideToast';
+import { hideArticle, isArticleHidden } from '../../hooks/useHiddenArticles';
+
+describe('UndoHideToast', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stay hidden until a story is hidden', () => {
+    render(<UndoHideToast />);
+
+    expect(screen.queryByText('Story hidden.')).not.toBeInTheDocument();
+  });
+
+  it('should restore the story on undo', () => {
+    render(<UndoHideToast />);
+
+    act(() => hideArticle(42));
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+    expect(isArticleHidden(42)).toBe(false);
+    expect(screen.queryByText('Story hidden.')).not.toBeInTheDocument();
+  });
+
+  it('should disappear on its own and keep the story hidden', () => {
+    vi.useFakeTimers();
+    render(<UndoHideToast />);
+
+    act(() => hideArticle(42));
+    expect(screen.getByRole('status')).toHaveTextContent('Story hidden.');
+
+    act(() => {
+      vi.advanceTimersByTime(UNDO_HIDE_TIMEOUT_MS);
+    });
+
+    expect(screen.queryByText('Story hidden.')).not.toBeInTheDocument();
+    expect(isArticleHidden(42)).toBe(true);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
+import { UserProfile } from '../UserProfile';
+import { hackerNewsApi, type HackerNewsItem } from '../../services/hackerNewsApi';
+
+vi.mock('../../services/hackerNewsApi', () => ({
+  hackerNewsApi: {
+    getUser: vi.fn(),
+    getItems: vi.fn(),
+  },
+}));
+
+vi.mock('date-fns', () => ({
+  formatDistanceToNow: vi.fn(() => '10 years ago'),
+}));
+
+const mockGetUser = vi.mocked(hackerNewsApi.getUser);
+const mockGetItems = vi.mocked(hackerNewsApi.getItems);
+
+const submitted = Array.from({ length: 25 }, (_, i) => 1000 + i);
+
+const mockUser = {
+  id: 'pg',
+  created: 1160418092,
+  karma: 157316,
+  about: 'Bug fixer.<script>alert(1)</script>',
+  submitted,
+};
+
+describe('UserProfile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('shows a loading state while the user is fetched', () => {
+    mockGetUser.mockImplementation(() => new Promise(() => {}));
+
+    render(<UserProfile userId="pg" viewMode="compact" />);
+
+    expect(screen.getByText('Loading user...')).toBeInTheDocument();
+  });
+
+  it('renders karma, account age and sanitized about text', async () => {
+    mockGetUser.mockResolvedValue(mockUser);
+    mockGetItems.mockResolvedValue([]);
+
+    const { container } = render(<UserProfile userId="pg" viewMode="compact" />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { name: 'pg' })).toBeInTheDocument();
+    });
+
+    expect(screen.getByText((157316).toLocaleString())).toBeInTheDocument();
+    expect(screen.getByText('10 years ago')).toBeInTheDocument();
+    expect(container.querySelector('.user-profile-about')?.innerHTML).toBe('Bug fixer.');
+  });
+
+  it('renders stories and comments from the first page of submissions', async () => {
+    mockGetUser.mockResolvedValue(mockUser);
+    mockGetItems.mockResolvedValue([
+      { id: 1000, type: 'story', by: 'pg', time: 1600000000, title: 'A submitted story', score: 10, descendants: 2 },
+      { id: 1001, type: 'comment', by: 'pg', time: 1600000000, text: 'A submitted comment', parent: 1 },
+      { id: 1002, type: 'comment', by: 'pg', time: 1600000000, deleted: true, parent: 1 },
+    ]);
+
+    render(<UserProfile userId="pg" viewMode="compact" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('A submitted story')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('A submitted comment')).toBeInTheDocument();
+    expect(mockGetItems).toHaveBeenCalledWith(submitted.slice(0, 20));
+  });
+
+  it('loads the next page of submissions on demand', async () => {
+    mockGetUser.mockResolvedValue(mockUser);
+    mockGetItems.mockResolvedValue([]);
+
+    render(<UserProfile userId="pg" viewMode="compact" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Checked 20 of 25 submissions')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('Load More Submissions'));
+
+    await waitFor(() => {
+      expect(mockGetItems).toHaveBeenLastCalledWith(submitted.slice(20, 25));
+    });
+    await waitFor(() => {
+      expect(screen.queryByText('Load More Submissions')).not.toBeInTheDocument();
+    });
+  });
+
+  it('shows not found for unknown users', async () => {
+    mockGetUser.mockResolvedValue(null);
+
+    render(<UserProfile userId="nobody" viewMode="compact" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('User not found.')).toBeInTheDocument();
+    });
+  });
+
+  it('offers a retry when the user fails to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetUser.mockRejectedValueOnce(new Error('Network Error'));
+    mockGetUser.mockResolvedValueOnce(mockUser);
+    mockGetItems.mockResolvedValue([]);
+
+    render(<UserProfile userId="pg" viewMode="compact" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load user. Please try again later.')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('User not found.')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Try Again'));
+
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { name: 'pg' })).toBeInTheDocument();
+    });
+  });
+
+  it('ignores submissions that arrive after switching profiles', async () => {
+    let resolveFirstPage: (items: HackerNewsItem[]) => void = () => {};
+    mockGetUser.mockImplementation(async (id) => ({ ...mockUser, id, submitted: id === 'pg' ? [1000] : [2000] }));
+    mockGetItems.mockImplementationOnce(() => new Promise(resolve => { resolveFirstPage = resolve; }));
+    mockGetItems.mockResolvedValueOnce([
+      { id: 2000, type: 'story', by: 'dang', time: 1600000000, title: 'Second profile story', score: 1 },
+    ]);
+
+    const { rerender } = render(<UserProfile userId="pg" viewMode="compact" />);
+    await waitFor(() => {
+      expect(mockGetItems).toHaveBeenCalledWith([1000]);
+    });
+
+    rerender(<UserProfile userId="dang" viewMode="compact" />);
+    await waitFor(() => {
+      expect(screen.getByText('Second profile story')).toBeInTheDocument();
+    });
+
+    await act(async () => {
+      resolveFirstPage([{ id: 1000, type: 'story', by: 'pg', time: 1600000000, title: 'First profile story', score: 1 }]);
+    });
+
+    expect(screen.queryByText('First profile story')).not.toBeInTheDocument();
+    expect(screen.queryByText('Load More Submissions')).not.toBeInTheDocument();
+  });
+});
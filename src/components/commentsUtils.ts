@@ -1,18 +1,15 @@
-import type { HackerNewsItem } from '../services/hackerNewsApi';
 import type { hackerNewsApi } from '../services/hackerNewsApi';
+import { fetchCommentTree, EMPTY_COMMENT_TREE, type CommentTree } from '../utils/commentTree';
 
-export interface CommentWithLevel extends HackerNewsItem {
-  level: number;
-  hasUnloadedReplies?: boolean;
-  replyCount?: number;
-}
-
-export const commentsCache = new Map<number, CommentWithLevel[]>();
+// Top-level-only trees for inline comments, keyed by story id
+export const commentsCache = new Map<number, CommentTree>();
 export const loadingCommentsSet = new Set<number>();
 
+// Comments need something to show; items without text are skipped
+export const hasCommentText = (comment: { text?: string }) => !!comment.text;
+
 export async function preloadComments(
   storyId: number,
-  buildCommentTree: (commentIds: number[], level: number) => Promise<CommentWithLevel[]>,
   api: typeof hackerNewsApi
 ): Promise<void> {
   if (commentsCache.has(storyId) || loadingCommentsSet.has(storyId)) {
@@ -24,15 +21,43 @@ export async function preloadComments(
   try {
     const story = await api.getItem(storyId);
     if (!story || !story.kids) {
-      commentsCache.set(storyId, []);
+      commentsCache.set(storyId, EMPTY_COMMENT_TREE);
       return;
     }
 
-    const commentsData = await buildCommentTree(story.kids, 0);
-    commentsCache.set(storyId, commentsData);
+    const tree = await fetchCommentTree(story.kids, id => api.getItem(id), { maxDepth: 0, include: hasCommentText });
+    commentsCache.set(storyId, tree);
   } catch (err) {
     console.warn(`Failed to preload comments for story ${storyId}:`, err);
   } finally {
     loadingCommentsSet.delete(storyId);
   }
 }
+
+/**
+ * Moves focus to the next or previous top-level comment on screen, starting
+ * from the focused comment (or either end of the page). Returns the comment
+ * focused, or null when there is none in that direction.
+ */
+export const focusAdjacentComment = (direction: 1 | -1): HTMLElement | null => {
+  const topLevel = Array.from(document.querySelectorAll<HTMLElement>('.comments-section .comment.level-0'))
+    .filter(element => !element.closest('[hidden]'));
+  const current = document.activeElement?.closest('.comments-section .comment') ?? null;
+
+  let target: HTMLElement | undefined;
+  if (!current) {
+    target = direction === 1 ? topLevel[0] : topLevel[topLevel.length - 1];
+  } else if (direction === 1) {
+    target = topLevel.find(element => current.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING);
+  } else {
+    // A reply's own top-level comment counts as the previous one
+    target = topLevel.filter(element =>
+      element !== current && current.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_PRECEDING
+    ).pop();
+  }
+
+  if (!target) return null;
+  target.scrollIntoView?.({ block: 'start' });
+  target.focus();
+  return target;
+};
@@ -0,0 +1,77 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  useCommentOptions,
+  sanitizeCommentOptions,
+  resetCommentOptionsStore,
+  COMMENT_OPTIONS_KEY,
+  DEFAULT_COMMENT_OPTIONS,
+} from '../useCommentOptions';
+
+describe('useCommentOptions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetCommentOptionsStore();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start with the defaults', () => {
+    const { result } = renderHook(() => useCommentOptions());
+
+    expect(result.current.options).toEqual(DEFAULT_COMMENT_OPTIONS);
+  });
+
+  it('should update, persist and share options', () => {
+    const first = renderHook(() => useCommentOptions());
+    const second = renderHook(() => useCommentOptions());
+
+    act(() => {
+      first.result.current.updateOptions({ layout: 'flat', initialDepth: 'all' });
+    });
+
+    const expected = { ...DEFAULT_COMMENT_OPTIONS, layout: 'flat', initialDepth: 'all' };
+    expect(second.result.current.options).toEqual(expected);
+    expect(JSON.parse(localStorage.getItem(COMMENT_OPTIONS_KEY) || '{}')).toEqual(expected);
+  });
+
+  it('should load stored options and drop invalid values', () => {
+    localStorage.setItem(COMMENT_OPTIONS_KEY, JSON.stringify({ sort: 'replies', layout: 'spiral', initialDepth: 2 }));
+    resetCommentOptionsStore();
+
+    const { result } = renderHook(() => useCommentOptions());
+
+    expect(result.current.options).toEqual({ sort: 'replies', layout: 'threaded', initialDepth: 2 });
+  });
+
+  it('should fall back to defaults for corrupt storage', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(COMMENT_OPTIONS_KEY, '{not json');
+    resetCommentOptionsStore();
+
+    const { result } = renderHook(() => useCommentOptions());
+
+    expect(result.current.options).toEqual(DEFAULT_COMMENT_OPTIONS);
+    expect(consoleWarnSpy).toHaveBeenCalled();
+  });
+
+  it('should sync options changed in another tab', () => {
+    const { result } = renderHook(() => useCommentOptions());
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: COMMENT_OPTIONS_KEY,
+        newValue: JSON.stringify({ sort: 'oldest' }),
+      }));
+    });
+
+    expect(result.current.options).toEqual({ ...DEFAULT_COMMENT_OPTIONS, sort: 'oldest' });
+  });
+
+  it('should sanitize non-object values to the defaults', () => {
+    expect(sanitizeCommentOptions(null)).toEqual(DEFAULT_COMMENT_OPTIONS);
+    expect(sanitizeCommentOptions('flat')).toEqual(DEFAULT_COMMENT_OPTIONS);
+  });
+});
@@ -0,0 +1,35 @@
+import { renderHook } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { useDisplaySettings, sanitizeDisplaySettings, DEFAULT_DISPLAY_SETTINGS } from '../useDisplaySettings';
+
+describe('useDisplaySettings', () => {
+  afterEach(() => {
+    document.documentElement.removeAttribute('style');
+  });
+
+  it('should set the CSS variables on the document', () => {
+    const { rerender } = renderHook((props) => useDisplaySettings(props), {
+      initialProps: DEFAULT_DISPLAY_SETTINGS,
+    });
+    const { style } = document.documentElement;
+
+    expect(style.getPropertyValue('--font-scale')).toBe('1');
+    expect(style.getPropertyValue('--content-width')).toBe('700px');
+
+    rerender({ fontSize: 115, lineHeight: 1.4, contentWidth: 1200, commentIndent: 28 });
+
+    expect(style.getPropertyValue('--font-scale')).toBe('1.15');
+    expect(style.getPropertyValue('--line-height-scale')).toBe('1.4');
+    expect(style.getPropertyValue('--content-width')).toBe('1200px');
+    expect(style.getPropertyValue('--comment-indent')).toBe('28px');
+  });
+
+  it('should replace values that are not offered with the defaults', () => {
+    expect(sanitizeDisplaySettings({ fontSize: 130, lineHeight: 3, contentWidth: '900', commentIndent: 6 })).toEqual({
+      ...DEFAULT_DISPLAY_SETTINGS,
+      fontSize: 130,
+      commentIndent: 6,
+    });
+    expect(sanitizeDisplaySettings(null)).toEqual(DEFAULT_DISPLAY_SETTINGS);
+  });
+});
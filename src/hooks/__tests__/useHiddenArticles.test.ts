@@ -1,5 +1,11 @@
 import { renderHook, act } from '@testing-library/react';
-import { useHiddenArticles, STORAGE_KEY } from '../useHiddenArticles';
+import {
+  useHiddenArticles,
+  STORAGE_KEY,
+  HIDDEN_MAX_AGE_MS,
+  HIDDEN_MAX_ENTRIES,
+  resetHiddenArticlesStore,
+} from '../useHiddenArticles';
 import type { MockInstance } from 'vitest';
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 
@@ -8,6 +14,7 @@ describe('useHiddenArticles', () => {
 
   beforeEach(() => {
     localStorage.clear();
+    resetHiddenArticlesStore();
     consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
   });
 
@@ -24,6 +31,7 @@ describe('useHiddenArticles', () => {
 
   it('should initialize with values from localStorage if present', () => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify([1, 2, 3]));
+    resetHiddenArticlesStore();
 
     const { result } = renderHook(() => useHiddenArticles());
 
@@ -35,6 +43,7 @@ describe('useHiddenArticles', () => {
 
   it('should handle invalid JSON in localStorage gracefully', () => {
     localStorage.setItem(STORAGE_KEY, 'invalid json');
+    resetHiddenArticlesStore();
 
     const { result } = renderHook(() => useHiddenArticles());
 
@@ -54,11 +63,12 @@ describe('useHiddenArticles', () => {
 
     // Test that localStorage is updated
     const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
-    expect(stored).toContain(123);
+    expect(stored).toContainEqual({ id: 123, hiddenAt: expect.any(Number) });
   });
 
   it('should remove an article from hidden list when showArticle is called', () => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify([123, 456]));
+    resetHiddenArticlesStore();
 
     const { result } = renderHook(() => useHiddenArticles());
 
@@ -70,7 +80,7 @@ describe('useHiddenArticles', () => {
     expect(result.current.hiddenArticles.has(456)).toBe(true);
 
     // Test that localStorage is updated
-    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]').map((entry: { id: number }) => entry.id);
     expect(stored).not.toContain(123);
     expect(stored).toContain(456);
   });
@@ -89,6 +99,7 @@ describe('useHiddenArticles', () => {
 
   it('should clear all hidden articles when clearAllHidden is called', () => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify([1, 2, 3]));
+    resetHiddenArticlesStore();
 
     const { result } = renderHook(() => useHiddenArticles());
 
@@ -104,4 +115,92 @@ describe('useHiddenArticles', () => {
     const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
     expect(stored.length).toBe(0);
   });
+
+  it('should share hidden articles between components', () => {
+    const first = renderHook(() => useHiddenArticles());
+    const second = renderHook(() => useHiddenArticles());
+
+    act(() => {
+      first.result.current.hideArticle(7);
+    });
+    expect(second.result.current.isArticleHidden(7)).toBe(true);
+
+    act(() => {
+      second.result.current.clearAllHidden();
+    });
+    expect(first.result.current.isArticleHidden(7)).toBe(false);
+  });
+
+  it('should migrate bare ids to timestamped entries', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(5000);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([1, 2, 'x']));
+    resetHiddenArticlesStore();
+
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')).toEqual([
+      { id: 1, hiddenAt: 5000 },
+      { id: 2, hiddenAt: 5000 },
+    ]);
+  });
+
+  it('should drop entries older than the retention period', () => {
+    const now = 100 * 24 * 3600000;
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([
+      { id: 1, hiddenAt: now - HIDDEN_MAX_AGE_MS - 1 },
+      { id: 2, hiddenAt: now - 1000 },
+    ]));
+    resetHiddenArticlesStore();
+
+    const { result } = renderHook(() => useHiddenArticles());
+
+    expect(Array.from(result.current.hiddenArticles)).toEqual([2]);
+  });
+
+  it('should keep only the most recently hidden entries beyond the size limit', () => {
+    const now = vi.spyOn(Date, 'now');
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(
+      Array.from({ length: HIDDEN_MAX_ENTRIES }, (_, index) => ({ id: index + 1, hiddenAt: index + 1 }))
+    ));
+    now.mockReturnValue(HIDDEN_MAX_ENTRIES + 1);
+    resetHiddenArticlesStore();
+    const { result } = renderHook(() => useHiddenArticles());
+
+    act(() => {
+      result.current.hideArticle(99999);
+    });
+
+    expect(result.current.hiddenArticles.size).toBe(HIDDEN_MAX_ENTRIES);
+    expect(result.current.isArticleHidden(99999)).toBe(true);
+    expect(result.current.isArticleHidden(1)).toBe(false);
+  });
+
+  it('should offer to undo the most recent hide', () => {
+    const { result } = renderHook(() => useHiddenArticles());
+
+    act(() => {
+      result.current.hideArticle(1);
+      result.current.hideArticle(2);
+    });
+    expect(result.current.recentlyHidden).toBe(2);
+
+    act(() => {
+      result.current.undoHide();
+    });
+
+    expect(result.current.isArticleHidden(2)).toBe(false);
+    expect(result.current.isArticleHidden(1)).toBe(true);
+    expect(result.current.recentlyHidden).toBeNull();
+  });
+
+  it('should keep isArticleHidden stable as entries change', () => {
+    const { result } = renderHook(() => useHiddenArticles());
+    const { isArticleHidden } = result.current;
+
+    act(() => {
+      result.current.hideArticle(1);
+    });
+
+    expect(result.current.isArticleHidden).toBe(isArticleHidden);
+    expect(isArticleHidden(1)).toBe(true);
+  });
 });
@@ -0,0 +1,124 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useLiveUpdates, diffRanking, LIVE_POLL_INTERVAL_MS } from '../useLiveUpdates';
+import { hackerNewsApi } from '../../services/hackerNewsApi';
+import { makeStory } from '../../test/fixtures';
+
+vi.mock('../../services/hackerNewsApi');
+const mockedApi = vi.mocked(hackerNewsApi);
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+// Advances past the next poll and lets its promise chain settle
+const advance = async (ms: number) => {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+};
+
+describe('diffRanking', () => {
+  it('should count new stories within the loaded window', () => {
+    expect(diffRanking([9, 1, 2, 3], [1, 2, 3])).toEqual({ newStoryCount: 1, ranksChanged: false });
+  });
+
+  it('should detect reordered stories', () => {
+    expect(diffRanking([2, 1, 3], [1, 2, 3])).toEqual({ newStoryCount: 0, ranksChanged: true });
+  });
+
+  it('should report nothing when the ranking is unchanged', () => {
+    expect(diffRanking([1, 2, 3, 4], [1, 2, 3])).toEqual({ newStoryCount: 0, ranksChanged: false });
+  });
+});
+
+describe('useLiveUpdates', () => {
+  const storyIds = [1, 2, 3];
+  const loadedIds = [1, 2, 3];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    setVisibility('visible');
+    mockedApi.getUpdates.mockResolvedValue({ items: [], profiles: [] });
+    mockedApi.getTopStories.mockResolvedValue(storyIds);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setVisibility('visible');
+    vi.restoreAllMocks();
+  });
+
+  it('should not poll when disabled', async () => {
+    renderHook(() => useLiveUpdates({ enabled: false, category: 'top', storyIds, loadedIds, onItemsUpdated: vi.fn() }));
+
+    await advance(LIVE_POLL_INTERVAL_MS * 2);
+
+    expect(mockedApi.getUpdates).not.toHaveBeenCalled();
+  });
+
+  it('should refresh changed loaded items in place', async () => {
+    const onItemsUpdated = vi.fn();
+    mockedApi.getUpdates.mockResolvedValue({ items: [2, 99], profiles: [] });
+    mockedApi.refreshItems.mockResolvedValue([makeStory(2, { score: 500 })]);
+
+    renderHook(() => useLiveUpdates({ enabled: true, category: 'top', storyIds, loadedIds, onItemsUpdated }));
+    await advance(LIVE_POLL_INTERVAL_MS);
+
+    expect(mockedApi.refreshItems).toHaveBeenCalledWith([2]);
+    expect(onItemsUpdated).toHaveBeenCalledWith([makeStory(2, { score: 500 })]);
+  });
+
+  it('should report new stories and rank changes without applying them', async () => {
+    mockedApi.getTopStories.mockResolvedValue([7, 2, 1, 3]);
+
+    const { result } = renderHook(() => useLiveUpdates({ enabled: true, category: 'top', storyIds, loadedIds, onItemsUpdated: vi.fn() }));
+    await advance(LIVE_POLL_INTERVAL_MS);
+
+    expect(result.current).toEqual({ newStoryCount: 1, ranksChanged: true });
+  });
+
+  it('should clear the report when a new ranking is loaded', async () => {
+    mockedApi.getTopStories.mockResolvedValue([7, 1, 2]);
+
+    const { result, rerender } = renderHook(
+      ({ ids }) => useLiveUpdates({ enabled: true, category: 'top', storyIds: ids, loadedIds, onItemsUpdated: vi.fn() }),
+      { initialProps: { ids: storyIds } }
+    );
+    await advance(LIVE_POLL_INTERVAL_MS);
+    expect(result.current.newStoryCount).toBe(1);
+
+    rerender({ ids: [7, 1, 2] });
+
+    expect(result.current.newStoryCount).toBe(0);
+  });
+
+  it('should pause while the tab is hidden and poll again once visible', async () => {
+    renderHook(() => useLiveUpdates({ enabled: true, category: 'top', storyIds, loadedIds, onItemsUpdated: vi.fn() }));
+
+    act(() => setVisibility('hidden'));
+    await advance(LIVE_POLL_INTERVAL_MS * 3);
+    expect(mockedApi.getUpdates).not.toHaveBeenCalled();
+
+    act(() => setVisibility('visible'));
+    await advance(0);
+    expect(mockedApi.getUpdates).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off after failures', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockedApi.getUpdates.mockRejectedValue(new Error('Circuit breaker is OPEN'));
+
+    renderHook(() => useLiveUpdates({ enabled: true, category: 'top', storyIds, loadedIds, onItemsUpdated: vi.fn() }));
+    await advance(LIVE_POLL_INTERVAL_MS);
+    expect(mockedApi.getUpdates).toHaveBeenCalledTimes(1);
+
+    // The next attempt waits twice as long
+    await advance(LIVE_POLL_INTERVAL_MS);
+    expect(mockedApi.getUpdates).toHaveBeenCalledTimes(1);
+    await advance(LIVE_POLL_INTERVAL_MS);
+    expect(mockedApi.getUpdates).toHaveBeenCalledTimes(2);
+  });
+});
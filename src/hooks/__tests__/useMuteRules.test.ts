@@ -0,0 +1,121 @@
+import { renderHook, act } from '@testing-library/react';
+import type { MockInstance } from 'vitest';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { useMuteRules, resetMuteRulesStore, MUTE_RULES_KEY } from '../useMuteRules';
+
+describe('useMuteRules', () => {
+  let consoleWarnSpy: MockInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    resetMuteRulesStore();
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start with no rules', () => {
+    const { result } = renderHook(() => useMuteRules());
+
+    expect(result.current.rules).toEqual([]);
+  });
+
+  it('should add rules and persist them', () => {
+    const { result } = renderHook(() => useMuteRules());
+
+    act(() => {
+      result.current.addRule('domain', 'example.com');
+    });
+
+    expect(result.current.rules).toHaveLength(1);
+    expect(result.current.rules[0]).toMatchObject({ type: 'domain', pattern: 'example.com' });
+    expect(JSON.parse(localStorage.getItem(MUTE_RULES_KEY) || '[]')).toHaveLength(1);
+  });
+
+  it('should share rules between hook instances', () => {
+    const first = renderHook(() => useMuteRules());
+    const second = renderHook(() => useMuteRules());
+
+    act(() => {
+      first.result.current.addRule('author', 'bob');
+    });
+
+    expect(second.result.current.rules).toHaveLength(1);
+  });
+
+  it('should remove rules along with their suppression counts', () => {
+    const { result } = renderHook(() => useMuteRules());
+
+    let ruleId = '';
+    act(() => {
+      ruleId = result.current.addRule('keyword', 'crypto').id;
+    });
+    act(() => {
+      result.current.recordSuppressed(ruleId, 1);
+    });
+    expect(result.current.suppressedCounts[ruleId]).toBe(1);
+
+    act(() => {
+      result.current.removeRule(ruleId);
+    });
+
+    expect(result.current.rules).toEqual([]);
+    expect(result.current.suppressedCounts[ruleId]).toBeUndefined();
+  });
+
+  it('should count each suppressed item once', () => {
+    const { result } = renderHook(() => useMuteRules());
+
+    let ruleId = '';
+    act(() => {
+      ruleId = result.current.addRule('keyword', 'crypto').id;
+    });
+    act(() => {
+      result.current.recordSuppressed(ruleId, 1);
+      result.current.recordSuppressed(ruleId, 1);
+      result.current.recordSuppressed(ruleId, 2);
+    });
+
+    expect(result.current.suppressedCounts[ruleId]).toBe(2);
+  });
+
+  it('should drop malformed stored rules and keep valid ones', () => {
+    localStorage.setItem(MUTE_RULES_KEY, JSON.stringify([
+      { id: 'a', type: 'keyword', pattern: 'ok', createdAt: 1 },
+      { id: 'b', type: 'bogus', pattern: 'x', createdAt: 1 },
+      { id: 'c', type: 'author', pattern: '', createdAt: 1 },
+      'nonsense',
+    ]));
+    resetMuteRulesStore();
+
+    const { result } = renderHook(() => useMuteRules());
+
+    expect(result.current.rules.map(rule => rule.id)).toEqual(['a']);
+  });
+
+  it('should handle invalid JSON gracefully', () => {
+    localStorage.setItem(MUTE_RULES_KEY, 'invalid json');
+    resetMuteRulesStore();
+
+    const { result } = renderHook(() => useMuteRules());
+
+    expect(result.current.rules).toEqual([]);
+    expect(consoleWarnSpy).toHaveBeenCalledWith('Failed to load mute rules:', expect.any(SyntaxError));
+  });
+
+  it('should sync rules changed in another tab', () => {
+    const { result } = renderHook(() => useMuteRules());
+    const newValue = JSON.stringify([{ id: 'x', type: 'domain', pattern: 'lwn.net', createdAt: 1 }]);
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: MUTE_RULES_KEY, newValue }));
+    });
+
+    expect(result.current.rules).toHaveLength(1);
+    expect(result.current.findStoryMatch({
+      id: 1, type: 'story', time: 0, url: 'https://lwn.net/Articles/1'
+    })).not.toBeNull();
+  });
+});
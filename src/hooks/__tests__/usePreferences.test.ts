@@ -0,0 +1,218 @@
+import { renderHook, act } from '@testing-library/react';
+import type { MockInstance } from 'vitest';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  usePreferences,
+  PREFERENCES_KEY,
+  PREFERENCES_VERSION,
+  DEFAULT_PREFERENCES,
+  LEGACY_KEYS,
+} from '../usePreferences';
+
+const readStored = () => JSON.parse(localStorage.getItem(PREFERENCES_KEY) || 'null');
+
+describe('usePreferences', () => {
+  let consoleWarnSpy: MockInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start from the defaults when nothing is stored', () => {
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+    expect(readStored()).toEqual({ version: PREFERENCES_VERSION, preferences: DEFAULT_PREFERENCES });
+  });
+
+  it('should load stored preferences', () => {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify({
+      version: PREFERENCES_VERSION,
+      preferences: { viewMode: 'compact', sortMode: 'comments', sortDirection: 'asc', category: 'ask', showHiddenArticles: true, filters: DEFAULT_PREFERENCES.filters, liveUpdates: true, infiniteScroll: true, theme: 'dark', display: { fontSize: 115, lineHeight: 1.2, contentWidth: 900, commentIndent: 20 } },
+    }));
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual({
+      viewMode: 'compact',
+      sortMode: 'comments',
+      sortDirection: 'asc',
+      category: 'ask',
+      showHiddenArticles: true,
+      filters: DEFAULT_PREFERENCES.filters,
+      liveUpdates: true,
+      infiniteScroll: true,
+      theme: 'dark',
+      display: { fontSize: 115, lineHeight: 1.2, contentWidth: 900, commentIndent: 20 },
+    });
+  });
+
+  it('should persist updates', () => {
+    const { result } = renderHook(() => usePreferences());
+
+    act(() => {
+      result.current.updatePreferences({ viewMode: 'title', category: 'best' });
+    });
+
+    expect(result.current.preferences.viewMode).toBe('title');
+    expect(readStored().preferences).toMatchObject({ viewMode: 'title', category: 'best' });
+  });
+
+  it('should keep the filters object across unrelated updates', () => {
+    const { result } = renderHook(() => usePreferences());
+    const { filters } = result.current.preferences;
+
+    act(() => {
+      result.current.updatePreferences({ liveUpdates: true });
+    });
+
+    expect(result.current.preferences.filters).toBe(filters);
+
+    act(() => {
+      result.current.updatePreferences({ filters: { ...filters, minScore: 10 } });
+    });
+
+    expect(result.current.preferences.filters).not.toBe(filters);
+    expect(result.current.preferences.filters.minScore).toBe(10);
+  });
+
+  it('should keep the display object when an unrelated preference changes', () => {
+    const { result } = renderHook(() => usePreferences());
+    const { display } = result.current.preferences;
+
+    act(() => {
+      result.current.updatePreferences({ theme: 'dark' });
+    });
+
+    expect(result.current.preferences.display).toBe(display);
+
+    act(() => {
+      result.current.updatePreferences({ display: { ...display, fontSize: 130 } });
+    });
+
+    expect(result.current.preferences.display).not.toBe(display);
+    expect(result.current.preferences.display.fontSize).toBe(130);
+  });
+
+  it('should handle invalid JSON gracefully', () => {
+    localStorage.setItem(PREFERENCES_KEY, 'invalid json');
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+    expect(consoleWarnSpy).toHaveBeenCalledWith('Failed to load preferences:', expect.any(SyntaxError));
+  });
+
+  it('should replace invalid fields with defaults and keep valid ones', () => {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify({
+      version: PREFERENCES_VERSION,
+      preferences: { viewMode: 'huge', sortMode: 42, category: 'new', showHiddenArticles: 'yes', theme: 'sepia' },
+    }));
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual({ ...DEFAULT_PREFERENCES, category: 'new' });
+  });
+
+  it('should sanitize stored filters', () => {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify({
+      version: PREFERENCES_VERSION,
+      preferences: {
+        filters: { minScore: 12.7, minComments: -4, maxAgeHours: 'soon', includeDomains: ['lwn.net', 7], postType: 'video' },
+      },
+    }));
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences.filters).toEqual({
+      minScore: 12,
+      minComments: 0,
+      maxAgeHours: 0,
+      includeDomains: ['lwn.net'],
+      excludeDomains: [],
+      postType: 'all',
+    });
+  });
+
+  it('should ignore records without a version', () => {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify({ viewMode: 'title' }));
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('should migrate legacy per-setting keys and remove them', () => {
+    localStorage.setItem(LEGACY_KEYS.viewMode, 'compact');
+    localStorage.setItem(LEGACY_KEYS.sortMode, JSON.stringify('comments'));
+    localStorage.setItem(LEGACY_KEYS.category, 'show');
+
+    const { result } = renderHook(() => usePreferences());
+
+    expect(result.current.preferences).toMatchObject({
+      viewMode: 'compact',
+      sortMode: 'comments',
+      category: 'show',
+    });
+    expect(localStorage.getItem(LEGACY_KEYS.viewMode)).toBeNull();
+    expect(localStorage.getItem(LEGACY_KEYS.sortMode)).toBeNull();
+    expect(localStorage.getItem(LEGACY_KEYS.category)).toBeNull();
+    expect(readStored().version).toBe(PREFERENCES_VERSION);
+  });
+
+  it('should sync changes made in another tab', () => {
+    const { result } = renderHook(() => usePreferences());
+    const newValue = JSON.stringify({
+      version: PREFERENCES_VERSION,
+      preferences: { ...DEFAULT_PREFERENCES, viewMode: 'compact' },
+    });
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: PREFERENCES_KEY, newValue }));
+    });
+
+    expect(result.current.preferences.viewMode).toBe('compact');
+  });
+
+  it('should ignore storage events for other keys', () => {
+    const { result } = renderHook(() => usePreferences());
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: 'hiddenArticles', newValue: '[1]' }));
+    });
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('should reset to defaults when another tab clears storage', () => {
+    const { result } = renderHook(() => usePreferences());
+
+    act(() => {
+      result.current.updatePreferences({ sortMode: 'comments' });
+    });
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: null }));
+    });
+
+    expect(result.current.preferences).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('should keep current preferences when a synced value is corrupt', () => {
+    const { result } = renderHook(() => usePreferences());
+
+    act(() => {
+      result.current.updatePreferences({ viewMode: 'title' });
+    });
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: PREFERENCES_KEY, newValue: '{bad' }));
+    });
+
+    expect(result.current.preferences.viewMode).toBe('title');
+    expect(consoleWarnSpy).toHaveBeenCalledWith('Failed to sync preferences:', expect.any(SyntaxError));
+  });
+});
@@ -0,0 +1,151 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ImportResult } from '../../types/ui';
+import {
+  useReadingList,
+  resetReadingListStore,
+  refreshSavedSnapshot,
+  importSavedStories,
+  parseTags,
+  READING_LIST_KEY,
+} from '../useReadingList';
+import { makeStory } from '../../test/fixtures';
+
+const readStored = () => JSON.parse(localStorage.getItem(READING_LIST_KEY) || '[]');
+
+describe('useReadingList', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetReadingListStore();
+  });
+
+  it('should save a snapshot of the story, newest first', () => {
+    const { result } = renderHook(() => useReadingList());
+
+    act(() => {
+      result.current.save(makeStory(1));
+      result.current.save(makeStory(2));
+      result.current.save(makeStory(1));
+    });
+
+    expect(result.current.items.map(entry => entry.id)).toEqual([2, 1]);
+    expect(result.current.items[1]).toMatchObject({ story: makeStory(1), tags: [], note: '', read: false });
+    expect(result.current.isSaved(1)).toBe(true);
+    expect(result.current.unreadCount).toBe(2);
+    expect(readStored()).toHaveLength(2);
+  });
+
+  it('should remove saved stories', () => {
+    const { result } = renderHook(() => useReadingList());
+
+    act(() => {
+      result.current.save(makeStory(1));
+      result.current.remove(1);
+    });
+
+    expect(result.current.items).toEqual([]);
+    expect(result.current.isSaved(1)).toBe(false);
+    expect(readStored()).toEqual([]);
+  });
+
+  it('should track read state and details', () => {
+    const { result } = renderHook(() => useReadingList());
+
+    act(() => {
+      result.current.save(makeStory(1));
+      result.current.setRead(1, true);
+      result.current.updateDetails(1, { tags: ['rust', 'later'], note: 'Check the benchmarks' });
+    });
+
+    expect(result.current.items[0]).toMatchObject({ read: true, tags: ['rust', 'later'], note: 'Check the benchmarks' });
+    expect(result.current.unreadCount).toBe(0);
+    expect(readStored()[0].read).toBe(true);
+  });
+
+  it('should ignore updates for stories that are not saved', () => {
+    const { result } = renderHook(() => useReadingList());
+
+    act(() => {
+      result.current.setRead(99, true);
+      refreshSavedSnapshot(makeStory(99));
+    });
+
+    expect(result.current.items).toEqual([]);
+    expect(localStorage.getItem(READING_LIST_KEY)).toBeNull();
+  });
+
+  it('should refresh the snapshot when newer data is rendered', () => {
+    const { result } = renderHook(() => useReadingList());
+
+    act(() => {
+      result.current.save(makeStory(1));
+      refreshSavedSnapshot(makeStory(1, { score: 250, descendants: 40 }));
+    });
+
+    expect(result.current.items[0].story).toMatchObject({ score: 250, descendants: 40 });
+  });
+
+  it('should keep the snapshot when an older or partial copy is rendered', () => {
+    const { result } = renderHook(() => useReadingList());
+    const saved = makeStory(1, { score: 100, descendants: 20, kids: [2, 3], url: 'https://example.com' });
+
+    act(() => {
+      result.current.save(saved);
+      // An offline-cache copy from before the story gained points
+      refreshSavedSnapshot({ ...saved, score: 80, title: 'Old title' });
+      // A copy without the reply ids
+      refreshSavedSnapshot({ ...saved, score: 150, kids: undefined });
+    });
+
+    expect(result.current.items[0].story).toBe(saved);
+  });
+
+  it('should drop malformed stored entries', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(READING_LIST_KEY, JSON.stringify([
+      { id: 1, story: makeStory(1), savedAt: 1, tags: [], note: '', read: false },
+      { id: 2, story: makeStory(3), savedAt: 1, tags: [], note: '', read: false },
+      { id: 4, savedAt: 1 },
+    ]));
+    resetReadingListStore();
+
+    const { result } = renderHook(() => useReadingList());
+
+    expect(result.current.items.map(entry => entry.id)).toEqual([1]);
+  });
+
+  it('should skip imported entries whose story snapshot is invalid', () => {
+    const entry = (id: number, snapshot: unknown) => ({ id, story: snapshot, savedAt: id, tags: [], note: '', read: false });
+    const { result } = renderHook(() => useReadingList());
+
+    let report: ImportResult | undefined;
+    act(() => {
+      report = importSavedStories([
+        entry(1, makeStory(1)),
+        entry(2, { id: 2 }),
+        entry(3, { ...makeStory(3), title: undefined }),
+        entry(4, { ...makeStory(4), type: 'unknown' }),
+      ], 'merge');
+    });
+
+    expect(report).toEqual({ imported: 1, skipped: 3 });
+    expect(result.current.items.map(saved => saved.id)).toEqual([1]);
+  });
+
+  it('should sync saves from other tabs', () => {
+    const { result } = renderHook(() => useReadingList());
+    const entries = [{ id: 7, story: makeStory(7), savedAt: 1, tags: [], note: '', read: false }];
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: READING_LIST_KEY, newValue: JSON.stringify(entries) }));
+    });
+
+    expect(result.current.isSaved(7)).toBe(true);
+  });
+});
+
+describe('parseTags', () => {
+  it('should trim, lower-case and de-duplicate tags', () => {
+    expect(parseTags(' Rust, later,,rust ,  ')).toEqual(['rust', 'later']);
+  });
+});
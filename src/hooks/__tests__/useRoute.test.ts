@@ -0,0 +1,96 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { useRoute, parseRoute, routeToHref } from '../useRoute';
+
+describe('parseRoute', () => {
+  it('should map empty and root hashes to top stories', () => {
+    expect(parseRoute('')).toEqual({ name: 'category', category: 'top' });
+    expect(parseRoute('#/')).toEqual({ name: 'category', category: 'top' });
+  });
+
+  it('should parse category routes', () => {
+    expect(parseRoute('#/new')).toEqual({ name: 'category', category: 'new' });
+    expect(parseRoute('#/best/')).toEqual({ name: 'category', category: 'best' });
+    expect(parseRoute('#/jobs')).toEqual({ name: 'category', category: 'job' });
+  });
+
+  it('should parse item and about routes', () => {
+    expect(parseRoute('#/item/8863')).toEqual({ name: 'item', id: 8863 });
+    expect(parseRoute('#/about')).toEqual({ name: 'about' });
+    expect(parseRoute('#/user/dang')).toEqual({ name: 'user', id: 'dang' });
+    expect(parseRoute('#/saved')).toEqual({ name: 'saved' });
+  });
+
+  it('should parse search routes with defaults for missing or invalid options', () => {
+    expect(parseRoute('#/search?q=rust%20async')).toEqual({
+      name: 'search', query: 'rust async', sort: 'relevance', type: 'story', range: 'all'
+    });
+    expect(parseRoute('#/search?q=sqlite&sort=date&type=comment&range=week')).toEqual({
+      name: 'search', query: 'sqlite', sort: 'date', type: 'comment', range: 'week'
+    });
+    expect(parseRoute('#/search?q=x&sort=bogus')).toMatchObject({ sort: 'relevance' });
+  });
+
+  it('should treat searches without a query as unknown', () => {
+    expect(parseRoute('#/search?q=%20')).toEqual({ name: 'category', category: 'top' });
+  });
+
+  it('should fall back to top stories for unknown paths and in-page anchors', () => {
+    expect(parseRoute('#/item/abc')).toEqual({ name: 'category', category: 'top' });
+    expect(parseRoute('#/item/0')).toEqual({ name: 'category', category: 'top' });
+    expect(parseRoute('#main-content')).toEqual({ name: 'category', category: 'top' });
+  });
+});
+
+describe('routeToHref', () => {
+  it('should round-trip through parseRoute', () => {
+    const routes = [
+      { name: 'category', category: 'top' },
+      { name: 'category', category: 'new' },
+      { name: 'item', id: 42 },
+      { name: 'about' },
+      { name: 'saved' },
+      { name: 'search', query: 'what? & why', sort: 'date', type: 'all', range: 'year' },
+    ] as const;
+
+    routes.forEach(route => {
+      expect(parseRoute(routeToHref(route))).toEqual(route);
+    });
+  });
+
+  it('should leave default search options out of the URL', () => {
+    expect(routeToHref({ name: 'search', query: 'go', sort: 'relevance', type: 'story', range: 'all' })).toBe('#/search?q=go');
+  });
+});
+
+describe('useRoute', () => {
+  it('should initialize from the current location hash', () => {
+    window.location.hash = '#/best';
+
+    const { result } = renderHook(() => useRoute());
+
+    expect(result.current.route).toEqual({ name: 'category', category: 'best' });
+  });
+
+  it('should update the route and the location hash on navigate', () => {
+    const { result } = renderHook(() => useRoute());
+
+    act(() => {
+      result.current.navigate({ name: 'item', id: 123 });
+    });
+
+    expect(result.current.route).toEqual({ name: 'item', id: 123 });
+    expect(window.location.hash).toBe('#/item/123');
+  });
+
+  it('should follow hashchange events from back/forward navigation', () => {
+    const { result } = renderHook(() => useRoute());
+
+    act(() => {
+      window.location.hash = '#/about';
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(result.current.route).toEqual({ name: 'about' });
+  });
+});
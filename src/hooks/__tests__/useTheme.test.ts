@@ -0,0 +1,81 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { useTheme, resolveTheme, THEME_COLORS } from '../useTheme';
+import type { ThemePreference } from '../../types/ui';
+
+// jsdom has no matchMedia; this stands in for the OS dark mode setting
+const stubColorScheme = (dark: boolean) => {
+  const listeners = new Set<() => void>();
+  const query = {
+    matches: dark,
+    addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+  };
+  vi.stubGlobal('matchMedia', vi.fn(() => query));
+  return {
+    setDark(next: boolean) {
+      query.matches = next;
+      listeners.forEach(listener => listener());
+    },
+  };
+};
+
+describe('useTheme', () => {
+  let meta: HTMLMetaElement;
+
+  beforeEach(() => {
+    meta = document.createElement('meta');
+    meta.name = 'theme-color';
+    meta.content = '#006666';
+    document.head.appendChild(meta);
+  });
+
+  afterEach(() => {
+    meta.remove();
+    delete document.documentElement.dataset.theme;
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve the system preference from the color scheme', () => {
+    expect(resolveTheme('system', false)).toBe('light');
+    expect(resolveTheme('system', true)).toBe('dark');
+    expect(resolveTheme('high-contrast', false)).toBe('high-contrast');
+    expect(resolveTheme('light', true)).toBe('light');
+  });
+
+  it('should apply an explicit theme to the document and theme-color', () => {
+    const { result, rerender } = renderHook(({ theme }) => useTheme(theme), {
+      initialProps: { theme: 'dark' as ThemePreference },
+    });
+
+    expect(result.current).toBe('dark');
+    expect(document.documentElement.dataset.theme).toBe('dark');
+    expect(meta.content).toBe(THEME_COLORS.dark);
+
+    rerender({ theme: 'high-contrast' });
+
+    expect(document.documentElement.dataset.theme).toBe('high-contrast');
+    expect(meta.content).toBe(THEME_COLORS['high-contrast']);
+  });
+
+  it('should follow the OS color scheme when set to system', () => {
+    const scheme = stubColorScheme(true);
+    const { result } = renderHook(() => useTheme('system'));
+
+    expect(result.current).toBe('dark');
+
+    act(() => {
+      scheme.setDark(false);
+    });
+
+    expect(result.current).toBe('light');
+    expect(document.documentElement.dataset.theme).toBe('light');
+    expect(meta.content).toBe(THEME_COLORS.light);
+  });
+
+  it('should fall back to light without matchMedia', () => {
+    const { result } = renderHook(() => useTheme('system'));
+
+    expect(result.current).toBe('light');
+  });
+});
@@ -0,0 +1,104 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  useStoryVisit,
+  recordVisit,
+  countNewComments,
+  newCommentMatcher,
+  resetVisitedStoriesStore,
+  VISITED_STORIES_KEY,
+  MAX_VISITED_STORIES,
+} from '../useVisitedStories';
+
+const readStored = () => JSON.parse(localStorage.getItem(VISITED_STORIES_KEY) || '{}');
+
+describe('useVisitedStories', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetVisitedStoriesStore();
+  });
+
+  it('should record visits and accumulate seen comment ids', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const { result } = renderHook(() => useStoryVisit(1));
+
+    expect(result.current).toBeUndefined();
+
+    act(() => {
+      recordVisit(1, 10, [11, 12]);
+      recordVisit(1, undefined, [12, 13]);
+    });
+
+    expect(result.current).toEqual({ visitedAt: 1000, descendants: 10, seenCommentIds: [11, 12, 13] });
+    expect(readStored()[1]).toEqual(result.current);
+  });
+
+  it('should only re-render cards for the story that changed', () => {
+    const { result } = renderHook(() => useStoryVisit(1));
+    act(() => recordVisit(1, 3, []));
+    const first = result.current;
+
+    act(() => recordVisit(2, 5, []));
+
+    expect(result.current).toBe(first);
+  });
+
+  it('should forget the oldest visits beyond the limit', () => {
+    const now = vi.spyOn(Date, 'now');
+    for (let id = 0; id <= MAX_VISITED_STORIES; id++) {
+      now.mockReturnValue(id);
+      recordVisit(id, 0, []);
+    }
+
+    const stored = readStored();
+    expect(Object.keys(stored)).toHaveLength(MAX_VISITED_STORIES);
+    expect(stored[0]).toBeUndefined();
+    expect(stored[MAX_VISITED_STORIES]).toBeDefined();
+  });
+
+  it('should drop malformed stored visits', () => {
+    localStorage.setItem(VISITED_STORIES_KEY, JSON.stringify({
+      1: { visitedAt: 1, descendants: 2, seenCommentIds: [3] },
+      2: { visitedAt: 'yesterday' },
+      abc: { visitedAt: 1, descendants: 2, seenCommentIds: [] },
+    }));
+    resetVisitedStoriesStore();
+
+    expect(renderHook(() => useStoryVisit(1)).result.current).toBeDefined();
+    expect(renderHook(() => useStoryVisit(2)).result.current).toBeUndefined();
+  });
+
+  it('should sync visits from other tabs', () => {
+    const { result } = renderHook(() => useStoryVisit(7));
+    const visits = { 7: { visitedAt: 1, descendants: 4, seenCommentIds: [] } };
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: VISITED_STORIES_KEY, newValue: JSON.stringify(visits) }));
+    });
+
+    expect(result.current).toEqual(visits[7]);
+  });
+});
+
+describe('countNewComments', () => {
+  it('should count comments added since the visit', () => {
+    expect(countNewComments(undefined, 40)).toBe(0);
+    expect(countNewComments({ visitedAt: 0, descendants: 28, seenCommentIds: [] }, 40)).toBe(12);
+    // Deleted comments can shrink the count
+    expect(countNewComments({ visitedAt: 0, descendants: 28, seenCommentIds: [] }, 20)).toBe(0);
+  });
+});
+
+describe('newCommentMatcher', () => {
+  it('should match unseen comments posted after the visit', () => {
+    const isNew = newCommentMatcher({ visitedAt: 100000, descendants: 1, seenCommentIds: [1] });
+
+    expect(isNew({ id: 1, time: 200 })).toBe(false);
+    expect(isNew({ id: 2, time: 50 })).toBe(false);
+    expect(isNew({ id: 3, time: 200 })).toBe(true);
+  });
+
+  it('should match nothing without a previous visit', () => {
+    expect(newCommentMatcher(undefined)({ id: 1, time: 200 })).toBe(false);
+  });
+});
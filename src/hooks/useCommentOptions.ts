@@ -0,0 +1,49 @@
+import { useSyncExternalStore } from 'react';
+import type { CommentOptions, CommentSort, CommentLayout, CommentDepth } from '../types/ui';
+import { createStoredStore } from '../utils/storedStore';
+
+export const COMMENT_OPTIONS_KEY = 'commentOptions';
+
+export const DEFAULT_COMMENT_OPTIONS: CommentOptions = {
+  sort: 'default',
+  layout: 'threaded',
+  initialDepth: 0,
+};
+
+export const COMMENT_SORTS: readonly CommentSort[] = ['default', 'newest', 'oldest', 'replies'];
+export const COMMENT_LAYOUTS: readonly CommentLayout[] = ['threaded', 'flat'];
+export const COMMENT_DEPTHS: readonly CommentDepth[] = [0, 1, 2, 3, 'all'];
+
+const pick = <T,>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+// Unknown or missing fields fall back to their defaults
+export const sanitizeCommentOptions = (value: unknown): CommentOptions => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    sort: pick(raw.sort, COMMENT_SORTS, DEFAULT_COMMENT_OPTIONS.sort),
+    layout: pick(raw.layout, COMMENT_LAYOUTS, DEFAULT_COMMENT_OPTIONS.layout),
+    initialDepth: pick(raw.initialDepth, COMMENT_DEPTHS, DEFAULT_COMMENT_OPTIONS.initialDepth),
+  };
+};
+
+const parseOptions = (stored: string | null): CommentOptions =>
+  stored ? sanitizeCommentOptions(JSON.parse(stored)) : DEFAULT_COMMENT_OPTIONS;
+
+const store = createStoredStore(COMMENT_OPTIONS_KEY, parseOptions, JSON.stringify, 'comment options');
+
+export const getCommentOptions = (): CommentOptions => store.get();
+
+export const updateCommentOptions = (changes: Partial<CommentOptions>) => {
+  store.save(sanitizeCommentOptions({ ...store.get(), ...changes }));
+};
+
+// Reload from storage (used by tests)
+export const resetCommentOptionsStore = () => {
+  store.reload();
+};
+
+export const useCommentOptions = () => {
+  const current = useSyncExternalStore(store.subscribe, store.get);
+  return { options: current, updateOptions: updateCommentOptions };
+};
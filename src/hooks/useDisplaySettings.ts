@@ -0,0 +1,42 @@
+import { useLayoutEffect } from 'react';
+import type { DisplaySettings } from '../types/ui';
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  fontSize: 100,
+  lineHeight: 1,
+  contentWidth: 700,
+  commentIndent: 12,
+};
+
+// The choices offered in the settings panel; stored values must be one of these
+export const FONT_SIZES: readonly number[] = [90, 100, 115, 130, 150];
+export const LINE_HEIGHTS: readonly number[] = [0.9, 1, 1.2, 1.4];
+export const CONTENT_WIDTHS: readonly number[] = [600, 700, 900, 1200];
+export const COMMENT_INDENTS: readonly number[] = [6, 12, 20, 28];
+
+const pickNumber = (value: unknown, allowed: readonly number[], fallback: number): number =>
+  typeof value === 'number' && allowed.includes(value) ? value : fallback;
+
+export const sanitizeDisplaySettings = (value: unknown): DisplaySettings => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    fontSize: pickNumber(raw.fontSize, FONT_SIZES, DEFAULT_DISPLAY_SETTINGS.fontSize),
+    lineHeight: pickNumber(raw.lineHeight, LINE_HEIGHTS, DEFAULT_DISPLAY_SETTINGS.lineHeight),
+    contentWidth: pickNumber(raw.contentWidth, CONTENT_WIDTHS, DEFAULT_DISPLAY_SETTINGS.contentWidth),
+    commentIndent: pickNumber(raw.commentIndent, COMMENT_INDENTS, DEFAULT_DISPLAY_SETTINGS.commentIndent),
+  };
+};
+
+/**
+ * Sets the reader controls as custom properties on <html>; toodles.css scales
+ * story and comment text, the main column and reply indentation from them.
+ */
+export const useDisplaySettings = ({ fontSize, lineHeight, contentWidth, commentIndent }: DisplaySettings) => {
+  useLayoutEffect(() => {
+    const { style } = document.documentElement;
+    style.setProperty('--font-scale', String(fontSize / 100));
+    style.setProperty('--line-height-scale', String(lineHeight));
+    style.setProperty('--content-width', `${contentWidth}px`);
+    style.setProperty('--comment-indent', `${commentIndent}px`);
+  }, [fontSize, lineHeight, contentWidth, commentIndent]);
+};
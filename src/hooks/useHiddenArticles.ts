@@ -1,62 +1,152 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useSyncExternalStore, useMemo } from 'react';
+import type { HiddenArticle, ImportMode, ImportResult } from '../types/ui';
+import { createStoredStore } from '../utils/storedStore';
 
 export const STORAGE_KEY = 'hiddenArticles';
 
-export const useHiddenArticles = () => {
-  const [hiddenArticles, setHiddenArticles] = useState<Set<number>>(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        return new Set(Array.isArray(parsed) ? parsed : []);
-      }
-    } catch (error) {
-      console.warn('Failed to load hidden articles:', error);
-    }
-    return new Set();
-  });
+// Stories drop off every list long before this, so older entries only cost space
+export const HIDDEN_MAX_AGE_MS = 30 * 24 * 3600000;
+export const HIDDEN_MAX_ENTRIES = 2000;
 
-  const updateLocalStorage = useCallback((articles: Set<number>) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(articles)));
-    } catch (error) {
-      console.warn('Failed to save hidden articles:', error);
-    }
-  }, []);
+interface HiddenArticlesState {
+  // Article id to the time it was hidden
+  entries: ReadonlyMap<number, number>;
+  // Most recent hide that can still be undone
+  recentlyHidden: number | null;
+}
 
-  useEffect(() => {
-    updateLocalStorage(hiddenArticles);
-  }, [hiddenArticles, updateLocalStorage]);
+const isArticleId = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
 
-  const hideArticle = useCallback((articleId: number) => {
-    setHiddenArticles(prev => {
-      const newSet = new Set(prev);
-      newSet.add(articleId);
-      return newSet;
-    });
-  }, []);
+/**
+ * Reads stored entries. Bare ids from before entries were timestamped count as
+ * hidden now, so they get the full retention period.
+ */
+const toEntry = (value: unknown, now: number): HiddenArticle | null => {
+  if (isArticleId(value)) return { id: value, hiddenAt: now };
+  if (!value || typeof value !== 'object') return null;
+  const entry = value as Record<string, unknown>;
+  return isArticleId(entry.id) && typeof entry.hiddenAt === 'number' && Number.isFinite(entry.hiddenAt)
+    ? { id: entry.id, hiddenAt: entry.hiddenAt }
+    : null;
+};
+
+// Drops expired entries, then the oldest ones beyond the size limit
+const prune = (entries: Map<number, number>, now: number): Map<number, number> => {
+  const kept = Array.from(entries).filter(([, hiddenAt]) => now - hiddenAt < HIDDEN_MAX_AGE_MS);
+  if (kept.length > HIDDEN_MAX_ENTRIES) {
+    kept.sort(([, a], [, b]) => b - a);
+    kept.length = HIDDEN_MAX_ENTRIES;
+  }
+  return kept.length === entries.size ? entries : new Map(kept);
+};
 
-  const showArticle = useCallback((articleId: number) => {
-    setHiddenArticles(prev => {
-      const newSet = new Set(prev);
-      newSet.delete(articleId);
-      return newSet;
+const parseEntries = (stored: string | null): Map<number, number> => {
+  if (!stored) return new Map();
+  const parsed = JSON.parse(stored);
+  const now = Date.now();
+  const entries = new Map<number, number>();
+  if (Array.isArray(parsed)) {
+    parsed.forEach(value => {
+      const entry = toEntry(value, now);
+      if (entry) entries.set(entry.id, entry.hiddenAt);
     });
-  }, []);
+  }
+  return prune(entries, now);
+};
+
+// Undo only applies to hides made in this tab, so loading or syncing clears it
+const store = createStoredStore<HiddenArticlesState>(
+  STORAGE_KEY,
+  stored => ({ entries: parseEntries(stored), recentlyHidden: null }),
+  ({ entries }) => JSON.stringify(Array.from(entries, ([id, hiddenAt]): HiddenArticle => ({ id, hiddenAt }))),
+  'hidden articles'
+);
+
+const setEntries = (entries: Map<number, number>, recentlyHidden: number | null) => {
+  store.save({ entries, recentlyHidden });
+};
+
+export const hideArticle = (articleId: number) => {
+  const { entries: current } = store.get();
+  if (current.has(articleId)) return;
+  const now = Date.now();
+  const entries = new Map(current).set(articleId, now);
+  setEntries(prune(entries, now), articleId);
+};
+
+export const showArticle = (articleId: number) => {
+  const { entries: current, recentlyHidden } = store.get();
+  if (!current.has(articleId)) return;
+  const entries = new Map(current);
+  entries.delete(articleId);
+  setEntries(entries, recentlyHidden === articleId ? null : recentlyHidden);
+};
 
-  const isArticleHidden = useCallback((articleId: number) => {
-    return hiddenArticles.has(articleId);
-  }, [hiddenArticles]);
+export const clearAllHidden = () => {
+  setEntries(new Map(), null);
+};
+
+// Reads the live store, so the function itself never changes identity
+export const isArticleHidden = (articleId: number): boolean => store.get().entries.has(articleId);
+
+export const undoHide = () => {
+  const { recentlyHidden } = store.get();
+  if (recentlyHidden !== null) {
+    showArticle(recentlyHidden);
+  }
+};
+
+export const dismissUndoHide = () => {
+  const state = store.get();
+  if (state.recentlyHidden === null) return;
+  store.set({ ...state, recentlyHidden: null });
+};
+
+export const getHiddenArticles = (): HiddenArticle[] =>
+  Array.from(store.get().entries, ([id, hiddenAt]) => ({ id, hiddenAt }));
+
+/**
+ * Loads entries from a backup, accepting bare ids and timestamped entries.
+ * Merging keeps the earlier timestamp for ids hidden in both places.
+ */
+export const importHiddenArticles = (values: unknown[], mode: ImportMode): ImportResult => {
+  const now = Date.now();
+  const entries = new Map(mode === 'replace' ? [] : store.get().entries);
+  const before = entries.size;
+  let skipped = 0;
+  values.forEach(value => {
+    const entry = toEntry(value, now);
+    if (!entry) {
+      skipped++;
+      return;
+    }
+    const existing = entries.get(entry.id);
+    entries.set(entry.id, existing === undefined ? entry.hiddenAt : Math.min(existing, entry.hiddenAt));
+  });
+  const pruned = prune(entries, now);
+  setEntries(pruned, null);
+  return { imported: Math.max(0, pruned.size - before), skipped };
+};
+
+// Reload from storage (used by tests)
+export const resetHiddenArticlesStore = () => {
+  store.reload();
+};
+
+export const useHiddenArticles = () => {
+  const { entries, recentlyHidden } = useSyncExternalStore(store.subscribe, store.get);
 
-  const clearAllHidden = useCallback(() => {
-    setHiddenArticles(new Set());
-  }, []);
+  const hiddenArticles = useMemo(() => new Set(entries.keys()), [entries]);
 
   return {
     hiddenArticles,
+    recentlyHidden,
     hideArticle,
     showArticle,
     isArticleHidden,
     clearAllHidden,
+    undoHide,
+    dismissUndoHide,
   };
 };
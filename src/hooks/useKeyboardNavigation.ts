@@ -6,14 +6,20 @@ export interface KeyboardNavigationOptions {
   onEscape?: () => void;
   loop?: boolean;
   disabled?: boolean;
+  // Item selected (and focused) on mount
+  initialIndex?: number;
+  // Container role and label; 'menu' containers leave aria-selected off their items
+  role?: string;
+  label?: string;
 }
 
 export interface KeyboardNavigationResult {
   selectedIndex: number;
   setSelectedIndex: (index: number) => void;
   getItemProps: (index: number) => {
-    'aria-selected': boolean;
+    'aria-selected'?: boolean;
     tabIndex: number;
+    'data-index': number;
     onFocus: () => void;
     onKeyDown: (event: React.KeyboardEvent) => void;
   };
@@ -21,19 +27,30 @@ export interface KeyboardNavigationResult {
     role: string;
     'aria-label': string;
     onKeyDown: (event: React.KeyboardEvent) => void;
+    ref: (element: HTMLElement | null) => void;
   };
 }
 
 export const useKeyboardNavigation = (
   options: KeyboardNavigationOptions
 ): KeyboardNavigationResult => {
-  const { items, onSelect, onEscape, loop = true, disabled = false } = options;
-  const [selectedIndex, setSelectedIndex] = useState(0);
+  const {
+    items,
+    onSelect,
+    onEscape,
+    loop = true,
+    disabled = false,
+    initialIndex = 0,
+    role = 'listbox',
+    label = 'Navigatable list',
+  } = options;
+  const [selectedIndex, setSelectedIndex] = useState(initialIndex);
   const containerRef = useRef<HTMLElement | null>(null);
 
   // Handle keyboard navigation
   const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
-    if (disabled || items.length === 0) return;
+    // Item and container both listen; only the first handler acts
+    if (disabled || items.length === 0 || event.defaultPrevented) return;
 
     switch (event.key) {
       case 'ArrowDown':
@@ -108,16 +125,16 @@ export const useKeyboardNavigation = (
   }, [focusSelectedItem]);
 
   const getItemProps = useCallback((index: number) => ({
-    'aria-selected': index === selectedIndex,
+    ...(role === 'listbox' ? { 'aria-selected': index === selectedIndex } : {}),
     'tabIndex': index === selectedIndex ? 0 : -1,
     'data-index': index,
     onFocus: () => setSelectedIndex(index),
     onKeyDown: handleKeyDown,
-  }), [selectedIndex, handleKeyDown]);
+  }), [selectedIndex, handleKeyDown, role]);
 
   const containerProps = {
-    role: 'listbox' as const,
-    'aria-label': 'Navigatable list',
+    role,
+    'aria-label': label,
     onKeyDown: handleKeyDown,
     ref: (element: HTMLElement | null) => {
       containerRef.current = element;
@@ -175,6 +192,44 @@ export const useFocusTrap = (isActive: boolean) => {
   return containerRef;
 };
 
+// Keys typed into form fields are text, not shortcuts
+export const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Open menus and settings panels handle their own keys while they have focus
+const isPanelTarget = (target: EventTarget | null): boolean =>
+  target instanceof Element && target.closest('[role="menu"], [role="dialog"]') !== null;
+
+export type ShortcutHandlers = Record<string, (event: KeyboardEvent) => void>;
+
+// Hook for single-key shortcuts on the whole document. Keys are ignored while
+// typing, with modifiers held, while a modal dialog is open, or while focus is
+// inside a menu or dialog.
+export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled = true) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target) || document.querySelector('[aria-modal="true"]')) return;
+      if (isPanelTarget(event.target) || isPanelTarget(document.activeElement)) return;
+
+      const handler = handlersRef.current[event.key];
+      if (handler) {
+        event.preventDefault();
+        handler(event);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
+
 // Hook for managing announcement regions
 export const useAnnouncer = () => {
   const [announcement, setAnnouncement] = useState('');
@@ -0,0 +1,150 @@
+import { useState, useEffect, useRef } from 'react';
+import { hackerNewsApi } from '../services/hackerNewsApi';
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import { fetchStoryIds } from './useStoryData';
+
+export const LIVE_POLL_INTERVAL_MS = 60 * 1000;
+export const LIVE_MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+interface LiveUpdatesOptions {
+  enabled: boolean;
+  category: string;
+  // Ranked ids behind the list currently on screen
+  storyIds: number[];
+  loadedIds: number[];
+  onItemsUpdated: (items: HackerNewsItem[]) => void;
+  intervalMs?: number;
+}
+
+export interface LiveUpdatesState {
+  newStoryCount: number;
+  ranksChanged: boolean;
+}
+
+const NO_CHANGES: LiveUpdatesState = { newStoryCount: 0, ranksChanged: false };
+
+// Compares the fresh ranking against what's on screen, limited to as many
+// positions as are loaded so far
+export const diffRanking = (latestIds: number[], loadedIds: number[]): LiveUpdatesState => {
+  const loaded = new Set(loadedIds);
+  const ranked = latestIds.slice(0, loadedIds.length);
+  const newStoryCount = ranked.filter(id => !loaded.has(id)).length;
+
+  const stillRanked = new Set(ranked);
+  const previousOrder = loadedIds.filter(id => stillRanked.has(id));
+  const currentOrder = ranked.filter(id => loaded.has(id));
+  const ranksChanged = previousOrder.some((id, index) => currentOrder[index] !== id);
+
+  return { newStoryCount, ranksChanged };
+};
+
+const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+// Opt-in polling of /v0/updates.json and the ranked id list. Changed items that are
+// already loaded are refreshed in place; ranking changes are only reported so the
+// list isn't reshuffled while someone is reading it. Failures (including an open
+// circuit breaker) double the delay up to LIVE_MAX_BACKOFF_MS.
+export const useLiveUpdates = ({
+  enabled,
+  category,
+  storyIds,
+  loadedIds,
+  onItemsUpdated,
+  intervalMs = LIVE_POLL_INTERVAL_MS,
+}: LiveUpdatesOptions) => {
+  const [changes, setChanges] = useState<LiveUpdatesState>(NO_CHANGES);
+
+  // Polling reads the latest values through refs so it doesn't restart on every render
+  const loadedIdsRef = useRef(loadedIds);
+  const onItemsUpdatedRef = useRef(onItemsUpdated);
+  loadedIdsRef.current = loadedIds;
+  onItemsUpdatedRef.current = onItemsUpdated;
+
+  // A fresh ranking (reload, category change, applied update) clears the banner
+  useEffect(() => {
+    setChanges(NO_CHANGES);
+  }, [storyIds, category]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let delay = intervalMs;
+    let polling = false;
+    let due = false;
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(tick, delay);
+    };
+
+    const poll = async () => {
+      polling = true;
+      try {
+        const updates = await hackerNewsApi.getUpdates();
+        const loaded = new Set(loadedIdsRef.current);
+        const changedIds = updates.items.filter(id => loaded.has(id));
+        if (changedIds.length > 0) {
+          const items = await hackerNewsApi.refreshItems(changedIds);
+          if (!cancelled && items.length > 0) {
+            onItemsUpdatedRef.current(items);
+          }
+        }
+
+        const latestIds = await fetchStoryIds(category);
+        if (!cancelled) {
+          const next = diffRanking(latestIds, loadedIdsRef.current);
+          setChanges(prev => (
+            prev.newStoryCount === next.newStoryCount && prev.ranksChanged === next.ranksChanged ? prev : next
+          ));
+        }
+        delay = intervalMs;
+      } catch (error) {
+        delay = Math.min(delay * 2, LIVE_MAX_BACKOFF_MS);
+        console.warn(`Live update failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+      } finally {
+        polling = false;
+      }
+    };
+
+    const tick = async () => {
+      timer = null;
+      // Hidden tabs skip the request; the poll runs as soon as the tab is visible again
+      if (isHidden()) {
+        due = true;
+        return;
+      }
+      await poll();
+      if (!cancelled) schedule();
+    };
+
+    const handleVisibilityChange = () => {
+      if (isHidden()) {
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+          due = true;
+        }
+        return;
+      }
+      if (due && !polling) {
+        due = false;
+        tick();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    schedule();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled, category, intervalMs]);
+
+  return enabled ? changes : NO_CHANGES;
+};
@@ -0,0 +1,149 @@
+import { useSyncExternalStore, useMemo, useCallback } from 'react';
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import type { MuteRule, MuteRuleType, ImportMode, ImportResult } from '../types/ui';
+import {
+  MUTE_RULE_TYPES,
+  compileMuteRule,
+  findStoryMuteRule,
+  findCommentMuteRule,
+} from '../utils/muteRules';
+import { createStoredStore } from '../utils/storedStore';
+
+export const MUTE_RULES_KEY = 'muteRules';
+
+interface MuteRulesState {
+  rules: MuteRule[];
+  // Distinct items each rule has hidden this session, keyed by rule id
+  suppressedCounts: Record<string, number>;
+}
+
+const isMuteRule = (value: unknown): value is MuteRule => {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.id === 'string' &&
+    MUTE_RULE_TYPES.includes(rule.type as MuteRuleType) &&
+    typeof rule.pattern === 'string' && rule.pattern.length > 0 &&
+    typeof rule.createdAt === 'number';
+};
+
+const parseRules = (stored: string | null): MuteRule[] => {
+  if (!stored) return [];
+  const parsed = JSON.parse(stored);
+  // Drop malformed entries rather than the whole list
+  return Array.isArray(parsed) ? parsed.filter(isMuteRule) : [];
+};
+
+// Distinct items each rule has hidden this session; counts for removed rules are dropped
+const suppressedItems = new Map<string, Set<number>>();
+
+const withCounts = (rules: MuteRule[]): MuteRulesState => {
+  const ids = new Set(rules.map(rule => rule.id));
+  suppressedItems.forEach((_, id) => {
+    if (!ids.has(id)) suppressedItems.delete(id);
+  });
+  const suppressedCounts = Object.fromEntries(
+    Array.from(suppressedItems, ([id, items]) => [id, items.size])
+  );
+  return { rules, suppressedCounts };
+};
+
+const store = createStoredStore(
+  MUTE_RULES_KEY,
+  stored => withCounts(parseRules(stored)),
+  ({ rules }) => JSON.stringify(rules),
+  'mute rules'
+);
+
+const saveRules = (rules: MuteRule[]) => {
+  store.save(withCounts(rules));
+};
+
+export const getMuteRules = (): MuteRule[] => store.get().rules;
+
+const createRuleId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const addMuteRule = (type: MuteRuleType, pattern: string): MuteRule => {
+  const rule: MuteRule = { id: createRuleId(), type, pattern, createdAt: Date.now() };
+  saveRules([...store.get().rules, rule]);
+  return rule;
+};
+
+export const removeMuteRule = (id: string) => {
+  saveRules(store.get().rules.filter(rule => rule.id !== id));
+};
+
+export const clearMuteRules = () => {
+  saveRules([]);
+};
+
+/**
+ * Loads rules from a backup. Merging skips rules that already exist with the
+ * same type and pattern; replacing swaps the whole list.
+ */
+export const importMuteRules = (values: unknown[], mode: ImportMode): ImportResult => {
+  const valid = values.filter(isMuteRule);
+  const rules = mode === 'replace' ? [] : [...store.get().rules];
+  let imported = 0;
+  valid.forEach(rule => {
+    if (rules.some(existing => existing.id === rule.id ||
+      (existing.type === rule.type && existing.pattern === rule.pattern))) {
+      return;
+    }
+    rules.push({ id: rule.id, type: rule.type, pattern: rule.pattern, createdAt: rule.createdAt });
+    imported++;
+  });
+  saveRules(rules);
+  return { imported, skipped: values.length - valid.length };
+};
+
+/**
+ * Records that a rule hid an item. Items are counted once per rule no matter
+ * how often they render.
+ */
+export const recordSuppressed = (ruleId: string, itemId: number) => {
+  let items = suppressedItems.get(ruleId);
+  if (!items) {
+    items = new Set();
+    suppressedItems.set(ruleId, items);
+  }
+  if (items.has(itemId)) return;
+  items.add(itemId);
+  const state = store.get();
+  store.set({
+    ...state,
+    suppressedCounts: { ...state.suppressedCounts, [ruleId]: items.size },
+  });
+};
+
+// Reload from storage and forget session counts (used by tests)
+export const resetMuteRulesStore = () => {
+  suppressedItems.clear();
+  store.reload();
+};
+
+export const useMuteRules = () => {
+  const { rules, suppressedCounts } = useSyncExternalStore(store.subscribe, store.get);
+
+  const compiledRules = useMemo(() => rules.map(compileMuteRule), [rules]);
+
+  const findStoryMatch = useCallback(
+    (story: HackerNewsItem) => findStoryMuteRule(story, compiledRules),
+    [compiledRules]
+  );
+
+  const findCommentMatch = useCallback(
+    (comment: HackerNewsItem) => findCommentMuteRule(comment, compiledRules),
+    [compiledRules]
+  );
+
+  return {
+    rules,
+    suppressedCounts,
+    findStoryMatch,
+    findCommentMatch,
+    addRule: addMuteRule,
+    removeRule: removeMuteRule,
+    clearRules: clearMuteRules,
+    recordSuppressed,
+  };
+};
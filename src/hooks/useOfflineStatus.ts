@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { subscribeOfflineStatus, getOfflineStatus } from '../utils/offlineStatus';
+
+export const useOfflineStatus = () => useSyncExternalStore(subscribeOfflineStatus, getOfflineStatus);
@@ -0,0 +1,230 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ViewMode, SortMode, SortDirection, CategoryType, StoryFilters, PostTypeFilter, ThemePreference, DisplaySettings } from '../types/ui';
+import { DEFAULT_FILTERS } from '../utils/storyFilters';
+import { DEFAULT_DISPLAY_SETTINGS, sanitizeDisplaySettings } from './useDisplaySettings';
+
+export const PREFERENCES_KEY = 'preferences';
+export const PREFERENCES_VERSION = 1;
+
+// Keys used before preferences were stored as a single versioned record
+export const LEGACY_KEYS = {
+  viewMode: 'viewMode',
+  sortMode: 'sortMode',
+  category: 'currentCategory',
+} as const;
+
+export interface Preferences {
+  viewMode: ViewMode;
+  sortMode: SortMode;
+  sortDirection: SortDirection;
+  category: CategoryType;
+  showHiddenArticles: boolean;
+  filters: StoryFilters;
+  liveUpdates: boolean;
+  infiniteScroll: boolean;
+  theme: ThemePreference;
+  display: DisplaySettings;
+}
+
+export interface StoredPreferences {
+  version: number;
+  preferences: Preferences;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  viewMode: 'full',
+  sortMode: 'default',
+  sortDirection: 'desc',
+  category: 'top',
+  showHiddenArticles: false,
+  filters: DEFAULT_FILTERS,
+  liveUpdates: false,
+  infiniteScroll: false,
+  theme: 'system',
+  display: DEFAULT_DISPLAY_SETTINGS,
+};
+
+const VIEW_MODES: readonly ViewMode[] = ['title', 'compact', 'full'];
+const SORT_MODES: readonly SortMode[] = ['default', 'comments', 'points', 'time', 'hotness', 'controversy', 'domain'];
+const SORT_DIRECTIONS: readonly SortDirection[] = ['desc', 'asc'];
+const POST_TYPES: readonly PostTypeFilter[] = ['all', 'text', 'link'];
+const CATEGORIES: readonly CategoryType[] = ['top', 'new', 'best', 'ask', 'show', 'job'];
+const THEMES: readonly ThemePreference[] = ['system', 'light', 'dark', 'high-contrast'];
+
+const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+const toCount = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+const toDomains = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((domain): domain is string => typeof domain === 'string' && domain.length > 0) : [];
+
+const sanitizeFilters = (value: unknown): StoryFilters => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    minScore: toCount(raw.minScore),
+    minComments: toCount(raw.minComments),
+    maxAgeHours: toCount(raw.maxAgeHours),
+    includeDomains: toDomains(raw.includeDomains),
+    excludeDomains: toDomains(raw.excludeDomains),
+    postType: pick(raw.postType, POST_TYPES, DEFAULT_FILTERS.postType),
+  };
+};
+
+// Invalid or missing fields fall back to their defaults so one bad value
+// doesn't throw away the rest of the user's settings
+const sanitizePreferences = (value: unknown): Preferences => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    viewMode: pick(raw.viewMode, VIEW_MODES, DEFAULT_PREFERENCES.viewMode),
+    sortMode: pick(raw.sortMode, SORT_MODES, DEFAULT_PREFERENCES.sortMode),
+    sortDirection: pick(raw.sortDirection, SORT_DIRECTIONS, DEFAULT_PREFERENCES.sortDirection),
+    category: pick(raw.category, CATEGORIES, DEFAULT_PREFERENCES.category),
+    showHiddenArticles: typeof raw.showHiddenArticles === 'boolean'
+      ? raw.showHiddenArticles
+      : DEFAULT_PREFERENCES.showHiddenArticles,
+    filters: sanitizeFilters(raw.filters),
+    liveUpdates: typeof raw.liveUpdates === 'boolean' ? raw.liveUpdates : DEFAULT_PREFERENCES.liveUpdates,
+    infiniteScroll: typeof raw.infiniteScroll === 'boolean' ? raw.infiniteScroll : DEFAULT_PREFERENCES.infiniteScroll,
+    theme: pick(raw.theme, THEMES, DEFAULT_PREFERENCES.theme),
+    display: sanitizeDisplaySettings(raw.display),
+  };
+};
+
+// Upgrades a stored record one version at a time; index n migrates version n to n + 1
+const MIGRATIONS: Array<(preferences: Record<string, unknown>) => Record<string, unknown>> = [
+  // Version 0 kept each setting under its own key, either raw or JSON-encoded
+  (preferences) => Object.fromEntries(
+    Object.entries(preferences).map(([field, value]) => {
+      if (typeof value !== 'string') return [field, value];
+      try {
+        return [field, JSON.parse(value)];
+      } catch {
+        return [field, value];
+      }
+    })
+  ),
+];
+
+const migratePreferences = (preferences: Record<string, unknown>, fromVersion: number) => {
+  let migrated = preferences;
+  for (let version = Math.max(fromVersion, 0); version < PREFERENCES_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+const readLegacyPreferences = (): Record<string, unknown> | null => {
+  const legacy: Record<string, unknown> = {};
+  let found = false;
+  for (const [field, key] of Object.entries(LEGACY_KEYS)) {
+    const value = localStorage.getItem(key);
+    if (value !== null) {
+      legacy[field] = value;
+      found = true;
+    }
+  }
+  return found ? legacy : null;
+};
+
+const removeLegacyPreferences = () => {
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+const isPreferencesRecord = (value: unknown): value is { version: number; preferences?: unknown } =>
+  !!value && typeof value === 'object' && typeof (value as Record<string, unknown>).version === 'number';
+
+/**
+ * Migrates and sanitizes a stored `{ version, preferences }` record, or returns
+ * null when the value isn't one.
+ */
+export const preferencesFromRecord = (record: unknown): Preferences | null => {
+  if (!isPreferencesRecord(record)) return null;
+  const preferences = (record.preferences ?? {}) as Record<string, unknown>;
+  return sanitizePreferences(migratePreferences(preferences, record.version));
+};
+
+export const parsePreferences = (stored: string | null): Preferences => {
+  if (!stored) return DEFAULT_PREFERENCES;
+  return preferencesFromRecord(JSON.parse(stored)) ?? DEFAULT_PREFERENCES;
+};
+
+export const loadPreferences = (): Preferences => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_KEY);
+    if (stored) {
+      return parsePreferences(stored);
+    }
+
+    const legacy = readLegacyPreferences();
+    if (legacy) {
+      removeLegacyPreferences();
+      return sanitizePreferences(migratePreferences(legacy, 0));
+    }
+  } catch (error) {
+    console.warn('Failed to load preferences:', error);
+  }
+  return DEFAULT_PREFERENCES;
+};
+
+export const toPreferencesRecord = (preferences: Preferences): StoredPreferences => ({
+  version: PREFERENCES_VERSION,
+  preferences,
+});
+
+const serializePreferences = (preferences: Preferences): string =>
+  JSON.stringify(toPreferencesRecord(preferences));
+
+// Keeps the previous filters and display objects when their values are
+// unchanged, so memo comparisons on them survive unrelated updates
+const reuseUnchanged = (prev: Preferences, next: Preferences): Preferences => ({
+  ...next,
+  filters: JSON.stringify(prev.filters) === JSON.stringify(next.filters) ? prev.filters : next.filters,
+  display: JSON.stringify(prev.display) === JSON.stringify(next.display) ? prev.display : next.display,
+});
+
+export const usePreferences = () => {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PREFERENCES_KEY, serializePreferences(preferences));
+    } catch (error) {
+      console.warn('Failed to save preferences:', error);
+    }
+  }, [preferences]);
+
+  // Keep other open tabs in step. Browsers only fire `storage` for writes made
+  // by other documents, and writing an unchanged value fires nothing, so this
+  // can't ping-pong between tabs.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== PREFERENCES_KEY && event.key !== null) return;
+      try {
+        const next = parsePreferences(event.key === null ? null : event.newValue);
+        setPreferences(prev => (
+          serializePreferences(prev) === serializePreferences(next) ? prev : reuseUnchanged(prev, next)
+        ));
+      } catch (error) {
+        console.warn('Failed to sync preferences:', error);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const updatePreferences = useCallback((changes: Partial<Preferences>) => {
+    setPreferences(prev => reuseUnchanged(prev, sanitizePreferences({ ...prev, ...changes })));
+  }, []);
+
+  const resetPreferences = useCallback(() => {
+    setPreferences(DEFAULT_PREFERENCES);
+  }, []);
+
+  return {
+    preferences,
+    updatePreferences,
+    resetPreferences,
+  };
+};
@@ -0,0 +1,137 @@
+import { useSyncExternalStore, useMemo, useCallback } from 'react';
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import type { SavedStory, ImportMode, ImportResult } from '../types/ui';
+import { validateHackerNewsItem } from '../types/api';
+import { createStoredStore } from '../utils/storedStore';
+
+export const READING_LIST_KEY = 'readingList';
+
+const isValidSnapshot = (story: unknown, id: number): boolean => {
+  try {
+    return validateHackerNewsItem(story).id === id;
+  } catch {
+    return false;
+  }
+};
+
+const isSavedStory = (value: unknown): value is SavedStory => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'number' &&
+    isValidSnapshot(entry.story, entry.id) &&
+    typeof entry.savedAt === 'number' &&
+    Array.isArray(entry.tags) && entry.tags.every(tag => typeof tag === 'string') &&
+    typeof entry.note === 'string' &&
+    typeof entry.read === 'boolean';
+};
+
+const parseEntries = (stored: string | null): SavedStory[] => {
+  if (!stored) return [];
+  const parsed = JSON.parse(stored);
+  // Drop malformed entries rather than the whole list
+  return Array.isArray(parsed) ? parsed.filter(isSavedStory) : [];
+};
+
+const store = createStoredStore(READING_LIST_KEY, parseEntries, JSON.stringify, 'reading list');
+
+const updateEntry = (id: number, update: (entry: SavedStory) => SavedStory) => {
+  const entries = store.get();
+  const index = entries.findIndex(entry => entry.id === id);
+  if (index === -1) return;
+  const next = [...entries];
+  next[index] = update(entries[index]);
+  store.save(next);
+};
+
+export const getSavedStories = (): SavedStory[] => store.get();
+
+// Tags are stored trimmed, lower-case and de-duplicated
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(
+    input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+  ));
+
+export const saveStory = (story: HackerNewsItem) => {
+  const entries = store.get();
+  if (entries.some(entry => entry.id === story.id)) return;
+  store.save([{ id: story.id, story, savedAt: Date.now(), tags: [], note: '', read: false }, ...entries]);
+};
+
+export const unsaveStory = (id: number) => {
+  const entries = store.get();
+  if (!entries.some(entry => entry.id === id)) return;
+  store.save(entries.filter(entry => entry.id !== id));
+};
+
+export const setStoryRead = (id: number, read: boolean) => {
+  const entry = store.get().find(saved => saved.id === id);
+  if (!entry || entry.read === read) return;
+  updateEntry(id, saved => ({ ...saved, read }));
+};
+
+export const updateSavedDetails = (id: number, details: { tags?: string[]; note?: string }) => {
+  updateEntry(id, entry => ({ ...entry, ...details }));
+};
+
+// Offline-cache copies can be older than the snapshot, so a copy is only taken
+// when it has every field the snapshot has and its counts haven't gone down
+const isAtLeastAsFresh = (story: HackerNewsItem, snapshot: HackerNewsItem): boolean =>
+  (Object.keys(snapshot) as (keyof HackerNewsItem)[])
+    .every(field => snapshot[field] === undefined || story[field] !== undefined) &&
+  (story.score ?? 0) >= (snapshot.score ?? 0) &&
+  (story.descendants ?? 0) >= (snapshot.descendants ?? 0);
+
+/**
+ * Keeps the snapshot of a saved story current (score, comment count, edited
+ * title) whenever a fresher copy is rendered.
+ */
+export const refreshSavedSnapshot = (story: HackerNewsItem) => {
+  const entry = store.get().find(saved => saved.id === story.id);
+  if (!entry) return;
+  const { story: snapshot } = entry;
+  if (snapshot.score === story.score && snapshot.descendants === story.descendants && snapshot.title === story.title) {
+    return;
+  }
+  if (!isAtLeastAsFresh(story, snapshot)) return;
+  updateEntry(story.id, saved => ({ ...saved, story }));
+};
+
+/**
+ * Loads saved stories from a backup. Merging keeps the local copy of stories
+ * saved in both places; replacing swaps the whole list.
+ */
+export const importSavedStories = (values: unknown[], mode: ImportMode): ImportResult => {
+  const valid = values.filter(isSavedStory);
+  const current = mode === 'replace' ? [] : store.get();
+  const savedIds = new Set(current.map(entry => entry.id));
+  const added = valid.filter(entry => {
+    if (savedIds.has(entry.id)) return false;
+    savedIds.add(entry.id);
+    return true;
+  });
+  store.save([...current, ...added].sort((a, b) => b.savedAt - a.savedAt));
+  return { imported: added.length, skipped: values.length - valid.length };
+};
+
+// Reload from storage (used by tests)
+export const resetReadingListStore = () => {
+  store.reload();
+};
+
+export const useReadingList = () => {
+  const items = useSyncExternalStore(store.subscribe, store.get);
+
+  const savedIds = useMemo(() => new Set(items.map(entry => entry.id)), [items]);
+  const isSaved = useCallback((id: number) => savedIds.has(id), [savedIds]);
+  const unreadCount = useMemo(() => items.filter(entry => !entry.read).length, [items]);
+
+  return {
+    items,
+    unreadCount,
+    isSaved,
+    save: saveStory,
+    remove: unsaveStory,
+    setRead: setStoryRead,
+    updateDetails: updateSavedDetails,
+  };
+};
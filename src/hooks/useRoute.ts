@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Route, CategoryType, SearchSort, SearchType, SearchRange } from '../types/ui';
+
+// Hash-based routing keeps deep links working no matter which base path the
+// app is served from (VITE_BASE_PATH previews, "./" relative builds, etc.)
+const CATEGORY_PATHS: Record<CategoryType, string> = {
+  top: '/',
+  new: '/new',
+  best: '/best',
+  ask: '/ask',
+  show: '/show',
+  job: '/jobs',
+};
+
+export const DEFAULT_ROUTE: Route = { name: 'category', category: 'top' };
+
+const SEARCH_SORTS: readonly SearchSort[] = ['relevance', 'date'];
+const SEARCH_TYPES: readonly SearchType[] = ['story', 'comment', 'all'];
+const SEARCH_RANGES: readonly SearchRange[] = ['all', 'day', 'week', 'month', 'year'];
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const routeToPath = (route: Route): string => {
+  switch (route.name) {
+    case 'category':
+      return CATEGORY_PATHS[route.category];
+    case 'item':
+      return `/item/${route.id}`;
+    case 'user':
+      return `/user/${encodeURIComponent(route.id)}`;
+    case 'about':
+      return '/about';
+    case 'saved':
+      return '/saved';
+    case 'search': {
+      // Defaults are left out to keep shared links short
+      const params = new URLSearchParams({ q: route.query });
+      if (route.sort !== 'relevance') params.set('sort', route.sort);
+      if (route.type !== 'story') params.set('type', route.type);
+      if (route.range !== 'all') params.set('range', route.range);
+      return `/search?${params.toString()}`;
+    }
+  }
+};
+
+export const routeToHref = (route: Route): string => `#${routeToPath(route)}`;
+
+export const parseRoute = (hash: string): Route => {
+  const [rawPath, search = ''] = hash.replace(/^#/, '').split('?');
+  const path = rawPath.replace(/\/+$/, '') || '/';
+
+  if (path === '/search') {
+    const params = new URLSearchParams(search);
+    const query = (params.get('q') || '').trim();
+    if (query) {
+      return {
+        name: 'search',
+        query,
+        sort: pick(params.get('sort'), SEARCH_SORTS, 'relevance'),
+        type: pick(params.get('type'), SEARCH_TYPES, 'story'),
+        range: pick(params.get('range'), SEARCH_RANGES, 'all'),
+      };
+    }
+  }
+
+  if (path === '/about') {
+    return { name: 'about' };
+  }
+
+  if (path === '/saved') {
+    return { name: 'saved' };
+  }
+
+  const itemMatch = path.match(/^\/item\/(\d+)$/);
+  if (itemMatch) {
+    const id = parseInt(itemMatch[1], 10);
+    if (id > 0) {
+      return { name: 'item', id };
+    }
+  }
+
+  // HN usernames are limited to letters, digits, dashes and underscores
+  const userMatch = path.match(/^\/user\/([A-Za-z0-9_-]+)$/);
+  if (userMatch) {
+    return { name: 'user', id: userMatch[1] };
+  }
+
+  for (const [category, categoryPath] of Object.entries(CATEGORY_PATHS)) {
+    if (path === categoryPath) {
+      return { name: 'category', category: category as CategoryType };
+    }
+  }
+
+  // Unknown paths (and in-page anchors such as #main-content) fall back to top stories
+  return DEFAULT_ROUTE;
+};
+
+const getCurrentPath = (): string => routeToPath(parseRoute(window.location.hash));
+
+// `fallbackRoute` is only used when the app is opened without any hash, so a
+// bare visit can land on the reader's last category instead of top stories
+export const useRoute = (fallbackRoute: Route = DEFAULT_ROUTE) => {
+  // Store the canonical path so identical navigations don't trigger re-renders
+  const [path, setPath] = useState(() => (
+    window.location.hash ? getCurrentPath() : routeToPath(fallbackRoute)
+  ));
+
+  useEffect(() => {
+    const handleHashChange = () => setPath(getCurrentPath());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback((route: Route) => {
+    const nextPath = routeToPath(route);
+    setPath(nextPath);
+    if (getCurrentPath() !== nextPath) {
+      window.location.hash = nextPath;
+    }
+  }, []);
+
+  const route = useMemo(() => parseRoute(path), [path]);
+
+  return { route, navigate };
+};
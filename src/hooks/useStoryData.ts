@@ -1,6 +1,24 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { hackerNewsApi, type HackerNewsItem } from '../services/hackerNewsApi';
 
+// Ranked story ids for a category, as shown on the matching HN page
+export const fetchStoryIds = async (category: string): Promise<number[]> => {
+  switch (category) {
+    case 'new':
+      return hackerNewsApi.getNewStories();
+    case 'best':
+      return hackerNewsApi.getBestStories();
+    case 'ask':
+      return hackerNewsApi.getAskStories();
+    case 'show':
+      return hackerNewsApi.getShowStories();
+    case 'job':
+      return hackerNewsApi.getJobStories();
+    default:
+      return hackerNewsApi.getTopStories();
+  }
+};
+
 export const useStoryData = (category: string) => {
   const [stories, setStories] = useState<HackerNewsItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -10,28 +28,21 @@ export const useStoryData = (category: string) => {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalStoryIds, setTotalStoryIds] = useState<number[]>([]);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const prefetchedPage = useRef(0);
   const storiesPerPage = 30;
 
   const loadStories = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      let storyIds: number[] = [];
-      
-      switch (category) {
-        case 'new':
-          storyIds = await hackerNewsApi.getNewStories();
-          break;
-        case 'best':
-          storyIds = await hackerNewsApi.getBestStories();
-          break;
-        default:
-          storyIds = await hackerNewsApi.getTopStories();
-      }
-      
+      const storyIds = await fetchStoryIds(category);
+
       // Store all story IDs and reset pagination
       setTotalStoryIds(storyIds);
       setCurrentPage(1);
+      setLoadMoreError(null);
+      prefetchedPage.current = 0;
       
       // Load first page
       const firstPageIds = storyIds.slice(0, storiesPerPage);
@@ -50,29 +61,77 @@ export const useStoryData = (category: string) => {
     
     try {
       setLoadingMore(true);
+      setLoadMoreError(null);
       const nextPage = currentPage + 1;
       const startIndex = (nextPage - 1) * storiesPerPage;
       const endIndex = startIndex + storiesPerPage;
       
       const nextPageIds = totalStoryIds.slice(startIndex, endIndex);
       const newStoriesData = await hackerNewsApi.getItems(nextPageIds);
+
+      // getItems drops items it couldn't fetch, so an empty page means the request failed
+      if (nextPageIds.length > 0 && newStoriesData.length === 0) {
+        throw new Error(`No stories returned for page ${nextPage}`);
+      }
       
       setStories(prev => [...prev, ...newStoriesData]);
       setCurrentPage(nextPage);
     } catch (err) {
+      setLoadMoreError('Failed to load more stories.');
       console.error('Error loading more stories:', err);
     } finally {
       setLoadingMore(false);
     }
   }, [loadingMore, stories.length, totalStoryIds, currentPage, storiesPerPage]);
 
+  // Warms the item cache with the next page so loading it later is instant
+  const prefetchNextPage = useCallback(() => {
+    const nextPage = currentPage + 1;
+    if (prefetchedPage.current >= nextPage || stories.length >= totalStoryIds.length) return;
+    prefetchedPage.current = nextPage;
+
+    const startIndex = currentPage * storiesPerPage;
+    hackerNewsApi.getItems(totalStoryIds.slice(startIndex, startIndex + storiesPerPage)).catch(err => {
+      console.warn('Failed to prefetch stories:', err);
+    });
+  }, [currentPage, stories.length, totalStoryIds, storiesPerPage]);
+
+  // Swap in fresh copies of already loaded stories without reordering them
+  const applyItemUpdates = useCallback((items: HackerNewsItem[]) => {
+    const updates = new Map(items.map(item => [item.id, item]));
+    setStories(prev => (
+      prev.some(story => updates.has(story.id))
+        ? prev.map(story => updates.get(story.id) ?? story)
+        : prev
+    ));
+  }, []);
+
+  // Re-rank in place: fetch the current order and as many stories as are loaded,
+  // without going back through the loading state
+  const refreshStories = useCallback(async () => {
+    try {
+      const storyIds = await fetchStoryIds(category);
+      const count = currentPage * storiesPerPage;
+      const storiesData = await hackerNewsApi.getItems(storyIds.slice(0, count));
+      setTotalStoryIds(storyIds);
+      setStories(storiesData);
+    } catch (err) {
+      console.error('Error refreshing stories:', err);
+    }
+  }, [category, currentPage, storiesPerPage]);
+
   return {
     stories,
+    storyIds: totalStoryIds,
+    applyItemUpdates,
+    refreshStories,
     loading,
     error,
     loadStories,
     loadMoreStories,
+    prefetchNextPage,
     loadingMore,
+    loadMoreError,
     hasMoreStories: totalStoryIds.length > stories.length,
     storiesCount: stories.length,
     totalCount: totalStoryIds.length
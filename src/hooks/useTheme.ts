@@ -0,0 +1,44 @@
+import { useLayoutEffect, useSyncExternalStore } from 'react';
+import type { ResolvedTheme, ThemePreference } from '../types/ui';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+// Browser chrome color for each theme; matches --color-accent in toodles.css
+export const THEME_COLORS: Record<ResolvedTheme, string> = {
+  light: '#006666',
+  dark: '#1f7a7a',
+  'high-contrast': '#ffd700',
+};
+
+// matchMedia is missing in some environments (jsdom, very old browsers);
+// without it the system preference reads as light
+const getDarkSchemeQuery = (): MediaQueryList | null =>
+  typeof window.matchMedia === 'function' ? window.matchMedia(DARK_SCHEME_QUERY) : null;
+
+const subscribeColorScheme = (onChange: () => void) => {
+  const query = getDarkSchemeQuery();
+  query?.addEventListener('change', onChange);
+  return () => query?.removeEventListener('change', onChange);
+};
+
+const getPrefersDark = () => getDarkSchemeQuery()?.matches ?? false;
+
+export const resolveTheme = (preference: ThemePreference, prefersDark: boolean): ResolvedTheme =>
+  preference === 'system' ? (prefersDark ? 'dark' : 'light') : preference;
+
+/**
+ * Applies the theme to the document: `data-theme` on <html> selects the color
+ * variables and the theme-color meta tag follows along. Returns the theme in use.
+ */
+export const useTheme = (preference: ThemePreference): ResolvedTheme => {
+  const prefersDark = useSyncExternalStore(subscribeColorScheme, getPrefersDark);
+  const theme = resolveTheme(preference, prefersDark);
+
+  // Layout effect so the first paint already has the right colors
+  useLayoutEffect(() => {
+    document.documentElement.dataset.theme = theme;
+    document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEME_COLORS[theme]);
+  }, [theme]);
+
+  return theme;
+};
@@ -0,0 +1,89 @@
+import { useSyncExternalStore, useCallback } from 'react';
+import type { StoryVisit } from '../types/ui';
+import { createStoredStore } from '../utils/storedStore';
+
+export const VISITED_STORIES_KEY = 'visitedStories';
+
+// Only the most recently visited stories are remembered
+export const MAX_VISITED_STORIES = 500;
+
+type VisitMap = Record<number, StoryVisit>;
+
+const isStoryVisit = (value: unknown): value is StoryVisit => {
+  if (!value || typeof value !== 'object') return false;
+  const visit = value as Record<string, unknown>;
+  return typeof visit.visitedAt === 'number' &&
+    typeof visit.descendants === 'number' &&
+    Array.isArray(visit.seenCommentIds) &&
+    visit.seenCommentIds.every(id => typeof id === 'number');
+};
+
+const parseVisits = (stored: string | null): VisitMap => {
+  if (!stored) return {};
+  const parsed = JSON.parse(stored);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+
+  const result: VisitMap = {};
+  Object.entries(parsed).forEach(([key, value]) => {
+    const id = Number(key);
+    if (Number.isInteger(id) && isStoryVisit(value)) {
+      result[id] = value;
+    }
+  });
+  return result;
+};
+
+const pruneVisits = (map: VisitMap): VisitMap => {
+  const entries = Object.entries(map);
+  if (entries.length <= MAX_VISITED_STORIES) return map;
+  entries.sort(([, a], [, b]) => b.visitedAt - a.visitedAt);
+  return Object.fromEntries(entries.slice(0, MAX_VISITED_STORIES));
+};
+
+const store = createStoredStore(VISITED_STORIES_KEY, parseVisits, JSON.stringify, 'visited stories');
+
+export const getStoryVisit = (storyId: number): StoryVisit | undefined => store.get()[storyId];
+
+/**
+ * Records that a story's discussion was viewed. Comment ids accumulate across
+ * calls so replies loaded on demand are remembered too.
+ */
+export const recordVisit = (storyId: number, descendants: number | undefined, commentIds: number[]) => {
+  const visits = store.get();
+  const previous = visits[storyId];
+  const seen = new Set(previous?.seenCommentIds);
+  commentIds.forEach(id => seen.add(id));
+
+  store.save(pruneVisits({
+    ...visits,
+    [storyId]: {
+      visitedAt: Date.now(),
+      descendants: descendants ?? previous?.descendants ?? 0,
+      seenCommentIds: Array.from(seen),
+    },
+  }));
+};
+
+export const countNewComments = (visit: StoryVisit | undefined, descendants: number | undefined): number =>
+  visit ? Math.max(0, (descendants || 0) - visit.descendants) : 0;
+
+/**
+ * Builds a predicate for comments posted since the given visit: never rendered
+ * then, and newer than the visit itself. Nothing is new on a first visit.
+ */
+export const newCommentMatcher = (visit: StoryVisit | undefined) => {
+  if (!visit) return () => false;
+  const seen = new Set(visit.seenCommentIds);
+  return (comment: { id: number; time: number }) =>
+    comment.time * 1000 > visit.visitedAt && !seen.has(comment.id);
+};
+
+// Reload from storage (used by tests)
+export const resetVisitedStoriesStore = () => {
+  store.reload();
+};
+
+export const useStoryVisit = (storyId: number): StoryVisit | undefined => {
+  const getSnapshot = useCallback(() => store.get()[storyId], [storyId]);
+  return useSyncExternalStore(store.subscribe, getSnapshot);
+};
@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import { performanceMonitor } from './utils/performance'
+import { registerServiceWorker } from './utils/serviceWorker'
 
 // Initialize performance monitoring
 performanceMonitor.mark('app-init-start');
@@ -15,3 +16,5 @@ createRoot(document.getElementById('root')!).render(
 
 performanceMonitor.mark('app-init-end');
 performanceMonitor.measure('app-initialization', 'app-init-start', 'app-init-end');
+
+registerServiceWorker()
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createBackup, parseBackup, applyBackup, backupFileName, BACKUP_FORMAT, BACKUP_VERSION } from '../localBackup';
+import { PREFERENCES_KEY, PREFERENCES_VERSION, DEFAULT_PREFERENCES } from '../../hooks/usePreferences';
+import { STORAGE_KEY as HIDDEN_KEY, hideArticle, getHiddenArticles, resetHiddenArticlesStore } from '../../hooks/useHiddenArticles';
+import { addMuteRule, getMuteRules, resetMuteRulesStore } from '../../hooks/useMuteRules';
+import { saveStory, getSavedStories, resetReadingListStore } from '../../hooks/useReadingList';
+import { COMMENT_OPTIONS_KEY, DEFAULT_COMMENT_OPTIONS, getCommentOptions, updateCommentOptions } from '../../hooks/useCommentOptions';
+import { makeStory } from '../../test/fixtures';
+
+const savedEntry = (id: number, savedAt: number) => ({ id, story: makeStory(id), savedAt, tags: [], note: '', read: false });
+
+const backupText = (data: Record<string, unknown>, overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: '2024-01-01T00:00:00.000Z', data, ...overrides });
+
+const parse = (text: string) => {
+  const result = parseBackup(text);
+  if ('error' in result) throw new Error(result.error);
+  return result.backup;
+};
+
+describe('localBackup', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetHiddenArticlesStore();
+    resetMuteRulesStore();
+    resetReadingListStore();
+  });
+
+  describe('createBackup', () => {
+    it('should include every local store under a versioned envelope', () => {
+      localStorage.setItem(PREFERENCES_KEY, JSON.stringify({
+        version: PREFERENCES_VERSION,
+        preferences: { ...DEFAULT_PREFERENCES, viewMode: 'compact' },
+      }));
+      hideArticle(42);
+      const rule = addMuteRule('domain', 'example.com');
+      saveStory(makeStory(7));
+      updateCommentOptions({ sort: 'newest' });
+
+      const backup = createBackup();
+
+      expect(backup).toMatchObject({ format: BACKUP_FORMAT, version: BACKUP_VERSION });
+      expect(backup.data.preferences).toEqual({
+        version: PREFERENCES_VERSION,
+        preferences: { ...DEFAULT_PREFERENCES, viewMode: 'compact' },
+      });
+      expect(backup.data.hiddenArticles).toEqual([{ id: 42, hiddenAt: expect.any(Number) }]);
+      expect(backup.data.muteRules).toEqual([rule]);
+      expect(backup.data.readingList).toEqual(getSavedStories());
+      expect(backup.data.commentOptions).toEqual({ ...DEFAULT_COMMENT_OPTIONS, sort: 'newest' });
+    });
+
+    it('should round-trip through parseBackup', () => {
+      hideArticle(1);
+
+      expect(parse(JSON.stringify(createBackup())).data.hiddenArticles).toEqual(getHiddenArticles());
+    });
+  });
+
+  it('should name files after the export date', () => {
+    expect(backupFileName(new Date('2024-03-05T12:00:00Z'))).toBe('slashnews-backup-2024-03-05.json');
+  });
+
+  describe('parseBackup', () => {
+    it.each([
+      ['not json', 'That file is not valid JSON.'],
+      [JSON.stringify([1, 2]), 'That file is not a SlashNews backup.'],
+      [backupText({}, { format: 'other' }), 'That file is not a SlashNews backup.'],
+      [backupText({}, { version: '1' }), 'The backup has no valid version.'],
+      [backupText({}, { version: BACKUP_VERSION + 1 }), `The backup is version ${BACKUP_VERSION + 1}; this app only reads up to version ${BACKUP_VERSION}.`],
+      [backupText({}, { data: null }), 'The backup contains no data.'],
+      [backupText({ hiddenArticles: { 1: true } }), "The backup's hiddenArticles section is not a list."],
+      [backupText({ preferences: { viewMode: 'title' } }), "The backup's preferences section is not valid."],
+      [backupText({ commentOptions: ['flat'] }), "The backup's comment options section is not valid."],
+    ])('should reject %s', (text, error) => {
+      expect(parseBackup(text)).toEqual({ error });
+    });
+  });
+
+  describe('applyBackup', () => {
+    it('should merge into existing data and count invalid entries', () => {
+      hideArticle(1);
+      addMuteRule('keyword', 'crypto');
+      saveStory(makeStory(1));
+
+      const report = applyBackup(parse(backupText({
+        hiddenArticles: [1, 2, 'three', -4],
+        muteRules: [
+          { id: 'a', type: 'keyword', pattern: 'crypto', createdAt: 1 },
+          { id: 'b', type: 'author', pattern: 'spammer', createdAt: 2 },
+          { id: 'c', type: 'unknown', pattern: 'x', createdAt: 3 },
+        ],
+        readingList: [savedEntry(1, 5), savedEntry(2, 1), { id: 3 }],
+      })), 'merge');
+
+      expect(report).toEqual({
+        preferences: null,
+        hiddenArticles: { imported: 1, skipped: 2 },
+        muteRules: { imported: 1, skipped: 1 },
+        readingList: { imported: 1, skipped: 1 },
+        commentOptions: null,
+      });
+      expect(getHiddenArticles().map(entry => entry.id)).toEqual([1, 2]);
+      expect(getMuteRules().map(rule => rule.pattern)).toEqual(['crypto', 'spammer']);
+      expect(getSavedStories().map(entry => entry.id)).toEqual([1, 2]);
+    });
+
+    it('should replace existing data section by section', () => {
+      hideArticle(1);
+      addMuteRule('keyword', 'crypto');
+      saveStory(makeStory(1));
+
+      const report = applyBackup(parse(backupText({
+        hiddenArticles: [5],
+        readingList: [savedEntry(9, 1)],
+      })), 'replace');
+
+      expect(report.hiddenArticles).toEqual({ imported: 1, skipped: 0 });
+      expect(report.muteRules).toBeNull();
+      expect(getHiddenArticles().map(entry => entry.id)).toEqual([5]);
+      expect(JSON.parse(localStorage.getItem(HIDDEN_KEY) || '[]')).toEqual([{ id: 5, hiddenAt: expect.any(Number) }]);
+      // Sections missing from the backup are left alone
+      expect(getMuteRules()).toHaveLength(1);
+      expect(getSavedStories().map(entry => entry.id)).toEqual([9]);
+    });
+
+    it('should migrate and sanitize imported preferences', () => {
+      const report = applyBackup(parse(backupText({
+        preferences: { version: PREFERENCES_VERSION, preferences: { viewMode: 'title', sortMode: 'bogus' } },
+      })), 'merge');
+
+      expect(report.preferences).toEqual({ ...DEFAULT_PREFERENCES, viewMode: 'title' });
+    });
+
+    it('should restore sanitized comment options', () => {
+      const report = applyBackup(parse(backupText({
+        commentOptions: { sort: 'oldest', layout: 'flat', initialDepth: 7 },
+      })), 'merge');
+
+      const expected = { sort: 'oldest', layout: 'flat', initialDepth: DEFAULT_COMMENT_OPTIONS.initialDepth };
+      expect(report.commentOptions).toEqual(expected);
+      expect(getCommentOptions()).toEqual(expected);
+      expect(JSON.parse(localStorage.getItem(COMMENT_OPTIONS_KEY) || '{}')).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { searchApi, buildSearchQuery } from '../searchApi';
+import { circuitBreakerRegistry } from '../../utils/circuitBreaker';
+
+const LOCAL_SERVER = 'http://localhost:4010/api/v1';
+
+const searchResponse = {
+  hits: [
+    {
+      objectID: '8863',
+      created_at_i: 1175714200,
+      _tags: ['story', 'author_dhouston', 'story_8863'],
+      author: 'dhouston',
+      title: 'My YC app: Dropbox',
+      url: 'http://www.getdropbox.com/u/2/screencast.html',
+      points: 104,
+      num_comments: 71,
+    },
+    {
+      objectID: '9224',
+      created_at_i: 1175816820,
+      _tags: ['comment', 'author_BrandonM', 'story_8863'],
+      author: 'BrandonM',
+      comment_text: '<p>You can already build such a system yourself</p>',
+      story_id: 8863,
+      story_title: 'My YC app: Dropbox',
+      parent_id: 8863,
+    },
+  ],
+  page: 0,
+  nbPages: 3,
+  nbHits: 58,
+  hitsPerPage: 20,
+};
+
+describe('buildSearchQuery', () => {
+  it('encodes query, tags, numeric filters and pagination in Algolia format', () => {
+    const query = buildSearchQuery({
+      query: 'dropbox',
+      tags: ['story', ['author_pg', 'author_dang']],
+      numericFilters: ['points>=100', 'created_at_i>1700000000'],
+      page: 2,
+      hitsPerPage: 50,
+    });
+
+    expect(query.get('query')).toBe('dropbox');
+    expect(query.get('tags')).toBe('story,(author_pg,author_dang)');
+    expect(query.get('numericFilters')).toBe('points>=100,created_at_i>1700000000');
+    expect(query.get('page')).toBe('2');
+    expect(query.get('hitsPerPage')).toBe('50');
+  });
+
+  it('leaves optional parameters out', () => {
+    expect(buildSearchQuery({ query: 'x' }).toString()).toBe('query=x');
+  });
+});
+
+// The service shares the real axios instance loaded by the test setup, so spy on it
+describe('SearchApi', () => {
+  let axiosGetSpy: MockInstance;
+
+  beforeEach(async () => {
+    const { default: actualAxios } = await vi.importActual<typeof import('axios')>('axios');
+    axiosGetSpy = vi.spyOn(actualAxios, 'get');
+    searchApi.setBaseUrl(`${LOCAL_SERVER}/`);
+  });
+
+  afterEach(() => {
+    searchApi.resetBaseUrl();
+    vi.restoreAllMocks();
+  });
+
+  it('queries the configured base URL and maps hits to items', async () => {
+    axiosGetSpy.mockResolvedValue({ data: searchResponse });
+
+    const result = await searchApi.search({ query: 'dropbox', tags: [['story', 'comment']], page: 0 });
+
+    expect(axiosGetSpy).toHaveBeenCalledWith(
+      `${LOCAL_SERVER}/search?query=dropbox&tags=%28story%2Ccomment%29&page=0`,
+      { timeout: 10000 }
+    );
+    expect(result.nbHits).toBe(58);
+    expect(result.nbPages).toBe(3);
+    expect(result.items[0]).toEqual({
+      id: 8863,
+      type: 'story',
+      by: 'dhouston',
+      time: 1175714200,
+      title: 'My YC app: Dropbox',
+      url: 'http://www.getdropbox.com/u/2/screencast.html',
+      text: undefined,
+      score: 104,
+      descendants: 71,
+    });
+    expect(result.items[1]).toMatchObject({ id: 9224, type: 'comment', by: 'BrandonM', parent: 8863 });
+    expect(result.storyTitles.get(9224)).toEqual({ storyId: 8863, title: 'My YC app: Dropbox' });
+  });
+
+  it('uses search_by_date when sorting by date', async () => {
+    axiosGetSpy.mockResolvedValue({ data: { ...searchResponse, hits: [] } });
+
+    await searchApi.search({ query: 'rust', sort: 'date' });
+
+    expect(axiosGetSpy.mock.calls[0][0]).toBe(`${LOCAL_SERVER}/search_by_date?query=rust`);
+  });
+
+  it('runs requests through the circuit breaker registry', async () => {
+    const breakerSpy = vi.spyOn(circuitBreakerRegistry, 'executeWithCircuitBreaker');
+    axiosGetSpy.mockResolvedValue({ data: searchResponse });
+
+    await searchApi.search({ query: 'dropbox' });
+
+    expect(breakerSpy).toHaveBeenCalledWith('hacker-news-search', expect.any(Function), expect.any(Object));
+  });
+
+  it('rejects malformed responses', async () => {
+    axiosGetSpy.mockResolvedValue({ data: { hits: 'nope' } });
+
+    await expect(searchApi.search({ query: 'dropbox' })).rejects.toMatchObject({
+      message: 'Search response must include hits',
+    });
+  });
+});
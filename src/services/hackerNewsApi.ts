@@ -2,6 +2,11 @@ import axios from 'axios';
 import ipaddr from 'ipaddr.js';
 import { measureAsync } from '../utils/performance';
 import { circuitBreakerRegistry } from '../utils/circuitBreaker';
+import { validateHackerNewsUser, type HackerNewsUser } from '../types/api';
+import { offlineStore, type OfflineStoreName } from './offlineStore';
+import { isOffline, reportCachedData } from '../utils/offlineStatus';
+import { fetchCommentTree, flattenCommentTree } from '../utils/commentTree';
+import { extractArticle, type ReaderArticle } from '../utils/readability';
 
 const BASE_URL = 'https://hacker-news.firebaseio.com/v0';
 
@@ -23,6 +28,12 @@ export interface HackerNewsItem {
   descendants?: number;
 }
 
+// /v0/updates.json: recently changed items and profiles
+export interface HackerNewsUpdates {
+  items: number[];
+  profiles: string[];
+}
+
 interface CacheEntry {
   data: string;
   timestamp: number;
@@ -32,8 +43,12 @@ class HackerNewsApi {
   private readonly MAX_CACHE_SIZE = 1000;
   private readonly CACHE_EXPIRY_MS = 3600000; // 1 hour
   private summaryCache = new Map<string, CacheEntry>();
+  // null records a page with no extractable article, so it isn't refetched
+  private articleCache = new Map<string, { data: ReaderArticle | null, timestamp: number }>();
   private itemCache = new Map<number, { data: HackerNewsItem, timestamp: number }>();
   private itemPromises = new Map<number, Promise<HackerNewsItem | null>>();
+  private userCache = new Map<string, { data: HackerNewsUser, timestamp: number }>();
+  private userPromises = new Map<string, Promise<HackerNewsUser | null>>();
   private readonly DEBUG_MODE = import.meta.env.MODE === 'development';
 
   private isValidUrl(url: string): boolean {
@@ -84,6 +99,12 @@ class HackerNewsApi {
       }
     }
 
+    for (const [key, entry] of this.articleCache.entries()) {
+      if (now - entry.timestamp > this.CACHE_EXPIRY_MS) {
+        this.articleCache.delete(key);
+      }
+    }
+
     // Remove expired item entries
     for (const [key, entry] of this.itemCache.entries()) {
       if (now - entry.timestamp > this.CACHE_EXPIRY_MS) {
@@ -91,6 +112,13 @@ class HackerNewsApi {
       }
     }
 
+    // Remove expired user entries
+    for (const [key, entry] of this.userCache.entries()) {
+      if (now - entry.timestamp > this.CACHE_EXPIRY_MS) {
+        this.userCache.delete(key);
+      }
+    }
+
     // Remove oldest entries if cache is too large
     if (this.itemCache.size > this.MAX_CACHE_SIZE) {
       const entries = Array.from(this.itemCache.entries());
@@ -108,6 +136,42 @@ class HackerNewsApi {
         .slice(0, Math.floor(this.MAX_CACHE_SIZE * 0.2))
         .forEach(([key]) => this.summaryCache.delete(key));
     }
+
+    if (this.articleCache.size > this.MAX_CACHE_SIZE) {
+      const entries = Array.from(this.articleCache.entries());
+      entries
+        .sort(([, a], [, b]) => a.timestamp - b.timestamp)
+        .slice(0, Math.floor(this.MAX_CACHE_SIZE * 0.2))
+        .forEach(([key]) => this.articleCache.delete(key));
+    }
+  }
+
+  // Network first, falling back to the copy last saved in IndexedDB when the request
+  // fails. While the browser reports being offline the saved copy is used straight
+  // away instead of waiting out retries. Serving saved data is reported to offlineStatus.
+  private async withOfflineFallback<T>(store: OfflineStoreName, key: IDBValidKey, fetchFresh: () => Promise<T>): Promise<T> {
+    if (isOffline()) {
+      const stored = await offlineStore.get<T>(store, key);
+      if (stored) {
+        reportCachedData(stored.savedAt);
+        return stored.value;
+      }
+    }
+
+    try {
+      const data = await fetchFresh();
+      if (data !== null && data !== undefined) {
+        offlineStore.put(store, key, data);
+      }
+      return data;
+    } catch (error) {
+      const stored = await offlineStore.get<T>(store, key);
+      if (stored) {
+        reportCachedData(stored.savedAt);
+        return stored.value;
+      }
+      throw error;
+    }
   }
 
   private async fetchHtmlContent(url: string): Promise<string | null> {
@@ -210,6 +274,12 @@ class HackerNewsApi {
       return cached.data;
     }
 
+    // Summaries don't go stale, so a saved one is fine whenever the proxies can't be reached
+    if (isOffline()) {
+      const stored = await offlineStore.get<string>('summaries', url);
+      return stored?.value ?? null;
+    }
+
     try {
       if (this.DEBUG_MODE) console.debug(`[Summary API] Fetching HTML content for: ${url}`);
       const html = await measureAsync('HN-API-fetchHtmlContent', () => 
@@ -217,10 +287,13 @@ class HackerNewsApi {
       );
       if (!html) {
         if (this.DEBUG_MODE) console.debug(`[Summary API] No HTML content returned for: ${url}`);
-        return null;
+        const stored = await offlineStore.get<string>('summaries', url);
+        return stored?.value ?? null;
       }
       
       if (this.DEBUG_MODE) console.debug(`[Summary API] HTML fetched (${html.length} chars), extracting summary for: ${url}`);
+      // Keep the page for the reader view so opening it doesn't fetch again
+      this.cacheReaderArticle(url, html);
       
       // Extract meta description or Open Graph description
       const descMatch = html.match(/<meta[^>]*name="description"[^>]*content="([^"]*)"[^>]*>/i);
@@ -252,6 +325,7 @@ class HackerNewsApi {
         data: cleanSummary,
         timestamp: Date.now()
       });
+      offlineStore.put('summaries', url, cleanSummary);
       if (this.DEBUG_MODE) console.debug(`[Summary API] Successfully cached summary for: ${url}`);
       return cleanSummary;
       
@@ -260,45 +334,142 @@ class HackerNewsApi {
       return null;
     }
   }
+  private cacheReaderArticle(url: string, html: string): ReaderArticle | null {
+    let article: ReaderArticle | null = null;
+    try {
+      article = extractArticle(html, url);
+    } catch (error) {
+      console.warn(`[Reader] Failed to extract article from ${url}:`, error);
+    }
+    this.articleCache.set(url, { data: article, timestamp: Date.now() });
+    return article;
+  }
+
+  /**
+   * The page's main content, extracted and sanitized for the in-app reader.
+   * Resolves to null for invalid URLs, unreachable pages and pages without an
+   * article-like body.
+   */
+  async getReaderArticle(url: string): Promise<ReaderArticle | null> {
+    if (!this.isValidUrl(url)) return null;
+
+    this.maintainCache();
+
+    const cached = this.articleCache.get(url);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_EXPIRY_MS) {
+      return cached.data;
+    }
+
+    const html = await measureAsync('HN-API-fetchHtmlContent', () =>
+      this.fetchHtmlContent(url)
+    );
+    // Unreachable pages aren't cached so a retry fetches again
+    if (!html) return null;
+    return this.cacheReaderArticle(url, html);
+  }
+
   async getTopStories(): Promise<number[]> {
     return measureAsync('HN-API-getTopStories', async () => {
-      return circuitBreakerRegistry.executeWithCircuitBreaker(
+      return this.withOfflineFallback('storyLists', 'topstories', () => circuitBreakerRegistry.executeWithCircuitBreaker(
         'hacker-news-stories',
         async () => {
           const response = await axios.get(`${BASE_URL}/topstories.json`, { timeout: 10000 });
           return response.data;
         },
         { maxRetries: 2, baseDelayMs: 1000 }
-      );
+      ));
     });
   }
 
   async getNewStories(): Promise<number[]> {
     return measureAsync('HN-API-getNewStories', async () => {
-      return circuitBreakerRegistry.executeWithCircuitBreaker(
+      return this.withOfflineFallback('storyLists', 'newstories', () => circuitBreakerRegistry.executeWithCircuitBreaker(
         'hacker-news-stories',
         async () => {
           const response = await axios.get(`${BASE_URL}/newstories.json`, { timeout: 10000 });
           return response.data;
         },
         { maxRetries: 2, baseDelayMs: 1000 }
-      );
+      ));
     });
   }
 
   async getBestStories(): Promise<number[]> {
     return measureAsync('HN-API-getBestStories', async () => {
-      return circuitBreakerRegistry.executeWithCircuitBreaker(
+      return this.withOfflineFallback('storyLists', 'beststories', () => circuitBreakerRegistry.executeWithCircuitBreaker(
         'hacker-news-stories',
         async () => {
           const response = await axios.get(`${BASE_URL}/beststories.json`, { timeout: 10000 });
           return response.data;
         },
         { maxRetries: 2, baseDelayMs: 1000 }
+      ));
+    });
+  }
+
+  async getAskStories(): Promise<number[]> {
+    return measureAsync('HN-API-getAskStories', async () => {
+      return this.withOfflineFallback('storyLists', 'askstories', () => circuitBreakerRegistry.executeWithCircuitBreaker(
+        'hacker-news-stories',
+        async () => {
+          const response = await axios.get(`${BASE_URL}/askstories.json`, { timeout: 10000 });
+          return response.data;
+        },
+        { maxRetries: 2, baseDelayMs: 1000 }
+      ));
+    });
+  }
+
+  async getShowStories(): Promise<number[]> {
+    return measureAsync('HN-API-getShowStories', async () => {
+      return this.withOfflineFallback('storyLists', 'showstories', () => circuitBreakerRegistry.executeWithCircuitBreaker(
+        'hacker-news-stories',
+        async () => {
+          const response = await axios.get(`${BASE_URL}/showstories.json`, { timeout: 10000 });
+          return response.data;
+        },
+        { maxRetries: 2, baseDelayMs: 1000 }
+      ));
+    });
+  }
+
+  async getJobStories(): Promise<number[]> {
+    return measureAsync('HN-API-getJobStories', async () => {
+      return this.withOfflineFallback('storyLists', 'jobstories', () => circuitBreakerRegistry.executeWithCircuitBreaker(
+        'hacker-news-stories',
+        async () => {
+          const response = await axios.get(`${BASE_URL}/jobstories.json`, { timeout: 10000 });
+          return response.data;
+        },
+        { maxRetries: 2, baseDelayMs: 1000 }
+      ));
+    });
+  }
+
+  async getUpdates(): Promise<HackerNewsUpdates> {
+    return measureAsync('HN-API-getUpdates', async () => {
+      const data = await circuitBreakerRegistry.executeWithCircuitBreaker(
+        'hacker-news-updates',
+        async () => {
+          const response = await axios.get(`${BASE_URL}/updates.json`, { timeout: 10000 });
+          return response.data;
+        },
+        { maxRetries: 1, baseDelayMs: 1000 }
       );
+
+      return {
+        items: Array.isArray(data?.items) ? data.items.filter((id: unknown) => typeof id === 'number') : [],
+        profiles: Array.isArray(data?.profiles) ? data.profiles.filter((id: unknown) => typeof id === 'string') : [],
+      };
     });
   }
 
+  // Drops cached copies so changed items (scores, comment counts) are fetched fresh
+  async refreshItems(ids: number[]): Promise<HackerNewsItem[]> {
+    ids.forEach(id => this.itemCache.delete(id));
+    return this.getItems(ids);
+  }
+
   async getItem(id: number): Promise<HackerNewsItem | null> {
     this.maintainCache();
 
@@ -316,14 +487,14 @@ class HackerNewsApi {
     // 3. Make the API call and cache the promise
     const promise = measureAsync(`HN-API-getItem-${id}`, async () => {
       try {
-        const item = await circuitBreakerRegistry.executeWithCircuitBreaker(
+        const item = await this.withOfflineFallback('items', id, () => circuitBreakerRegistry.executeWithCircuitBreaker(
           'hacker-news-items',
           async () => {
             const response = await axios.get(`${BASE_URL}/item/${id}.json`, { timeout: 8000 });
             return response.data;
           },
           { maxRetries: 2, baseDelayMs: 500 }
-        );
+        ));
 
         if (item !== null) {
           this.itemCache.set(id, { data: item, timestamp: Date.now() });
@@ -342,6 +513,51 @@ class HackerNewsApi {
     return promise;
   }
 
+  // Resolves to null for unknown users; rejects when the request or validation fails
+  async getUser(id: string): Promise<HackerNewsUser | null> {
+    this.maintainCache();
+
+    const cached = this.userCache.get(id);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_EXPIRY_MS) {
+      return cached.data;
+    }
+
+    if (this.userPromises.has(id)) {
+      return this.userPromises.get(id)!;
+    }
+
+    const promise = measureAsync(`HN-API-getUser-${id}`, async () => {
+      try {
+        const data = await circuitBreakerRegistry.executeWithCircuitBreaker(
+          'hacker-news-users',
+          async () => {
+            const response = await axios.get(`${BASE_URL}/user/${encodeURIComponent(id)}.json`, { timeout: 8000 });
+            return response.data;
+          },
+          { maxRetries: 2, baseDelayMs: 500 }
+        );
+
+        // The API answers unknown users with null
+        if (data === null) {
+          return null;
+        }
+
+        const user = validateHackerNewsUser(data);
+        this.userCache.set(id, { data: user, timestamp: Date.now() });
+        return user;
+      } catch (error) {
+        // Only the API's null means "no such user"; failures are the caller's to report
+        console.error(`Failed to fetch user ${id}:`, error);
+        throw error;
+      } finally {
+        this.userPromises.delete(id);
+      }
+    });
+
+    this.userPromises.set(id, promise);
+    return promise;
+  }
+
   async getItems(ids: number[]): Promise<HackerNewsItem[]> {
     const promises = ids.map(id => this.getItem(id));
     const items = await Promise.all(promises);
@@ -362,28 +578,18 @@ class HackerNewsApi {
   }
 
   private async getCommentsRecursive(commentIds: number[]): Promise<HackerNewsItem[]> {
-    const promises = commentIds.map(async (id) => {
-      const comment = await this.getItem(id);
-      if (comment && !comment.deleted && !comment.dead) {
-        const result = [comment];
-        if (comment.kids && comment.kids.length > 0) {
-          const childComments = await this.getCommentsRecursive(comment.kids);
-          result.push(...childComments);
-        }
-        return result;
-      }
-      return [];
-    });
-    
-    const results = await Promise.all(promises);
-    return results.flat();
+    const tree = await fetchCommentTree(commentIds, id => this.getItem(id));
+    return flattenCommentTree(tree).map(node => node.comment);
   }
 
   // Cleanup method for test environments
   clearCache(): void {
     this.summaryCache.clear();
+    this.articleCache.clear();
     this.itemCache.clear();
     this.itemPromises.clear();
+    this.userCache.clear();
+    this.userPromises.clear();
   }
 }
 
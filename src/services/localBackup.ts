@@ -0,0 +1,133 @@
+// Versioned export/import of everything the app keeps in localStorage, so it
+// can be moved between browsers or machines.
+import type { CommentOptions, ImportMode, ImportResult } from '../types/ui';
+import {
+  type Preferences,
+  type StoredPreferences,
+  loadPreferences,
+  preferencesFromRecord,
+  toPreferencesRecord,
+} from '../hooks/usePreferences';
+import { getHiddenArticles, importHiddenArticles } from '../hooks/useHiddenArticles';
+import { getMuteRules, importMuteRules } from '../hooks/useMuteRules';
+import { getSavedStories, importSavedStories } from '../hooks/useReadingList';
+import { getCommentOptions, updateCommentOptions, sanitizeCommentOptions } from '../hooks/useCommentOptions';
+
+export const BACKUP_FORMAT = 'slashnews-backup';
+// Version 2 stores hidden articles as { id, hiddenAt } entries instead of bare
+// ids; both shapes are accepted on import
+export const BACKUP_VERSION = 2;
+
+export interface BackupData {
+  preferences?: StoredPreferences;
+  hiddenArticles?: unknown[];
+  muteRules?: unknown[];
+  readingList?: unknown[];
+  commentOptions?: Partial<CommentOptions>;
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export interface BackupReport {
+  // Sections missing from the backup are left untouched and reported as null
+  preferences: Preferences | null;
+  hiddenArticles: ImportResult | null;
+  muteRules: ImportResult | null;
+  readingList: ImportResult | null;
+  commentOptions: CommentOptions | null;
+}
+
+const LIST_SECTIONS = ['hiddenArticles', 'muteRules', 'readingList'] as const;
+
+// Preferences are read back from storage, which the app keeps current
+export const createBackup = (): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: {
+    preferences: toPreferencesRecord(loadPreferences()),
+    hiddenArticles: getHiddenArticles(),
+    muteRules: getMuteRules(),
+    readingList: getSavedStories(),
+    commentOptions: getCommentOptions(),
+  },
+});
+
+export const backupFileName = (date: Date = new Date()) =>
+  `slashnews-backup-${date.toISOString().slice(0, 10)}.json`;
+
+/**
+ * Checks the shape of a backup file. Whole sections of the wrong type reject
+ * the file; individual bad entries are skipped and counted when importing.
+ */
+export const parseBackup = (text: string): { backup: Backup } | { error: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'That file is not valid JSON.' };
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return { error: 'That file is not a SlashNews backup.' };
+  }
+  const raw = parsed as Record<string, unknown>;
+  if (raw.format !== BACKUP_FORMAT) {
+    return { error: 'That file is not a SlashNews backup.' };
+  }
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    return { error: 'The backup has no valid version.' };
+  }
+  if (raw.version > BACKUP_VERSION) {
+    return { error: `The backup is version ${raw.version}; this app only reads up to version ${BACKUP_VERSION}.` };
+  }
+  if (!raw.data || typeof raw.data !== 'object' || Array.isArray(raw.data)) {
+    return { error: 'The backup contains no data.' };
+  }
+
+  const data = raw.data as Record<string, unknown>;
+  for (const section of LIST_SECTIONS) {
+    if (data[section] !== undefined && !Array.isArray(data[section])) {
+      return { error: `The backup's ${section} section is not a list.` };
+    }
+  }
+  if (data.preferences !== undefined && !preferencesFromRecord(data.preferences)) {
+    return { error: "The backup's preferences section is not valid." };
+  }
+  if (data.commentOptions !== undefined &&
+    (!data.commentOptions || typeof data.commentOptions !== 'object' || Array.isArray(data.commentOptions))) {
+    return { error: "The backup's comment options section is not valid." };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      data: data as BackupData,
+    },
+  };
+};
+
+const importCommentOptions = (raw: Partial<CommentOptions>): CommentOptions => {
+  const restored = sanitizeCommentOptions(raw);
+  updateCommentOptions(restored);
+  return restored;
+};
+
+/**
+ * Writes a parsed backup into the stores. Preferences are returned rather than
+ * stored because the app holds them in component state.
+ */
+export const applyBackup = ({ data }: Backup, mode: ImportMode): BackupReport => ({
+  preferences: data.preferences ? preferencesFromRecord(data.preferences) : null,
+  hiddenArticles: data.hiddenArticles ? importHiddenArticles(data.hiddenArticles, mode) : null,
+  muteRules: data.muteRules ? importMuteRules(data.muteRules, mode) : null,
+  readingList: data.readingList ? importSavedStories(data.readingList, mode) : null,
+  commentOptions: data.commentOptions ? importCommentOptions(data.commentOptions) : null,
+});
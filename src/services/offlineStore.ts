@@ -0,0 +1,131 @@
+// IndexedDB-backed copy of fetched API data so the app can keep working offline.
+// Every method degrades to a no-op when IndexedDB is unavailable (private
+// browsing in some browsers, tests), so callers never need to check.
+
+const DB_NAME = 'slashnews-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'items' | 'storyLists' | 'summaries';
+
+const STORE_NAMES: readonly OfflineStoreName[] = ['items', 'storyLists', 'summaries'];
+
+export interface OfflineEntry<T> {
+  value: T;
+  savedAt: number;
+}
+
+interface OfflineRecord {
+  key: IDBValidKey;
+  value: unknown;
+  savedAt: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class OfflineStore {
+  // Entries older than this are dropped the first time the database is opened
+  private readonly MAX_AGE_MS = 7 * 24 * 3600000;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.isAvailable()) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          STORE_NAMES.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name, { keyPath: 'key' }).createIndex('savedAt', 'savedAt');
+            }
+          });
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          this.prune(db).catch(error => console.warn('Failed to prune offline cache:', error));
+          resolve(db);
+        };
+
+        request.onerror = () => {
+          console.warn('Offline cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async prune(db: IDBDatabase): Promise<void> {
+    const cutoff = IDBKeyRange.upperBound(Date.now() - this.MAX_AGE_MS);
+    const transaction = db.transaction(STORE_NAMES as OfflineStoreName[], 'readwrite');
+
+    await Promise.all(STORE_NAMES.map(name => new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore(name).index('savedAt').openCursor(cutoff);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      request.onerror = () => reject(request.error);
+    })));
+  }
+
+  async get<T>(store: OfflineStoreName, key: IDBValidKey): Promise<OfflineEntry<T> | null> {
+    try {
+      const db = await this.open();
+      if (!db) return null;
+
+      const record = await requestToPromise<OfflineRecord | undefined>(
+        db.transaction(store, 'readonly').objectStore(store).get(key)
+      );
+      return record ? { value: record.value as T, savedAt: record.savedAt } : null;
+    } catch (error) {
+      console.warn(`Failed to read ${store} from offline cache:`, error);
+      return null;
+    }
+  }
+
+  async put(store: OfflineStoreName, key: IDBValidKey, value: unknown): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+
+      const record: OfflineRecord = { key, value, savedAt: Date.now() };
+      await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(record));
+    } catch (error) {
+      console.warn(`Failed to write ${store} to offline cache:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+
+      const transaction = db.transaction(STORE_NAMES as OfflineStoreName[], 'readwrite');
+      await Promise.all(STORE_NAMES.map(name => requestToPromise(transaction.objectStore(name).clear())));
+    } catch (error) {
+      console.warn('Failed to clear offline cache:', error);
+    }
+  }
+}
+
+export const offlineStore = new OfflineStore();
@@ -0,0 +1,136 @@
+import axios from 'axios';
+import { measureAsync } from '../utils/performance';
+import { circuitBreakerRegistry } from '../utils/circuitBreaker';
+import { validateSearchResponse, type AlgoliaHit } from '../types/api';
+import type { HackerNewsItem } from './hackerNewsApi';
+import type { SearchSort } from '../types/ui';
+
+// Override with VITE_SEARCH_API_URL (e.g. a local stand-in server) or setBaseUrl()
+const DEFAULT_BASE_URL = import.meta.env.VITE_SEARCH_API_URL || 'https://hn.algolia.com/api/v1';
+
+export interface SearchParams {
+  query: string;
+  // Algolia tag filters: entries are ANDed, a nested array is ORed, e.g. ['story', ['author_pg', 'author_dang']]
+  tags?: (string | string[])[];
+  // e.g. ['created_at_i>1700000000', 'points>=100']
+  numericFilters?: string[];
+  page?: number;
+  hitsPerPage?: number;
+  sort?: SearchSort;
+}
+
+export interface SearchResult {
+  // Hits mapped onto the Firebase item shape so StoryCard can render them
+  items: HackerNewsItem[];
+  // Comment hits only: the story each comment belongs to
+  storyTitles: Map<number, { storyId: number; title: string }>;
+  page: number;
+  nbPages: number;
+  nbHits: number;
+  hitsPerPage: number;
+}
+
+const toItem = (hit: AlgoliaHit): HackerNewsItem => {
+  const tags = hit._tags || [];
+  const id = parseInt(hit.objectID, 10);
+
+  if (tags.includes('comment')) {
+    return {
+      id,
+      type: 'comment',
+      by: hit.author,
+      time: hit.created_at_i,
+      text: hit.comment_text || '',
+      parent: hit.parent_id ?? undefined,
+    };
+  }
+
+  return {
+    id,
+    type: tags.includes('job') ? 'job' : tags.includes('poll') ? 'poll' : 'story',
+    by: hit.author,
+    time: hit.created_at_i,
+    title: hit.title || hit.story_title || '',
+    url: hit.url || undefined,
+    text: hit.story_text || undefined,
+    score: hit.points ?? undefined,
+    descendants: hit.num_comments ?? undefined,
+  };
+};
+
+export const buildSearchQuery = (params: SearchParams): URLSearchParams => {
+  const query = new URLSearchParams({ query: params.query });
+
+  if (params.tags && params.tags.length > 0) {
+    query.set('tags', params.tags
+      .map(tag => (Array.isArray(tag) ? `(${tag.join(',')})` : tag))
+      .join(','));
+  }
+  if (params.numericFilters && params.numericFilters.length > 0) {
+    query.set('numericFilters', params.numericFilters.join(','));
+  }
+  if (params.page !== undefined) {
+    query.set('page', String(params.page));
+  }
+  if (params.hitsPerPage !== undefined) {
+    query.set('hitsPerPage', String(params.hitsPerPage));
+  }
+
+  return query;
+};
+
+class SearchApi {
+  private baseUrl = DEFAULT_BASE_URL;
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  setBaseUrl(url: string): void {
+    this.baseUrl = url.replace(/\/+$/, '');
+  }
+
+  resetBaseUrl(): void {
+    this.baseUrl = DEFAULT_BASE_URL;
+  }
+
+  async search(params: SearchParams): Promise<SearchResult> {
+    const endpoint = params.sort === 'date' ? 'search_by_date' : 'search';
+    const url = `${this.baseUrl}/${endpoint}?${buildSearchQuery(params).toString()}`;
+
+    return measureAsync('HN-Search', async () => {
+      const data = await circuitBreakerRegistry.executeWithCircuitBreaker(
+        'hacker-news-search',
+        async () => {
+          const response = await axios.get(url, { timeout: 10000 });
+          return response.data;
+        },
+        { maxRetries: 2, baseDelayMs: 1000 }
+      );
+
+      const response = validateSearchResponse(data);
+      const items: HackerNewsItem[] = [];
+      const storyTitles = new Map<number, { storyId: number; title: string }>();
+
+      response.hits.forEach(hit => {
+        const item = toItem(hit);
+        if (!Number.isFinite(item.id)) return;
+        items.push(item);
+        if (item.type === 'comment' && hit.story_id) {
+          storyTitles.set(item.id, { storyId: hit.story_id, title: hit.story_title || '' });
+        }
+      });
+
+      return {
+        items,
+        storyTitles,
+        page: response.page,
+        nbPages: response.nbPages,
+        nbHits: response.nbHits,
+        hitsPerPage: response.hitsPerPage,
+      };
+    });
+  }
+}
+
+export const searchApi = new SearchApi();
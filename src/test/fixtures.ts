@@ -0,0 +1,11 @@
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+
+// A valid story item; tests override only the fields they exercise
+export const makeStory = (id: number, fields: Partial<HackerNewsItem> = {}): HackerNewsItem => ({
+  id,
+  type: 'story',
+  by: 'pg',
+  time: 1640995200,
+  title: `Story ${id}`,
+  ...fields,
+});
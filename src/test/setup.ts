@@ -3,6 +3,12 @@ import { afterEach, beforeEach } from 'vitest';
 import { circuitBreakerRegistry } from '../utils/circuitBreaker';
 import { PerformanceMonitor } from '../utils/performance';
 import { hackerNewsApi } from '../services/hackerNewsApi';
+import { resetMuteRulesStore } from '../hooks/useMuteRules';
+import { resetOfflineStatus } from '../utils/offlineStatus';
+import { resetReadingListStore } from '../hooks/useReadingList';
+import { resetVisitedStoriesStore } from '../hooks/useVisitedStories';
+import { resetHiddenArticlesStore } from '../hooks/useHiddenArticles';
+import { resetCommentOptionsStore } from '../hooks/useCommentOptions';
 
 // Enhanced memory leak prevention for test environments
 const isTestEnv = import.meta.env.MODE === 'test' || import.meta.env.VITEST === 'true';
@@ -62,6 +68,18 @@ if (enableMemoryManagement) {
       document.body.innerHTML = '';
     }
 
+    // Reset the hash route and stored preferences so tests don't leak into each other
+    if (typeof window !== 'undefined') {
+      window.history.replaceState(null, '', window.location.pathname);
+      localStorage.clear();
+      resetMuteRulesStore();
+      resetOfflineStatus();
+      resetReadingListStore();
+      resetVisitedStoriesStore();
+      resetHiddenArticlesStore();
+      resetCommentOptionsStore();
+    }
+
     // Clear any timers that might be holding references
     clearAllTimers();
 
@@ -96,4 +114,13 @@ if (enableMemoryManagement) {
   disconnect() {}
   unobserve() {}
   takeRecords(): IntersectionObserverEntry[] { return []; }
-};
\ No newline at end of file
+};
+// Mock ResizeObserver for tests (react-window measures the story list with it)
+(global as { ResizeObserver: unknown }).ResizeObserver = class ResizeObserver {
+  constructor() {}
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+// jsdom does not implement scrolling; App restores list scroll positions
+window.scrollTo = (() => {}) as typeof window.scrollTo;
@@ -2,7 +2,9 @@ import { describe, it, expect } from "vitest";
 import {
   validateStoryId,
   validateUrl,
-  validateHackerNewsItem
+  validateHackerNewsItem,
+  validateHackerNewsUser,
+  validateSearchResponse
 } from "../api";
 
 describe("API Validation Functions", () => {
@@ -220,4 +222,62 @@ describe("API Validation Functions", () => {
       );
     });
   });
+
+  describe("validateHackerNewsUser", () => {
+    it("should return the user for a valid profile", () => {
+      const user = { id: "pg", created: 1160418092, karma: 157316, about: "Bug fixer.", submitted: [1, 2] };
+      expect(validateHackerNewsUser(user)).toEqual(user);
+    });
+
+    it("should accept profiles without about or submitted", () => {
+      const user = { id: "newbie", created: 1700000000, karma: 1 };
+      expect(validateHackerNewsUser(user)).toEqual(user);
+    });
+
+    it("should throw an error if user is not an object", () => {
+      expect(() => validateHackerNewsUser(null)).toThrowError("User must be an object");
+      expect(() => validateHackerNewsUser("pg")).toThrowError("User must be an object");
+    });
+
+    it("should throw an error for a missing id, creation time or karma", () => {
+      expect(() => validateHackerNewsUser({ created: 1, karma: 1 })).toThrowError("User must have a valid ID");
+      expect(() => validateHackerNewsUser({ id: "pg", karma: 1 })).toThrowError("User must have a valid creation time");
+      expect(() => validateHackerNewsUser({ id: "pg", created: 1 })).toThrowError("User must have karma");
+    });
+
+    it("should throw an error for malformed about or submitted fields", () => {
+      expect(() => validateHackerNewsUser({ id: "pg", created: 1, karma: 1, about: 5 })).toThrowError(
+        "User about must be a string",
+      );
+      expect(() => validateHackerNewsUser({ id: "pg", created: 1, karma: 1, submitted: ["1"] })).toThrowError(
+        "User submitted must be a list of item IDs",
+      );
+    });
+  });
+
+  describe("validateSearchResponse", () => {
+    const response = {
+      hits: [{ objectID: "1", created_at_i: 1700000000, title: "Hello" }],
+      page: 0,
+      nbPages: 1,
+      nbHits: 1,
+      hitsPerPage: 20,
+    };
+
+    it("should return a valid search response", () => {
+      expect(validateSearchResponse(response)).toEqual(response);
+    });
+
+    it("should throw an error for missing hits or pagination", () => {
+      expect(() => validateSearchResponse(null)).toThrowError("Search response must be an object");
+      expect(() => validateSearchResponse({ ...response, hits: undefined })).toThrowError("Search response must include hits");
+      expect(() => validateSearchResponse({ ...response, nbPages: "1" })).toThrowError("Search response must include nbPages");
+    });
+
+    it("should throw an error for malformed hits", () => {
+      expect(() => validateSearchResponse({ ...response, hits: [{ objectID: 1 }] })).toThrowError(
+        "Search hits must have an objectID and creation time",
+      );
+    });
+  });
 });
@@ -123,6 +123,41 @@ export type HackerNewsItem =
   | HackerNewsPoll 
   | HackerNewsPollOption;
 
+// HackerNews user profile (/v0/user/{id})
+export interface HackerNewsUser {
+  id: string;
+  created: number;
+  karma: number;
+  about?: string;
+  submitted?: number[];
+}
+
+// HN Algolia search API (/api/v1/search and /search_by_date)
+export interface AlgoliaHit {
+  objectID: string;
+  created_at_i: number;
+  _tags?: string[];
+  author?: string;
+  title?: string | null;
+  url?: string | null;
+  story_text?: string | null;
+  comment_text?: string | null;
+  points?: number | null;
+  num_comments?: number | null;
+  story_id?: number | null;
+  story_title?: string | null;
+  parent_id?: number | null;
+}
+
+export interface AlgoliaSearchResponse {
+  hits: AlgoliaHit[];
+  page: number;
+  nbPages: number;
+  nbHits: number;
+  hitsPerPage: number;
+  query?: string;
+}
+
 // Type guards for runtime validation
 export function isStory(item: HackerNewsItem): item is HackerNewsStory {
   return item.type === 'story';
@@ -204,6 +239,66 @@ export function validateHackerNewsItem(item: unknown): HackerNewsItem {
   return obj as unknown as HackerNewsItem;
 }
 
+export function validateHackerNewsUser(user: unknown): HackerNewsUser {
+  if (!user || typeof user !== 'object') {
+    throw createValidationError('User must be an object');
+  }
+
+  const obj = user as Record<string, unknown>;
+
+  if (typeof obj.id !== 'string' || obj.id.trim() === '') {
+    throw createValidationError('User must have a valid ID', 'id');
+  }
+
+  if (typeof obj.created !== 'number' || obj.created <= 0) {
+    throw createValidationError('User must have a valid creation time', 'created');
+  }
+
+  if (typeof obj.karma !== 'number') {
+    throw createValidationError('User must have karma', 'karma');
+  }
+
+  if (obj.about !== undefined && typeof obj.about !== 'string') {
+    throw createValidationError('User about must be a string', 'about');
+  }
+
+  if (obj.submitted !== undefined &&
+      (!Array.isArray(obj.submitted) || !obj.submitted.every(id => typeof id === 'number'))) {
+    throw createValidationError('User submitted must be a list of item IDs', 'submitted');
+  }
+
+  return obj as unknown as HackerNewsUser;
+}
+
+export function validateSearchResponse(response: unknown): AlgoliaSearchResponse {
+  if (!response || typeof response !== 'object') {
+    throw createValidationError('Search response must be an object');
+  }
+
+  const obj = response as Record<string, unknown>;
+
+  if (!Array.isArray(obj.hits)) {
+    throw createValidationError('Search response must include hits', 'hits');
+  }
+
+  for (const field of ['page', 'nbPages', 'nbHits', 'hitsPerPage']) {
+    if (typeof obj[field] !== 'number') {
+      throw createValidationError(`Search response must include ${field}`, field);
+    }
+  }
+
+  const hitsValid = obj.hits.every(hit => (
+    hit && typeof hit === 'object' &&
+    typeof (hit as Record<string, unknown>).objectID === 'string' &&
+    typeof (hit as Record<string, unknown>).created_at_i === 'number'
+  ));
+  if (!hitsValid) {
+    throw createValidationError('Search hits must have an objectID and creation time', 'hits');
+  }
+
+  return obj as unknown as AlgoliaSearchResponse;
+}
+
 // Enhanced error handler
 export function handleAPIError(error: unknown): APIError {
   if (error && typeof error === 'object' && 'name' in error && error.name === 'APIError') {
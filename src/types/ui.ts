@@ -1,8 +1,96 @@
 // Shared UI type definitions for components
+import type { HackerNewsItem } from '../services/hackerNewsApi';
 
 export type ViewMode = 'title' | 'compact' | 'full';
 
-export type SortMode = 'default' | 'comments';
+export type SortMode = 'default' | 'comments' | 'points' | 'time' | 'hotness' | 'controversy' | 'domain';
+
+// 'desc' puts the most (comments, points, newest, hottest, largest domain group) first
+export type SortDirection = 'desc' | 'asc';
+
+export type PostTypeFilter = 'all' | 'text' | 'link';
+
+// Client-side story filters (see utils/storyFilters); 0 disables a numeric filter
+export interface StoryFilters {
+  minScore: number;
+  minComments: number;
+  maxAgeHours: number;
+  includeDomains: string[];
+  excludeDomains: string[];
+  postType: PostTypeFilter;
+}
+
+// User-defined rules that auto-hide stories and comments (see hooks/useMuteRules)
+export type MuteRuleType = 'keyword' | 'regex' | 'domain' | 'author';
+
+export interface MuteRule {
+  id: string;
+  type: MuteRuleType;
+  pattern: string;
+  createdAt: number;
+}
+
+// Reading list entries (see hooks/useReadingList). `story` is a snapshot taken
+// when saving so the entry still renders once the item leaves HN's lists
+export interface SavedStory {
+  id: number;
+  story: HackerNewsItem;
+  savedAt: number;
+  tags: string[];
+  note: string;
+  read: boolean;
+}
+
+// What we knew about a discussion the last time it was opened
+export interface StoryVisit {
+  visitedAt: number;
+  descendants: number;
+  seenCommentIds: number[];
+}
+
+export interface HiddenArticle {
+  id: number;
+  hiddenAt: number;
+}
+
+export type CommentSort = 'default' | 'newest' | 'oldest' | 'replies';
+
+export type CommentLayout = 'threaded' | 'flat';
+
+// Reply levels fetched before "Load replies" is needed; 'all' fetches the whole thread
+export type CommentDepth = 0 | 1 | 2 | 3 | 'all';
+
+export interface CommentOptions {
+  sort: CommentSort;
+  layout: CommentLayout;
+  initialDepth: CommentDepth;
+}
+
+// How a backup is applied: added to what is stored, or in place of it
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  imported: number;
+  // Entries dropped because they failed validation
+  skipped: number;
+}
+
+// 'system' follows the OS color scheme; the rest pick a theme outright
+export type ThemePreference = 'system' | 'light' | 'dark' | 'high-contrast';
+
+export type ResolvedTheme = Exclude<ThemePreference, 'system'>;
+
+// Reader controls applied as CSS variables (see hooks/useDisplaySettings)
+export interface DisplaySettings {
+  // Percent of the stylesheet's font sizes
+  fontSize: number;
+  // Multiplier on the stylesheet's line heights
+  lineHeight: number;
+  // Max width of the main column in px
+  contentWidth: number;
+  // Extra left margin per reply level in px
+  commentIndent: number;
+}
 
 // Base interface for components that need view mode
 export interface ViewModeProps {
@@ -14,15 +102,37 @@ export interface ViewModeProps {
 export interface SortModeProps {
   sortMode: SortMode;
   onSortModeChange: (mode: SortMode) => void;
+  sortDirection: SortDirection;
+  onSortDirectionChange: (direction: SortDirection) => void;
 }
 
 // Combined interface for components that need both
 export interface ViewAndSortModeProps extends ViewModeProps, SortModeProps {}
 
 // Category-related types
-export type CategoryType = 'top' | 'new' | 'best';
+export type CategoryType = 'top' | 'new' | 'best' | 'ask' | 'show' | 'job';
 
 export interface CategoryProps {
   currentCategory: string;
   onCategoryChange: (category: string) => void;
-}
\ No newline at end of file
+}
+// Search options (see services/searchApi and components/SearchResults)
+export type SearchSort = 'relevance' | 'date';
+export type SearchType = 'story' | 'comment' | 'all';
+export type SearchRange = 'all' | 'day' | 'week' | 'month' | 'year';
+
+export interface SearchOptions {
+  query: string;
+  sort: SearchSort;
+  type: SearchType;
+  range: SearchRange;
+}
+
+// Client-side routes (see hooks/useRoute)
+export type Route =
+  | { name: 'category'; category: CategoryType }
+  | ({ name: 'search' } & SearchOptions)
+  | { name: 'item'; id: number }
+  | { name: 'user'; id: string }
+  | { name: 'saved' }
+  | { name: 'about' };
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { HackerNewsItem } from '../../services/hackerNewsApi';
+import {
+  fetchCommentTree,
+  insertReplies,
+  flattenCommentTree,
+  getVisibleComments,
+  countDescendants,
+  getSiblingIds,
+  getUnloadedParents,
+  sortCommentTree,
+  getFlatComments,
+  EMPTY_COMMENT_TREE,
+} from '../commentTree';
+
+// 1 ─┬─ 3 ── 5
+//    └─ 4
+// 2
+const ITEMS: Record<number, HackerNewsItem> = {
+  1: { id: 1, type: 'comment', time: 1, text: 'one', kids: [3, 4] },
+  2: { id: 2, type: 'comment', time: 2, text: 'two' },
+  3: { id: 3, type: 'comment', time: 3, text: 'three', kids: [5] },
+  4: { id: 4, type: 'comment', time: 4, text: 'four' },
+  5: { id: 5, type: 'comment', time: 5, text: 'five' },
+};
+
+const fetchItem = vi.fn(async (id: number) => ITEMS[id] ?? null);
+
+const ids = (nodes: { comment: HackerNewsItem }[]) => nodes.map(node => node.comment.id);
+
+describe('commentTree', () => {
+  describe('fetchCommentTree', () => {
+    it('should build a normalized tree in thread order', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem);
+
+      expect(tree.rootIds).toEqual([1, 2]);
+      expect(tree.nodes.get(1)).toMatchObject({ depth: 0, parentId: null, childIds: [3, 4], hasUnloadedReplies: false });
+      expect(tree.nodes.get(5)).toMatchObject({ depth: 2, parentId: 3, childIds: [] });
+      expect(ids(flattenCommentTree(tree))).toEqual([1, 3, 5, 4, 2]);
+    });
+
+    it('should stop at maxDepth and mark unloaded replies', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem, { maxDepth: 0 });
+
+      expect(tree.nodes.size).toBe(2);
+      expect(tree.nodes.get(1)).toMatchObject({ childIds: [], hasUnloadedReplies: true });
+      expect(tree.nodes.get(2)!.hasUnloadedReplies).toBe(false);
+    });
+
+    it('should drop deleted, dead, missing and excluded items with their replies', async () => {
+      const items: Record<number, HackerNewsItem> = {
+        1: { ...ITEMS[1], dead: true },
+        2: { ...ITEMS[2], deleted: true },
+        6: { id: 6, type: 'comment', time: 6 },
+      };
+      const tree = await fetchCommentTree([1, 2, 6, 7], async id => items[id] ?? null, {
+        include: comment => !!comment.text,
+      });
+
+      expect(tree).toEqual({ rootIds: [], nodes: new Map() });
+    });
+
+    it('should reject when any fetch fails', async () => {
+      await expect(fetchCommentTree([1, 2], async id => {
+        if (id === 4) throw new Error('network');
+        return ITEMS[id];
+      })).rejects.toThrow('network');
+    });
+  });
+
+  describe('insertReplies', () => {
+    it('should attach lazily loaded replies under their parent', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem, { maxDepth: 0 });
+      const replies = await fetchCommentTree(ITEMS[1].kids!, fetchItem, { depth: 1, parentId: 1 });
+
+      const next = insertReplies(tree, 1, replies);
+
+      expect(next.nodes.get(1)).toMatchObject({ childIds: [3, 4], hasUnloadedReplies: false });
+      expect(next.nodes.get(3)).toMatchObject({ depth: 1, parentId: 1, childIds: [5] });
+      expect(next.nodes.get(5)).toMatchObject({ depth: 2, parentId: 3 });
+      expect(ids(flattenCommentTree(next))).toEqual([1, 3, 5, 4, 2]);
+      // The previous tree is left untouched
+      expect(tree.nodes.get(1)!.hasUnloadedReplies).toBe(true);
+      expect(tree.nodes.has(3)).toBe(false);
+    });
+
+    it('should insert replies under nested comments', async () => {
+      const tree = await fetchCommentTree([1], fetchItem, { maxDepth: 1 });
+      expect(tree.nodes.get(3)!.hasUnloadedReplies).toBe(true);
+
+      const replies = await fetchCommentTree([5], fetchItem, { depth: 2, parentId: 3 });
+      const next = insertReplies(tree, 3, replies);
+
+      expect(ids(flattenCommentTree(next))).toEqual([1, 3, 5, 4]);
+      expect(countDescendants(next).get(1)).toBe(3);
+    });
+
+    it('should ignore replies for unknown parents', () => {
+      expect(insertReplies(EMPTY_COMMENT_TREE, 1, EMPTY_COMMENT_TREE)).toBe(EMPTY_COMMENT_TREE);
+    });
+  });
+
+  describe('getVisibleComments', () => {
+    it('should skip replies under collapsed threads', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem);
+
+      const visible = getVisibleComments(tree, new Set([3]));
+
+      expect(ids(visible.map(entry => entry.node))).toEqual([1, 3, 4, 2]);
+      expect(visible.find(entry => entry.node.comment.id === 3)!.collapsed).toBe(true);
+      expect(ids(getVisibleComments(tree, new Set([1, 2])).map(entry => entry.node))).toEqual([1, 2]);
+    });
+  });
+
+  describe('countDescendants', () => {
+    it('should count loaded replies at every depth', async () => {
+      const counts = countDescendants(await fetchCommentTree([1, 2], fetchItem));
+
+      expect(Object.fromEntries(counts)).toEqual({ 1: 3, 2: 0, 3: 1, 4: 0, 5: 0 });
+    });
+  });
+
+  describe('getSiblingIds', () => {
+    it('should return other replies to the same parent', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem);
+
+      expect(getSiblingIds(tree, 1)).toEqual([2]);
+      expect(getSiblingIds(tree, 4)).toEqual([3]);
+      expect(getSiblingIds(tree, 5)).toEqual([]);
+      expect(getSiblingIds(tree, 99)).toEqual([]);
+    });
+  });
+
+  describe('getUnloadedParents', () => {
+    it('should list comments with replies left to fetch', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem, { maxDepth: 1 });
+
+      expect(ids(getUnloadedParents(tree))).toEqual([3]);
+    });
+
+    it('should report every fetched item', async () => {
+      const onFetched = vi.fn();
+
+      await fetchCommentTree([1, 2], fetchItem, { onFetched });
+
+      expect(onFetched).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('sortCommentTree', () => {
+    it('should keep the same tree for the default order', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem);
+
+      expect(sortCommentTree(tree, 'default')).toBe(tree);
+    });
+
+    it.each([
+      ['newest', [2, 1, 4, 3, 5]],
+      ['oldest', [1, 3, 5, 4, 2]],
+      ['replies', [1, 3, 5, 4, 2]],
+    ] as const)('should sort every level by %s', async (sort, expected) => {
+      const tree = await fetchCommentTree([2, 1], fetchItem);
+
+      expect(ids(flattenCommentTree(sortCommentTree(tree, sort)))).toEqual(expected);
+    });
+
+    it('should count unloaded direct replies when sorting by replies', async () => {
+      const tree = await fetchCommentTree([2, 4, 1], fetchItem, { maxDepth: 0 });
+
+      expect(sortCommentTree(tree, 'replies').rootIds).toEqual([1, 2, 4]);
+    });
+  });
+
+  describe('getFlatComments', () => {
+    it('should list every loaded comment by time', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem);
+
+      expect(ids(getFlatComments(tree, new Set()).map(entry => entry.node))).toEqual([1, 2, 3, 4, 5]);
+      expect(ids(getFlatComments(tree, new Set(), true).map(entry => entry.node))).toEqual([5, 4, 3, 2, 1]);
+    });
+
+    it('should only collapse the comment itself', async () => {
+      const tree = await fetchCommentTree([1, 2], fetchItem);
+
+      const flat = getFlatComments(tree, new Set([1]));
+
+      expect(flat).toHaveLength(5);
+      expect(flat.filter(entry => entry.collapsed).map(entry => entry.node.comment.id)).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { HackerNewsItem } from '../../services/hackerNewsApi';
+import type { MuteRule, MuteRuleType } from '../../types/ui';
+import {
+  validateMuteRule,
+  compileMuteRule,
+  findStoryMuteRule,
+  findCommentMuteRule,
+  describeMuteRule,
+} from '../muteRules';
+import { makeStory } from '../../test/fixtures';
+
+const rule = (type: MuteRuleType, pattern: string, id = pattern): MuteRule => ({
+  id,
+  type,
+  pattern,
+  createdAt: 0,
+});
+
+const rustStory = makeStory(1, { by: 'alice', title: 'Rust 2.0 released', url: 'https://blog.rust-lang.org/post' });
+
+const comment = (fields: Partial<HackerNewsItem> = {}): HackerNewsItem => ({
+  id: 2,
+  type: 'comment',
+  by: 'bob',
+  time: 0,
+  text: '<p>I don&#x27;t trust <i>crypto</i> at all</p>',
+  ...fields,
+});
+
+describe('muteRules', () => {
+  describe('validateMuteRule', () => {
+    it('rejects empty patterns', () => {
+      expect(validateMuteRule('keyword', '   ')).toEqual({ error: 'Enter something to mute.' });
+    });
+
+    it('rejects invalid regular expressions', () => {
+      expect(validateMuteRule('regex', '(unclosed')).toEqual({ error: 'That is not a valid regular expression.' });
+    });
+
+    it('normalizes domains', () => {
+      expect(validateMuteRule('domain', 'https://WWW.Example.com/path')).toEqual({ pattern: 'example.com' });
+    });
+
+    it('rejects usernames with invalid characters', () => {
+      expect(validateMuteRule('author', 'bad name')).toHaveProperty('error');
+      expect(validateMuteRule('author', ' dang ')).toEqual({ pattern: 'dang' });
+    });
+  });
+
+  describe('findStoryMuteRule', () => {
+    it('matches whole-word keywords in the title case-insensitively', () => {
+      expect(findStoryMuteRule(rustStory, [compileMuteRule(rule('keyword', 'rust'))])).not.toBeNull();
+      expect(findStoryMuteRule({ ...rustStory, title: 'In trust we trust' }, [compileMuteRule(rule('keyword', 'rust'))])).toBeNull();
+    });
+
+    it('matches keywords containing regex characters literally', () => {
+      const rules = [compileMuteRule(rule('keyword', 'C++'))];
+
+      expect(findStoryMuteRule({ ...rustStory, title: 'Why C++ is hard' }, rules)).not.toBeNull();
+      expect(findStoryMuteRule({ ...rustStory, title: 'Why C is hard' }, rules)).toBeNull();
+    });
+
+    it('matches regexes against the title', () => {
+      expect(findStoryMuteRule(rustStory, [compileMuteRule(rule('regex', '\\d+\\.\\d+'))])).not.toBeNull();
+    });
+
+    it('matches domains including subdomains', () => {
+      expect(findStoryMuteRule(rustStory, [compileMuteRule(rule('domain', 'rust-lang.org'))])).not.toBeNull();
+      expect(findStoryMuteRule({ ...rustStory, url: undefined }, [compileMuteRule(rule('domain', 'rust-lang.org'))])).toBeNull();
+    });
+
+    it('matches the submitter', () => {
+      expect(findStoryMuteRule(rustStory, [compileMuteRule(rule('author', 'Alice'))])).not.toBeNull();
+    });
+
+    it('returns the first matching rule', () => {
+      const rules = [rule('author', 'carol'), rule('keyword', 'released'), rule('domain', 'rust-lang.org')];
+
+      expect(findStoryMuteRule(rustStory, rules.map(compileMuteRule))).toBe(rules[1]);
+    });
+
+    it('never matches with a regex that no longer compiles', () => {
+      expect(findStoryMuteRule(rustStory, [compileMuteRule(rule('regex', '(broken'))])).toBeNull();
+    });
+  });
+
+  describe('findCommentMuteRule', () => {
+    it('matches keywords in the readable comment text', () => {
+      expect(findCommentMuteRule(comment(), [compileMuteRule(rule('keyword', 'crypto'))])).not.toBeNull();
+      expect(findCommentMuteRule(comment(), [compileMuteRule(rule('regex', "don't trust"))])).not.toBeNull();
+    });
+
+    it('does not match tag names', () => {
+      expect(findCommentMuteRule(comment(), [compileMuteRule(rule('keyword', 'p'))])).toBeNull();
+    });
+
+    it('matches commenters and ignores domain rules', () => {
+      expect(findCommentMuteRule(comment(), [compileMuteRule(rule('author', 'bob'))])).not.toBeNull();
+      expect(findCommentMuteRule(comment(), [compileMuteRule(rule('domain', 'bob'))])).toBeNull();
+    });
+  });
+
+  describe('describeMuteRule', () => {
+    it.each([
+      [rule('keyword', 'crypto'), 'keyword "crypto"'],
+      [rule('regex', '^Show HN'), 'pattern /^Show HN/'],
+      [rule('domain', 'example.com'), 'domain example.com'],
+      [rule('author', 'bob'), 'user bob'],
+    ])('describes %o', (muteRule, expected) => {
+      expect(describeMuteRule(muteRule)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  subscribeOfflineStatus,
+  getOfflineStatus,
+  reportCachedData,
+  clearCachedData,
+  resetOfflineStatus,
+} from '../offlineStatus';
+
+describe('offlineStatus', () => {
+  beforeEach(() => {
+    resetOfflineStatus();
+  });
+
+  it('should start online with nothing cached', () => {
+    expect(getOfflineStatus()).toEqual({ online: true, cachedSince: null });
+  });
+
+  it('should follow online and offline events while subscribed', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeOfflineStatus(listener);
+
+    window.dispatchEvent(new Event('offline'));
+    expect(getOfflineStatus().online).toBe(false);
+
+    window.dispatchEvent(new Event('online'));
+    expect(getOfflineStatus().online).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    window.dispatchEvent(new Event('offline'));
+    expect(getOfflineStatus().online).toBe(true);
+  });
+
+  it('should keep the oldest cached timestamp', () => {
+    reportCachedData(2000);
+    reportCachedData(1000);
+    reportCachedData(3000);
+
+    expect(getOfflineStatus().cachedSince).toBe(1000);
+  });
+
+  it('should only notify when something changes', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeOfflineStatus(listener);
+
+    reportCachedData(1000);
+    reportCachedData(2000);
+    clearCachedData();
+    clearCachedData();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(getOfflineStatus().cachedSince).toBeNull();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { extractArticle, estimateReadingMinutes } from '../readability';
+
+const paragraph = (text: string) => `<p>${text}</p>`;
+const prose = (n: number) =>
+  Array.from({ length: n }, (_, i) =>
+    paragraph(`Paragraph ${i + 1} of the story, which goes on for a while, with commas, clauses and enough words to look like real prose.`)
+  ).join('');
+
+const page = (body: string, head = '<title>Page Title</title>') =>
+  `<!doctype html><html><head>${head}</head><body>${body}</body></html>`;
+
+describe('readability', () => {
+  describe('extractArticle', () => {
+    it('picks the block with the most prose over navigation and sidebars', () => {
+      const html = page(`
+        <nav><a href="/">Home</a><a href="/about">About</a></nav>
+        <div class="sidebar">${paragraph('Sidebar blurb that is long enough to be scored as a paragraph, maybe.')}</div>
+        <div class="post-content">${prose(6)}</div>
+        <div class="comments">${prose(2)}</div>
+      `);
+
+      const article = extractArticle(html, 'https://example.com/post')!;
+
+      expect(article.title).toBe('Page Title');
+      expect(article.content).toContain('Paragraph 6 of the story');
+      expect(article.content).not.toContain('Sidebar blurb');
+      expect(article.content).not.toContain('Home');
+      expect(article.wordCount).toBeGreaterThan(100);
+    });
+
+    it('prefers the og:title', () => {
+      const html = page(`<article>${prose(4)}</article>`, '<title>Site | Page</title><meta property="og:title" content="Real Title">');
+
+      expect(extractArticle(html, 'https://example.com/')!.title).toBe('Real Title');
+    });
+
+    it('strips scripts, handlers, styles and unsafe links', () => {
+      const html = page(`<article>
+        ${prose(3)}
+        <p style="color:red" onclick="alert(1)">Styled paragraph with <a href="javascript:alert(1)">a bad link</a> in it, long enough to count.</p>
+        <script>alert(1)</script>
+        <iframe src="https://example.com/embed"></iframe>
+      </article>`);
+
+      const { content } = extractArticle(html, 'https://example.com/')!;
+
+      expect(content).toContain('Styled paragraph');
+      expect(content).not.toMatch(/script|onclick|style=|javascript:|iframe/);
+    });
+
+    it('resolves relative links and images against the page URL', () => {
+      const html = page(`<article>${prose(3)}<p>See <a href="/docs/intro">the intro</a> and the diagram below, which explains it.</p><img src="img/diagram.png" alt="Diagram"></article>`);
+
+      const { content } = extractArticle(html, 'https://example.com/blog/post')!;
+
+      expect(content).toContain('href="https://example.com/docs/intro"');
+      expect(content).toContain('src="https://example.com/blog/img/diagram.png"');
+      expect(content).toContain('target="_blank"');
+    });
+
+    it('returns null for pages without an article', () => {
+      expect(extractArticle(page('<div><a href="/a">Link</a> <a href="/b">Another</a></div>'), 'https://example.com/')).toBeNull();
+    });
+  });
+
+  describe('estimateReadingMinutes', () => {
+    it('rounds to whole minutes with a minimum of one', () => {
+      expect(estimateReadingMinutes(0)).toBe(1);
+      expect(estimateReadingMinutes(230)).toBe(1);
+      expect(estimateReadingMinutes(1150)).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createStoredStore } from '../storedStore';
+
+const KEY = 'storedStoreTest';
+
+// Keeps positive numbers, so stored data can need cleaning up
+const parseNumbers = (stored: string | null): number[] => {
+  if (!stored) return [];
+  const parsed = JSON.parse(stored);
+  return Array.isArray(parsed) ? parsed.filter(value => typeof value === 'number' && value > 0) : [];
+};
+
+const createStore = () => createStoredStore(KEY, parseNumbers, JSON.stringify, 'test numbers');
+
+describe('createStoredStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should load, save and notify subscribers', () => {
+    localStorage.setItem(KEY, '[1,2]');
+    const store = createStore();
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    expect(store.get()).toEqual([1, 2]);
+
+    store.save([3]);
+
+    expect(store.get()).toEqual([3]);
+    expect(localStorage.getItem(KEY)).toBe('[3]');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep session-only changes out of storage', () => {
+    const store = createStore();
+
+    store.set([4]);
+
+    expect(store.get()).toEqual([4]);
+    expect(localStorage.getItem(KEY)).toBeNull();
+  });
+
+  it('should write cleaned-up data back once', () => {
+    localStorage.setItem(KEY, '[1,-1,"x",2]');
+
+    expect(createStore().get()).toEqual([1, 2]);
+    expect(localStorage.getItem(KEY)).toBe('[1,2]');
+  });
+
+  it('should fall back to the default for unreadable data', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(KEY, '{not json');
+
+    expect(createStore().get()).toEqual([]);
+    expect(warnSpy).toHaveBeenCalledWith('Failed to load test numbers:', expect.any(SyntaxError));
+  });
+
+  it('should follow other tabs only while subscribed', () => {
+    const store = createStore();
+    const unsubscribe = store.subscribe(() => {});
+
+    window.dispatchEvent(new StorageEvent('storage', { key: KEY, newValue: '[5]' }));
+    expect(store.get()).toEqual([5]);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: null }));
+    expect(store.get()).toEqual([]);
+
+    unsubscribe();
+    window.dispatchEvent(new StorageEvent('storage', { key: KEY, newValue: '[6]' }));
+    expect(store.get()).toEqual([]);
+  });
+
+  it('should reload from storage', () => {
+    const store = createStore();
+    localStorage.setItem(KEY, '[7]');
+
+    store.reload();
+
+    expect(store.get()).toEqual([7]);
+  });
+});
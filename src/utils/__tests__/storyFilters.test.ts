@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterStories,
+  matchesFilters,
+  parseDomainList,
+  countActiveFilters,
+  DEFAULT_FILTERS,
+} from '../storyFilters';
+import { makeStory } from '../../test/fixtures';
+
+const NOW = 1700000000 * 1000;
+const HOUR = 3600;
+
+describe('storyFilters', () => {
+  describe('parseDomainList', () => {
+    it('normalizes comma and space separated domains', () => {
+      expect(parseDomainList('https://www.GitHub.com/foo, arxiv.org  lwn.net,')).toEqual([
+        'github.com', 'arxiv.org', 'lwn.net'
+      ]);
+    });
+
+    it('drops duplicates and empty entries', () => {
+      expect(parseDomainList(' , example.com,example.com ')).toEqual(['example.com']);
+    });
+  });
+
+  describe('countActiveFilters', () => {
+    it('counts filters that differ from the defaults', () => {
+      expect(countActiveFilters(DEFAULT_FILTERS)).toBe(0);
+      expect(countActiveFilters({ ...DEFAULT_FILTERS, minScore: 10, postType: 'text' })).toBe(2);
+    });
+  });
+
+  describe('matchesFilters', () => {
+    it('applies minimum score and comments', () => {
+      const filters = { ...DEFAULT_FILTERS, minScore: 10, minComments: 5 };
+
+      expect(matchesFilters(makeStory(1, { score: 10, descendants: 5 }), filters, NOW)).toBe(true);
+      expect(matchesFilters(makeStory(2, { score: 9, descendants: 50 }), filters, NOW)).toBe(false);
+      expect(matchesFilters(makeStory(3, { score: 50 }), filters, NOW)).toBe(false);
+    });
+
+    it('applies maximum age', () => {
+      const filters = { ...DEFAULT_FILTERS, maxAgeHours: 6 };
+
+      expect(matchesFilters(makeStory(1, { time: NOW / 1000 - 5 * HOUR }), filters, NOW)).toBe(true);
+      expect(matchesFilters(makeStory(2, { time: NOW / 1000 - 7 * HOUR }), filters, NOW)).toBe(false);
+    });
+
+    it('separates text and link posts', () => {
+      const text = makeStory(1, { text: 'Ask HN' });
+      const link = makeStory(2, { url: 'https://example.com' });
+
+      expect(matchesFilters(text, { ...DEFAULT_FILTERS, postType: 'text' }, NOW)).toBe(true);
+      expect(matchesFilters(link, { ...DEFAULT_FILTERS, postType: 'text' }, NOW)).toBe(false);
+      expect(matchesFilters(text, { ...DEFAULT_FILTERS, postType: 'link' }, NOW)).toBe(false);
+      expect(matchesFilters(link, { ...DEFAULT_FILTERS, postType: 'link' }, NOW)).toBe(true);
+    });
+
+    it('includes and excludes domains, matching subdomains', () => {
+      const gist = makeStory(1, { url: 'https://gist.github.com/x' });
+      const blog = makeStory(2, { url: 'https://blog.example.com/post' });
+
+      expect(matchesFilters(gist, { ...DEFAULT_FILTERS, includeDomains: ['github.com'] }, NOW)).toBe(true);
+      expect(matchesFilters(blog, { ...DEFAULT_FILTERS, includeDomains: ['github.com'] }, NOW)).toBe(false);
+      expect(matchesFilters(blog, { ...DEFAULT_FILTERS, excludeDomains: ['example.com'] }, NOW)).toBe(false);
+      expect(matchesFilters(gist, { ...DEFAULT_FILTERS, excludeDomains: ['example.com'] }, NOW)).toBe(true);
+    });
+
+    it('does not treat a suffix as a subdomain', () => {
+      const lookalike = makeStory(1, { url: 'https://notgithub.com' });
+
+      expect(matchesFilters(lookalike, { ...DEFAULT_FILTERS, includeDomains: ['github.com'] }, NOW)).toBe(false);
+    });
+  });
+
+  describe('filterStories', () => {
+    it('returns the input untouched when no filter is active', () => {
+      const stories = [makeStory(1), makeStory(2)];
+      expect(filterStories(stories, DEFAULT_FILTERS, NOW)).toBe(stories);
+    });
+
+    it('keeps only matching stories in order', () => {
+      const stories = [makeStory(1, { score: 5 }), makeStory(2, { score: 50 }), makeStory(3, { score: 20 })];
+      const result = filterStories(stories, { ...DEFAULT_FILTERS, minScore: 10 }, NOW);
+
+      expect(result.map(s => s.id)).toEqual([2, 3]);
+    });
+  });
+});
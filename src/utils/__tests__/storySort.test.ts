@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { HackerNewsItem } from '../../services/hackerNewsApi';
+import {
+  sortStories,
+  getStoryDomain,
+  getHotness,
+  getControversy,
+  getSortLabel,
+  SELF_POST_DOMAIN,
+} from '../storySort';
+import { makeStory } from '../../test/fixtures';
+
+const NOW = 1700000000 * 1000;
+const HOUR = 3600;
+
+const ids = (stories: HackerNewsItem[]) => stories.map(s => s.id);
+
+describe('storySort', () => {
+  describe('getStoryDomain', () => {
+    it('strips www and lowercases the hostname', () => {
+      expect(getStoryDomain(makeStory(1, { url: 'https://WWW.Example.com/path' }))).toBe('example.com');
+    });
+
+    it('uses the HN domain for self posts and invalid URLs', () => {
+      expect(getStoryDomain(makeStory(1))).toBe(SELF_POST_DOMAIN);
+      expect(getStoryDomain(makeStory(2, { url: 'not a url' }))).toBe(SELF_POST_DOMAIN);
+    });
+  });
+
+  describe('getHotness', () => {
+    it('decays points with age', () => {
+      const fresh = makeStory(1, { score: 50, time: NOW / 1000 - HOUR });
+      const old = makeStory(2, { score: 50, time: NOW / 1000 - 24 * HOUR });
+
+      expect(getHotness(fresh, NOW)).toBeGreaterThan(getHotness(old, NOW));
+    });
+
+    it('never goes negative for unscored stories', () => {
+      expect(getHotness(makeStory(1), NOW)).toBe(0);
+    });
+  });
+
+  describe('getControversy', () => {
+    it('divides comments by points, treating zero points as one', () => {
+      expect(getControversy(makeStory(1, { score: 10, descendants: 50 }))).toBe(5);
+      expect(getControversy(makeStory(2, { score: 0, descendants: 3 }))).toBe(3);
+    });
+  });
+
+  describe('sortStories', () => {
+    const stories = [
+      makeStory(1, { score: 10, descendants: 40, time: NOW / 1000 - 10 * HOUR, url: 'https://a.com/1' }),
+      makeStory(2, { score: 300, descendants: 30, time: NOW / 1000 - 20 * HOUR, url: 'https://b.com/1' }),
+      makeStory(3, { score: 50, descendants: 5, time: NOW / 1000 - HOUR, url: 'https://b.com/2' }),
+    ];
+
+    it('returns the input untouched for default order', () => {
+      expect(sortStories(stories, 'default', 'asc')).toBe(stories);
+    });
+
+    it('does not mutate the input', () => {
+      sortStories(stories, 'points');
+      expect(ids(stories)).toEqual([1, 2, 3]);
+    });
+
+    it.each([
+      ['comments', 'desc', [1, 2, 3]],
+      ['comments', 'asc', [3, 2, 1]],
+      ['points', 'desc', [2, 3, 1]],
+      ['points', 'asc', [1, 3, 2]],
+      ['time', 'desc', [3, 1, 2]],
+      ['time', 'asc', [2, 1, 3]],
+      ['hotness', 'desc', [3, 2, 1]],
+      ['controversy', 'desc', [1, 2, 3]],
+    ] as const)('sorts by %s %s', (mode, direction, expected) => {
+      expect(ids(sortStories(stories, mode, direction, NOW))).toEqual(expected);
+    });
+
+    it('groups by domain with the largest groups first, keeping order within groups', () => {
+      expect(ids(sortStories(stories, 'domain', 'desc'))).toEqual([2, 3, 1]);
+      expect(ids(sortStories(stories, 'domain', 'asc'))).toEqual([1, 2, 3]);
+    });
+
+    it('keeps API order for ties', () => {
+      const tied = [makeStory(1, { score: 5 }), makeStory(2, { score: 5 }), makeStory(3, { score: 5 })];
+      expect(ids(sortStories(tied, 'points', 'desc'))).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('getSortLabel', () => {
+    it('describes each mode and direction', () => {
+      expect(getSortLabel('default', 'desc')).toBe('default order');
+      expect(getSortLabel('comments', 'desc')).toBe('most comments first');
+      expect(getSortLabel('time', 'desc')).toBe('newest first');
+      expect(getSortLabel('time', 'asc')).toBe('oldest first');
+      expect(getSortLabel('domain', 'asc')).toBe('domain, smallest groups first');
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import type { CommentSort } from '../types/ui';
+
+export interface CommentNode {
+  comment: HackerNewsItem;
+  // 0 for top-level comments
+  depth: number;
+  parentId: number | null;
+  // Loaded replies in thread order
+  childIds: number[];
+  // Replies exist on HN but haven't been fetched
+  hasUnloadedReplies: boolean;
+}
+
+// Normalized thread: nodes by id plus the ordered top-level ids
+export interface CommentTree {
+  rootIds: number[];
+  nodes: ReadonlyMap<number, CommentNode>;
+}
+
+export interface VisibleComment {
+  node: CommentNode;
+  collapsed: boolean;
+}
+
+export interface FetchCommentTreeOptions {
+  // Deepest level to fetch; replies below it are left unloaded
+  maxDepth?: number;
+  // Depth and parent of the ids being fetched, for loading replies later
+  depth?: number;
+  parentId?: number | null;
+  // Which fetched items become nodes; deleted and dead items never do
+  include?: (comment: HackerNewsItem) => boolean;
+  // Called after each item is fetched, for progress reporting
+  onFetched?: () => void;
+}
+
+export const EMPTY_COMMENT_TREE: CommentTree = { rootIds: [], nodes: new Map() };
+
+/**
+ * Fetches comments, and replies down to `maxDepth`, into a tree. Siblings are
+ * fetched in parallel but keep HN's order; any failed fetch rejects the call.
+ */
+export const fetchCommentTree = async (
+  commentIds: number[],
+  fetchItem: (id: number) => Promise<HackerNewsItem | null>,
+  { maxDepth = Infinity, depth = 0, parentId = null, include = () => true, onFetched }: FetchCommentTreeOptions = {}
+): Promise<CommentTree> => {
+  const nodes = new Map<number, CommentNode>();
+
+  const fetchLevel = async (ids: number[], level: number, parent: number | null): Promise<number[]> => {
+    const fetched = await Promise.all(ids.map(async (id) => {
+      const comment = await fetchItem(id);
+      onFetched?.();
+      if (!comment || comment.deleted || comment.dead || !include(comment)) {
+        return null;
+      }
+
+      const kids = comment.kids ?? [];
+      const loadReplies = kids.length > 0 && level < maxDepth;
+      const node: CommentNode = {
+        comment,
+        depth: level,
+        parentId: parent,
+        childIds: [],
+        hasUnloadedReplies: kids.length > 0 && !loadReplies,
+      };
+      nodes.set(comment.id, node);
+
+      if (loadReplies) {
+        node.childIds = await fetchLevel(kids, level + 1, comment.id);
+      }
+      return comment.id;
+    }));
+    return fetched.filter((id): id is number => id !== null);
+  };
+
+  const rootIds = await fetchLevel(commentIds, depth, parentId);
+  return { rootIds, nodes };
+};
+
+/**
+ * Attaches lazily loaded replies (fetched with the parent's id and depth + 1)
+ * under their parent. Returns the same tree when the parent is unknown.
+ */
+export const insertReplies = (tree: CommentTree, parentId: number, replies: CommentTree): CommentTree => {
+  const parent = tree.nodes.get(parentId);
+  if (!parent) return tree;
+
+  const nodes = new Map(tree.nodes);
+  replies.nodes.forEach((node, id) => nodes.set(id, node));
+  nodes.set(parentId, { ...parent, childIds: replies.rootIds, hasUnloadedReplies: false });
+  return { rootIds: tree.rootIds, nodes };
+};
+
+// Every loaded comment in thread (pre-)order
+export const flattenCommentTree = (tree: CommentTree): CommentNode[] => {
+  const result: CommentNode[] = [];
+  const walk = (ids: number[]) => {
+    ids.forEach(id => {
+      const node = tree.nodes.get(id);
+      if (!node) return;
+      result.push(node);
+      walk(node.childIds);
+    });
+  };
+  walk(tree.rootIds);
+  return result;
+};
+
+// Comments to render in thread order, skipping replies under collapsed threads
+export const getVisibleComments = (tree: CommentTree, collapsed: ReadonlySet<number>): VisibleComment[] => {
+  const result: VisibleComment[] = [];
+  const walk = (ids: number[]) => {
+    ids.forEach(id => {
+      const node = tree.nodes.get(id);
+      if (!node) return;
+      const isCollapsed = collapsed.has(id);
+      result.push({ node, collapsed: isCollapsed });
+      if (!isCollapsed) walk(node.childIds);
+    });
+  };
+  walk(tree.rootIds);
+  return result;
+};
+
+// Loaded replies under each comment, at any depth
+export const countDescendants = (tree: CommentTree): Map<number, number> => {
+  const counts = new Map<number, number>();
+  const count = (id: number): number => {
+    const node = tree.nodes.get(id);
+    if (!node) return 0;
+    const total = node.childIds.reduce((sum, childId) => sum + 1 + count(childId), 0);
+    counts.set(id, total);
+    return total;
+  };
+  tree.rootIds.forEach(count);
+  return counts;
+};
+
+// Other comments replying to the same parent, in thread order
+export const getSiblingIds = (tree: CommentTree, id: number): number[] => {
+  const node = tree.nodes.get(id);
+  if (!node) return [];
+  const siblings = node.parentId === null ? tree.rootIds : tree.nodes.get(node.parentId)?.childIds ?? [];
+  return siblings.filter(siblingId => siblingId !== id);
+};
+
+// Comments whose replies haven't been fetched yet
+export const getUnloadedParents = (tree: CommentTree): CommentNode[] =>
+  Array.from(tree.nodes.values()).filter(node => node.hasUnloadedReplies);
+
+// "Most replies" uses whichever is larger: loaded replies at any depth or known direct replies
+const replyWeight = (node: CommentNode, counts: Map<number, number>) =>
+  Math.max(counts.get(node.comment.id) ?? 0, node.comment.kids?.length ?? 0);
+
+/**
+ * Reorders every level of the tree. Ties, and the default sort, keep HN's
+ * ranking order.
+ */
+export const sortCommentTree = (tree: CommentTree, sort: CommentSort): CommentTree => {
+  if (sort === 'default') return tree;
+
+  const counts = sort === 'replies' ? countDescendants(tree) : new Map<number, number>();
+  const compare = (a: CommentNode, b: CommentNode) => {
+    switch (sort) {
+      case 'newest': return b.comment.time - a.comment.time;
+      case 'oldest': return a.comment.time - b.comment.time;
+      case 'replies': return replyWeight(b, counts) - replyWeight(a, counts);
+    }
+  };
+  const sortIds = (ids: number[]) =>
+    ids.map(id => tree.nodes.get(id)!).sort(compare).map(node => node.comment.id);
+
+  const nodes = new Map<number, CommentNode>();
+  tree.nodes.forEach((node, id) => {
+    nodes.set(id, node.childIds.length > 1 ? { ...node, childIds: sortIds(node.childIds) } : node);
+  });
+  return { rootIds: sortIds(tree.rootIds), nodes };
+};
+
+/**
+ * Every loaded comment as one chronological list. Collapsing a comment only
+ * hides its own text here, since replies aren't nested under it.
+ */
+export const getFlatComments = (
+  tree: CommentTree,
+  collapsed: ReadonlySet<number>,
+  newestFirst = false
+): VisibleComment[] =>
+  flattenCommentTree(tree)
+    .sort((a, b) => newestFirst ? b.comment.time - a.comment.time : a.comment.time - b.comment.time)
+    .map(node => ({ node, collapsed: collapsed.has(node.comment.id) }));
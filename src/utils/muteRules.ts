@@ -0,0 +1,133 @@
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import type { MuteRule, MuteRuleType } from '../types/ui';
+import { getStoryDomain } from './storySort';
+
+export const MUTE_RULE_TYPES: readonly MuteRuleType[] = ['keyword', 'regex', 'domain', 'author'];
+
+export interface CompiledMuteRule {
+  rule: MuteRule;
+  test: (value: string) => boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Comment bodies are HTML; match against the readable text only
+const stripTags = (html: string) =>
+  html.replace(/<[^>]*>/g, ' ').replace(/&#x27;/g, "'").replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+/**
+ * Normalizes a user-entered pattern for its rule type, or returns an error
+ * message when the pattern can't be used.
+ */
+export const validateMuteRule = (type: MuteRuleType, pattern: string): { pattern: string } | { error: string } => {
+  const trimmed = pattern.trim();
+  if (!trimmed) {
+    return { error: 'Enter something to mute.' };
+  }
+
+  switch (type) {
+    case 'regex':
+      try {
+        new RegExp(trimmed, 'i');
+      } catch {
+        return { error: 'That is not a valid regular expression.' };
+      }
+      return { pattern: trimmed };
+    case 'domain':
+      return { pattern: trimmed.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, '') };
+    case 'author':
+      if (!/^[A-Za-z0-9_-]+$/.test(trimmed)) {
+        return { error: 'Usernames only contain letters, digits, dashes and underscores.' };
+      }
+      return { pattern: trimmed };
+    default:
+      return { pattern: trimmed };
+  }
+};
+
+/**
+ * Builds the matcher for a rule once so regexes aren't recompiled per story.
+ * Rules that no longer compile (edited storage) never match.
+ */
+export const compileMuteRule = (rule: MuteRule): CompiledMuteRule => {
+  switch (rule.type) {
+    case 'keyword': {
+      // Whole-word match so "rust" doesn't mute "trust"
+      const regex = new RegExp(`(^|\\W)${escapeRegExp(rule.pattern)}($|\\W)`, 'i');
+      return { rule, test: value => regex.test(value) };
+    }
+    case 'regex': {
+      try {
+        const regex = new RegExp(rule.pattern, 'i');
+        return { rule, test: value => regex.test(value) };
+      } catch {
+        return { rule, test: () => false };
+      }
+    }
+    case 'domain': {
+      const domain = rule.pattern.toLowerCase();
+      return { rule, test: value => value === domain || value.endsWith(`.${domain}`) };
+    }
+    case 'author': {
+      const author = rule.pattern.toLowerCase();
+      return { rule, test: value => value.toLowerCase() === author };
+    }
+  }
+};
+
+/**
+ * First rule that mutes the story: keywords and regexes match the title,
+ * domain rules the link's host and author rules the submitter.
+ */
+export const findStoryMuteRule = (story: HackerNewsItem, rules: CompiledMuteRule[]): MuteRule | null => {
+  for (const { rule, test } of rules) {
+    switch (rule.type) {
+      case 'keyword':
+      case 'regex':
+        if (story.title && test(story.title)) return rule;
+        break;
+      case 'domain':
+        if (story.url && test(getStoryDomain(story))) return rule;
+        break;
+      case 'author':
+        if (story.by && test(story.by)) return rule;
+        break;
+    }
+  }
+  return null;
+};
+
+/**
+ * First rule that mutes the comment: keywords and regexes match its text and
+ * author rules the commenter. Domain rules only apply to stories.
+ */
+export const findCommentMuteRule = (comment: HackerNewsItem, rules: CompiledMuteRule[]): MuteRule | null => {
+  for (const { rule, test } of rules) {
+    switch (rule.type) {
+      case 'keyword':
+      case 'regex':
+        if (comment.text && test(stripTags(comment.text))) return rule;
+        break;
+      case 'author':
+        if (comment.by && test(comment.by)) return rule;
+        break;
+    }
+  }
+  return null;
+};
+
+/**
+ * Short explanation shown next to muted items, e.g. `keyword "crypto"`.
+ */
+export const describeMuteRule = (rule: MuteRule): string => {
+  switch (rule.type) {
+    case 'keyword':
+      return `keyword "${rule.pattern}"`;
+    case 'regex':
+      return `pattern /${rule.pattern}/`;
+    case 'domain':
+      return `domain ${rule.pattern}`;
+    case 'author':
+      return `user ${rule.pattern}`;
+  }
+};
@@ -0,0 +1,59 @@
+// Connectivity plus whether anything on screen came from the offline cache.
+// The API service reports cache hits here and the UI reads it through
+// hooks/useOfflineStatus, so it lives in a plain module-level store.
+
+export interface OfflineStatus {
+  online: boolean;
+  // When the oldest cached data being shown was saved; null when everything is fresh
+  cachedSince: number | null;
+}
+
+const isNavigatorOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+let status: OfflineStatus = { online: isNavigatorOnline(), cachedSince: null };
+const listeners = new Set<() => void>();
+
+const setStatus = (next: OfflineStatus) => {
+  status = next;
+  listeners.forEach(listener => listener());
+};
+
+const handleOnline = () => setStatus({ ...status, online: true });
+const handleOffline = () => setStatus({ ...status, online: false });
+
+export const subscribeOfflineStatus = (listener: () => void) => {
+  if (listeners.size === 0) {
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    }
+  };
+};
+
+export const getOfflineStatus = () => status;
+
+export const isOffline = () => !isNavigatorOnline();
+
+export const reportCachedData = (savedAt: number) => {
+  const cachedSince = status.cachedSince === null ? savedAt : Math.min(status.cachedSince, savedAt);
+  if (cachedSince !== status.cachedSince) {
+    setStatus({ ...status, cachedSince });
+  }
+};
+
+export const clearCachedData = () => {
+  if (status.cachedSince !== null) {
+    setStatus({ ...status, cachedSince: null });
+  }
+};
+
+// Re-read connectivity and forget cache hits (used by tests)
+export const resetOfflineStatus = () => {
+  setStatus({ online: isNavigatorOnline(), cachedSince: null });
+};
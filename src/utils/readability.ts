@@ -0,0 +1,184 @@
+import type { Config } from 'dompurify';
+import { sanitizeHtml } from './dompurify';
+
+// Article body pulled out of a page for the in-app reader view
+export interface ReaderArticle {
+  title: string;
+  // Sanitized HTML, safe to render
+  content: string;
+  wordCount: number;
+  readingMinutes: number;
+}
+
+// Text and simple structure only: no styling, ids, forms, media embeds or
+// non-http(s) URLs. Headings start at h2 since the reader renders the title.
+const READER_SANITIZE_CONFIG: Config = {
+  ALLOWED_TAGS: [
+    'p', 'a', 'br', 'hr', 'em', 'strong', 'i', 'b', 'code', 'pre', 'blockquote',
+    'ul', 'ol', 'li', 'h2', 'h3', 'h4', 'h5', 'h6', 'figure', 'figcaption', 'img',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  ],
+  ALLOWED_ATTR: ['href', 'src', 'alt'],
+  ALLOW_DATA_ATTR: false,
+  ALLOWED_URI_REGEXP: /^https?:/i,
+};
+
+const WORDS_PER_MINUTE = 230;
+
+// Elements that are never part of an article body
+const REMOVED_TAGS = 'script, style, noscript, template, iframe, object, embed, form, button, input, select, textarea, nav, aside, footer, svg, canvas';
+
+// Class/id hints, after the patterns used by Mozilla's Readability
+const UNLIKELY_CANDIDATES = /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pagination|pager|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental/i;
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_HINTS = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINTS = /-ad-|hidden|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const SCORED_TAGS = 'p, pre, td, blockquote';
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_ARTICLE_LENGTH = 200;
+
+const textOf = (element: Element) => (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+const hintsOf = (element: Element) => `${element.className} ${element.id}`;
+
+const classWeight = (element: Element): number => {
+  const hints = hintsOf(element);
+  return (POSITIVE_HINTS.test(hints) ? 25 : 0) - (NEGATIVE_HINTS.test(hints) ? 25 : 0);
+};
+
+const tagWeight = (element: Element): number => {
+  switch (element.tagName) {
+    case 'ARTICLE': return 10;
+    case 'DIV': case 'SECTION': case 'MAIN': return 5;
+    case 'PRE': case 'TD': case 'BLOCKQUOTE': return 3;
+    case 'FORM': case 'OL': case 'UL': case 'DL': return -3;
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': case 'TH': return -5;
+    default: return 0;
+  }
+};
+
+// Share of the element's text that sits inside links
+const linkDensity = (element: Element): number => {
+  const length = textOf(element).length;
+  if (length === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((sum, link) => sum + textOf(link).length, 0);
+  return linkLength / length;
+};
+
+const removeClutter = (body: HTMLElement) => {
+  body.querySelectorAll(REMOVED_TAGS).forEach(element => element.remove());
+  body.querySelectorAll('[hidden], [aria-hidden="true"]').forEach(element => element.remove());
+  body.querySelectorAll('*').forEach(element => {
+    if (element.tagName === 'ARTICLE' || element.tagName === 'MAIN') return;
+    const hints = hintsOf(element);
+    if (UNLIKELY_CANDIDATES.test(hints) && !MAYBE_CANDIDATES.test(hints)) {
+      element.remove();
+    }
+  });
+};
+
+/**
+ * Scores the containers of each paragraph by how much prose they hold, the way
+ * Readability does: longer, comma-rich paragraphs count for more, the
+ * grandparent gets half credit, and link-heavy containers are discounted.
+ */
+const findTopCandidate = (body: HTMLElement): { element: Element; scores: Map<Element, number> } | null => {
+  const scores = new Map<Element, number>();
+  const addScore = (element: Element | null, amount: number) => {
+    if (!element || element === body.ownerDocument.documentElement) return;
+    if (!scores.has(element)) scores.set(element, tagWeight(element) + classWeight(element));
+    scores.set(element, scores.get(element)! + amount);
+  };
+
+  body.querySelectorAll(SCORED_TAGS).forEach(paragraph => {
+    const text = textOf(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(paragraph.parentElement, score);
+    addScore(paragraph.parentElement?.parentElement ?? null, score / 2);
+  });
+
+  let top: Element | null = null;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    scores.set(element, adjusted);
+    if (!top || adjusted > scores.get(top)!) top = element;
+  }
+
+  top ??= body.querySelector('article, main, [role="main"]');
+  return top ? { element: top, scores } : null;
+};
+
+// Siblings that look like more of the article, e.g. paragraphs split across wrappers
+const collectContent = (top: Element, scores: Map<Element, number>): Element[] => {
+  const parent = top.parentElement;
+  if (!parent) return [top];
+
+  const threshold = Math.max(10, (scores.get(top) ?? 0) * 0.2);
+  return Array.from(parent.children).filter(sibling => {
+    if (sibling === top) return true;
+    if ((scores.get(sibling) ?? 0) >= threshold) return true;
+    if (sibling.tagName !== 'P') return false;
+    const text = textOf(sibling);
+    return text.length > 80 && linkDensity(sibling) < 0.25;
+  });
+};
+
+// Link lists and share bars that survived inside the chosen container
+const removeLinkBlocks = (container: Element) => {
+  container.querySelectorAll('div, section, ul, ol, table').forEach(element => {
+    if (linkDensity(element) > 0.5 && textOf(element).length < 500) {
+      element.remove();
+    }
+  });
+};
+
+const resolveUrls = (container: Element, baseUrl: string) => {
+  container.querySelectorAll('a[href], img[src]').forEach(element => {
+    const attribute = element.tagName === 'A' ? 'href' : 'src';
+    try {
+      element.setAttribute(attribute, new URL(element.getAttribute(attribute)!, baseUrl).href);
+    } catch {
+      element.removeAttribute(attribute);
+    }
+  });
+};
+
+const findTitle = (doc: Document): string => {
+  const ogTitle = doc.querySelector('meta[property="og:title"]')?.getAttribute('content');
+  return (ogTitle || doc.title || doc.querySelector('h1')?.textContent || '').trim();
+};
+
+export const estimateReadingMinutes = (wordCount: number): number =>
+  Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE));
+
+/**
+ * Pulls the main article out of a page's HTML and sanitizes it for the reader
+ * view. Returns null when no block of prose long enough to be an article is found.
+ */
+export const extractArticle = (html: string, baseUrl: string): ReaderArticle | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = findTitle(doc);
+  removeClutter(doc.body);
+
+  const candidate = findTopCandidate(doc.body);
+  if (!candidate) return null;
+
+  const container = doc.createElement('div');
+  collectContent(candidate.element, candidate.scores).forEach(element => container.appendChild(element));
+  removeLinkBlocks(container);
+  resolveUrls(container, baseUrl);
+
+  const text = textOf(container);
+  if (text.length < MIN_ARTICLE_LENGTH) return null;
+
+  const wordCount = text.split(' ').length;
+  return {
+    title,
+    content: sanitizeHtml(container.innerHTML, READER_SANITIZE_CONFIG),
+    wordCount,
+    readingMinutes: estimateReadingMinutes(wordCount),
+  };
+};
@@ -0,0 +1,13 @@
+// Registers public/sw.js, which precaches the app shell for offline use.
+// Only production builds register it so the dev server never serves stale modules.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(error => console.warn('Service worker registration failed:', error));
+  });
+};
@@ -0,0 +1,91 @@
+// A module-level value persisted under one localStorage key, for state that
+// several components read through useSyncExternalStore. Other tabs' writes
+// (and storage being cleared) are picked up while anything is subscribed.
+
+export interface StoredStore<T> {
+  get: () => T;
+  subscribe: (listener: () => void) => () => void;
+  // Replaces the value for this session only
+  set: (next: T) => void;
+  // Replaces the value and writes it to storage
+  save: (next: T) => void;
+  // Re-reads storage (used by tests)
+  reload: () => void;
+}
+
+/**
+ * `parse` receives the stored string, or null when nothing is stored, and must
+ * fall back to a default for malformed data. Stored data that parses to
+ * something different (migrated, pruned or cleaned up) is written back once.
+ * `label` names the data in warnings.
+ */
+export const createStoredStore = <T>(
+  key: string,
+  parse: (stored: string | null) => T,
+  serialize: (value: T) => string,
+  label: string = key
+): StoredStore<T> => {
+  const listeners = new Set<() => void>();
+
+  const write = (next: T) => {
+    try {
+      localStorage.setItem(key, serialize(next));
+    } catch (error) {
+      console.warn(`Failed to save ${label}:`, error);
+    }
+  };
+
+  const load = (): T => {
+    try {
+      const stored = localStorage.getItem(key);
+      const loaded = parse(stored);
+      if (stored && serialize(loaded) !== stored) {
+        write(loaded);
+      }
+      return loaded;
+    } catch (error) {
+      console.warn(`Failed to load ${label}:`, error);
+      return parse(null);
+    }
+  };
+
+  let value = load();
+
+  const set = (next: T) => {
+    value = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key && event.key !== null) return;
+    try {
+      set(parse(event.key === null ? null : event.newValue));
+    } catch (error) {
+      console.warn(`Failed to sync ${label}:`, error);
+    }
+  };
+
+  const subscribe = (listener: () => void) => {
+    if (listeners.size === 0) {
+      window.addEventListener('storage', handleStorage);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        window.removeEventListener('storage', handleStorage);
+      }
+    };
+  };
+
+  return {
+    get: () => value,
+    subscribe,
+    set,
+    save: (next: T) => {
+      write(next);
+      set(next);
+    },
+    reload: () => set(load()),
+  };
+};
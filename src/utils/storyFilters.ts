@@ -0,0 +1,79 @@
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import type { StoryFilters } from '../types/ui';
+import { getStoryDomain } from './storySort';
+
+export const DEFAULT_FILTERS: StoryFilters = {
+  minScore: 0,
+  minComments: 0,
+  maxAgeHours: 0,
+  includeDomains: [],
+  excludeDomains: [],
+  postType: 'all',
+};
+
+/**
+ * Splits a comma or whitespace separated list into normalized domains,
+ * dropping protocols, paths and a leading "www.".
+ */
+export const parseDomainList = (input: string): string[] => {
+  const domains = input
+    .split(/[\s,]+/)
+    .map(domain => domain.trim().toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/\/.*$/, '')
+      .replace(/^www\./, ''))
+    .filter(Boolean);
+  return Array.from(new Set(domains));
+};
+
+// "github.com" also matches "gist.github.com"
+const matchesDomain = (domain: string, candidates: string[]) =>
+  candidates.some(candidate => domain === candidate || domain.endsWith(`.${candidate}`));
+
+/**
+ * Number of filters that differ from the defaults, for the filter bar badge.
+ */
+export const countActiveFilters = (filters: StoryFilters): number => {
+  return [
+    filters.minScore > 0,
+    filters.minComments > 0,
+    filters.maxAgeHours > 0,
+    filters.includeDomains.length > 0,
+    filters.excludeDomains.length > 0,
+    filters.postType !== 'all',
+  ].filter(Boolean).length;
+};
+
+export const matchesFilters = (
+  story: HackerNewsItem,
+  filters: StoryFilters,
+  now: number = Date.now()
+): boolean => {
+  if ((story.score || 0) < filters.minScore) return false;
+  if ((story.descendants || 0) < filters.minComments) return false;
+  if (filters.maxAgeHours > 0 && now / 1000 - story.time > filters.maxAgeHours * 3600) return false;
+
+  if (filters.postType === 'text' && story.url) return false;
+  if (filters.postType === 'link' && !story.url) return false;
+
+  if (filters.includeDomains.length > 0 || filters.excludeDomains.length > 0) {
+    const domain = getStoryDomain(story);
+    if (filters.includeDomains.length > 0 && !matchesDomain(domain, filters.includeDomains)) return false;
+    if (matchesDomain(domain, filters.excludeDomains)) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Returns the stories matching every active filter, or the input itself when
+ * no filter is active.
+ */
+export const filterStories = (
+  stories: HackerNewsItem[],
+  filters: StoryFilters,
+  now: number = Date.now()
+): HackerNewsItem[] => {
+  if (countActiveFilters(filters) === 0) return stories;
+  return stories.filter(story => matchesFilters(story, filters, now));
+};
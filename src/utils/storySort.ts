@@ -0,0 +1,111 @@
+import type { HackerNewsItem } from '../services/hackerNewsApi';
+import type { SortMode, SortDirection } from '../types/ui';
+
+// Self posts (Ask HN, text-only stories) have no URL and are grouped together
+export const SELF_POST_DOMAIN = 'news.ycombinator.com';
+
+/**
+ * Returns the story's hostname without a leading "www.", or the HN domain for
+ * self posts and unparseable URLs.
+ */
+export const getStoryDomain = (story: HackerNewsItem): string => {
+  if (!story.url) return SELF_POST_DOMAIN;
+  try {
+    return new URL(story.url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return SELF_POST_DOMAIN;
+  }
+};
+
+/**
+ * HN-style ranking: points decay with age, (points - 1) / (hours + 2)^1.8.
+ */
+export const getHotness = (story: HackerNewsItem, now: number = Date.now()): number => {
+  const ageHours = Math.max(0, now / 1000 - story.time) / 3600;
+  return Math.max(0, (story.score || 0) - 1) / Math.pow(ageHours + 2, 1.8);
+};
+
+/**
+ * Comments per point; lively discussions on modestly upvoted stories rank highest.
+ */
+export const getControversy = (story: HackerNewsItem): number => {
+  return (story.descendants || 0) / Math.max(story.score || 0, 1);
+};
+
+/**
+ * Human-readable description of a sort, used for menu labels and announcements.
+ */
+export const getSortLabel = (mode: SortMode, direction: SortDirection): string => {
+  const most = direction === 'desc';
+  switch (mode) {
+    case 'default':
+      return 'default order';
+    case 'comments':
+      return most ? 'most comments first' : 'fewest comments first';
+    case 'points':
+      return most ? 'most points first' : 'fewest points first';
+    case 'time':
+      return most ? 'newest first' : 'oldest first';
+    case 'hotness':
+      return most ? 'hottest first' : 'least hot first';
+    case 'controversy':
+      return most ? 'most controversial first' : 'least controversial first';
+    case 'domain':
+      return most ? 'domain, largest groups first' : 'domain, smallest groups first';
+  }
+};
+
+const getSortValue = (story: HackerNewsItem, mode: SortMode, now: number): number => {
+  switch (mode) {
+    case 'comments':
+      return story.descendants || 0;
+    case 'points':
+      return story.score || 0;
+    case 'time':
+      return story.time;
+    case 'hotness':
+      return getHotness(story, now);
+    case 'controversy':
+      return getControversy(story);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Returns a sorted copy of the stories. Sorting is stable, so ties keep the
+ * order the API returned them in, and 'default' returns the input unchanged.
+ */
+export const sortStories = (
+  stories: HackerNewsItem[],
+  mode: SortMode,
+  direction: SortDirection = 'desc',
+  now: number = Date.now()
+): HackerNewsItem[] => {
+  if (mode === 'default') return stories;
+
+  const sign = direction === 'desc' ? -1 : 1;
+
+  if (mode === 'domain') {
+    const groups = new Map<string, HackerNewsItem[]>();
+    stories.forEach(story => {
+      const domain = getStoryDomain(story);
+      const group = groups.get(domain);
+      if (group) {
+        group.push(story);
+      } else {
+        groups.set(domain, [story]);
+      }
+    });
+
+    return Array.from(groups.entries())
+      .sort(([domainA, a], [domainB, b]) => (
+        sign * (a.length - b.length) || domainA.localeCompare(domainB)
+      ))
+      .flatMap(([, group]) => group);
+  }
+
+  return [...stories].sort((a, b) => (
+    sign * (getSortValue(a, mode, now) - getSortValue(b, mode, now))
+  ));
+};